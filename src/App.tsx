@@ -1,49 +1,162 @@
-import { useState, useEffect } from 'react';
-import { DataPoint, SeriesType, ChartConfig as ChartConfigType } from './types';
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { DataPoint, SeriesType, ChartConfig as ChartConfigType, HuntSession, MapOverlays, SavedSession, WorldProfile } from './types';
 // import { generateSampleData } from './utils/dataUtils'; // Unused, removed for lint
 import { BarChart2, Settings, LineChart, RotateCw } from 'lucide-react';
 import SettingsPage from './components/SettingsPage';
 import GraphPage from './components/GraphPage';
 import SeriesSelector from './components/SeriesSelector';
+import SessionRestoredBanner from './components/SessionRestoredBanner';
+import ImageNotSavedBanner from './components/ImageNotSavedBanner';
+import HistoryPanel from './components/HistoryPanel';
+import ImportPreviewDialog from './components/ImportPreviewDialog';
+import SelectionBar from './components/SelectionBar';
+import { ALL_SERIES, DEFAULT_CHART_CONFIG } from './constants/defaults';
+import { useSessionPersistence } from './hooks/useSessionPersistence';
+import { useHistory, useHistoryShortcuts } from './hooks/useHistory';
+import { HuntProject } from './utils/projectFile';
+import { DEFAULT_DUPLICATE_TOLERANCE, MergeStrategy, classifyIncoming } from './utils/importMerge';
+import { movePoint, recolorPoint, tagPoint } from './utils/dataUtils';
+import { DEFAULT_WORLD_PROFILE, validateCoordinates } from './utils/worldProfile';
 
 function App() {
-  const [data, setData] = useState<DataPoint[]>([]);
+  // Points and chart config are undoable; everything else is plain view state
+  const history = useHistory({ data: [], chartConfig: DEFAULT_CHART_CONFIG });
+  const { data, chartConfig } = history.document;
   const [visibleSeries, setVisibleSeries] = useState<Set<SeriesType>>(
-    new Set(['Cyan', 'Blue', 'White', 'Red', 'Magenta', 'Green', 'Yellow', 'Black'])
+    new Set(ALL_SERIES)
   );
-  const [chartConfig, setChartConfig] = useState<ChartConfigType>({
-    xAxisLabel: 'X Coordinate',
-    zAxisLabel: 'Z Coordinate',
-    title: 'Pearl Hunt Graph',
-    showDataLabels: true,
-    dataLabelFontSize: 10,
-    pointSize: 6,
-    backgroundImage: '/preset-maps/example-map.PNG',
-    imageWidth: 530,
-    imageHeight: 534,
-    backgroundImageOpacity: 0.3,
-    backgroundImageScale: 1
-  });
   const [currentPage, setCurrentPage] = useState<'graph' | 'settings'>('graph');
   const [isDarkMode, setIsDarkMode] = useState(true);
-  const [rotation, setRotation] = useState(0); // 0, 90, 180, or 270 degrees
+  const [rotation, setRotation] = useState(0); // degrees clockwise, 0 to 359
+  const [worldProfile, setWorldProfile] = useState<WorldProfile>(DEFAULT_WORLD_PROFILE);
+  const [overlays, setOverlays] = useState<MapOverlays>({ showGrid: false, showCrosshair: false, labelDebug: false });
+  const [pendingImport, setPendingImport] = useState<DataPoint[] | null>(null);
+  // Selected point ids, shared by the map and the data table
+  const [selection, setSelection] = useState<Set<string>>(new Set());
+
+  // Session persistence: restore on startup, debounce autosaves afterwards
+  const session = useMemo<HuntSession>(() => ({
+    data,
+    chartConfig,
+    visibleSeries: Array.from(visibleSeries),
+    rotation,
+    worldProfile,
+    isDarkMode
+  }), [data, chartConfig, visibleSeries, rotation, worldProfile, isDarkMode]);
+
+  const { reset: resetHistory, replaceDocument } = history;
+
+  const applyViewState = (project: HuntProject) => {
+    setVisibleSeries(new Set(project.visibleSeries ?? ALL_SERIES));
+    setRotation(project.rotation ?? 0);
+    setWorldProfile(project.worldProfile ?? DEFAULT_WORLD_PROFILE);
+  };
+
+  const handleRestoreSession = useCallback((saved: SavedSession) => {
+    resetHistory({ data: saved.data, chartConfig: { ...DEFAULT_CHART_CONFIG, ...saved.chartConfig } });
+    applyViewState(saved);
+    setIsDarkMode(saved.isDarkMode ?? true);
+  }, [resetHistory]);
+
+  // Opening a project is undoable, in case it replaced the wrong hunt
+  const handleProjectLoaded = (project: HuntProject) => {
+    replaceDocument(
+      { data: project.data, chartConfig: { ...DEFAULT_CHART_CONFIG, ...project.chartConfig } },
+      'Open project'
+    );
+    applyViewState(project);
+  };
+
+  const { restoredAt, dismissRestored, imageNotSaved, dismissImageNotSaved, startFresh } = useSessionPersistence(session, handleRestoreSession);
+
+  const handleStartFresh = async () => {
+    await startFresh();
+    resetHistory({ data: [], chartConfig: DEFAULT_CHART_CONFIG });
+    setVisibleSeries(new Set(ALL_SERIES));
+    setRotation(0);
+    setWorldProfile(DEFAULT_WORLD_PROFILE);
+  };
+
+  // Validate that point is inside the border and outside every exclusion zone
+  const isRestricted = (point: DataPoint) => validateCoordinates(point.x, point.z, worldProfile) !== null;
 
   const handleAddPoint = (point: DataPoint) => {
-    // Validate that point is not in the restricted area
-    if ((point.x >= -3 && point.x <= 3 && point.z >= -3 && point.z <= 3)) { // Area from (0,0) to (-3,-3) and (3,3)
+    if (isRestricted(point)) {
       return; // Silently reject the point
     }
-    setData(prevData => [...prevData, point]);
+    history.addPoints([point], `Add ${point.label}`);
+  };
+
+  // A bulk paste is a single undo step
+  const handleAddPoints = (points: DataPoint[]) => {
+    const accepted = points.filter(point => !isRestricted(point));
+    history.addPoints(accepted, `Paste ${accepted.length} point${accepted.length !== 1 ? 's' : ''}`);
+  };
+
+  const handleMovePoint = (id: string, x: number, z: number) => {
+    const point = data.find(p => p.id === id);
+    if (!point) return;
+    history.updatePoints([movePoint(point, x, z)], `Move ${point.label}`);
   };
 
   const handleDeletePoint = (index: number) => {
-    setData(prevData => prevData.filter((_, i) => i !== index));
+    history.deletePoints([index], data[index] ? `Delete ${data[index].label}` : undefined);
   };
 
+  const handleDeleteAllPoints = () => {
+    history.deletePoints(data.map((_, i) => i), 'Remove all points');
+  };
+
+  // Imports into a non-empty hunt go through the preview so duplicates can be handled
   const handleDataLoaded = (newData: DataPoint[]) => {
-    setData(prevData => [...prevData, ...newData]);
+    // Into an empty hunt only a batch without repeats of its own skips the preview
+    const clean = data.length === 0 &&
+      classifyIncoming([], newData, DEFAULT_DUPLICATE_TOLERANCE).every(c => c.status === 'new');
+    if (clean) {
+      history.addPoints(newData, `Import ${newData.length} point${newData.length !== 1 ? 's' : ''}`);
+    } else {
+      setPendingImport(newData);
+    }
   };
 
+  const handleApplyImport = (result: DataPoint[], strategy: MergeStrategy) => {
+    setPendingImport(null);
+    const appendsOnly = strategy === 'append' || strategy === 'skipDuplicates';
+    if (appendsOnly) {
+      const added = result.slice(data.length);
+      history.addPoints(added, `Import ${added.length} point${added.length !== 1 ? 's' : ''}`);
+    } else {
+      history.replaceDocument({ data: result, chartConfig }, `Import (${strategy === 'replaceAll' ? 'replace all' : 'replace series'})`);
+    }
+  };
+
+  // Ids of deleted points (or of a replaced hunt) drop out of the selection
+  const selectedPoints = useMemo(() => data.filter(point => selection.has(point.id)), [data, selection]);
+  const selectedIds = useMemo(() => new Set(selectedPoints.map(point => point.id)), [selectedPoints]);
+  const selectionLabel = `${selectedPoints.length} point${selectedPoints.length !== 1 ? 's' : ''}`;
+
+  const clearSelection = useCallback(() => setSelection(new Set()), []);
+
+  const handleDeleteSelected = () => {
+    const indices = data.flatMap((point, index) => (selectedIds.has(point.id) ? [index] : []));
+    history.deletePoints(indices, `Delete ${selectionLabel}`);
+    clearSelection();
+  };
+
+  const handleChangeSelectedSeries = (series: SeriesType) => {
+    history.updatePoints(selectedPoints.map(point => recolorPoint(point, series)), `Move ${selectionLabel} to ${series}`);
+  };
+
+  const handleTagSelected = (tag: string) => {
+    history.updatePoints(selectedPoints.map(point => tagPoint(point, tag)), `Tag ${selectionLabel} "${tag}"`);
+  };
+
+  const handleConfigChange = (config: ChartConfigType) => {
+    history.updateConfig(config);
+  };
+
+  useHistoryShortcuts(history.undo, history.redo);
+
   const handleToggleSeries = (series: SeriesType) => {
     setVisibleSeries(prev => {
       const newVisibleSeries = new Set(prev);
@@ -57,7 +170,7 @@ function App() {
   };
 
   const handleImageUpdate = (imageData: string) => {
-    setChartConfig(prev => ({
+    history.updateConfig(prev => ({
       ...prev,
       backgroundImage: imageData
     }));
@@ -97,7 +210,7 @@ function App() {
               </div>
               <div className="w-64">
                 <SeriesSelector
-                  availableSeries={['Cyan', 'Blue', 'White', 'Red', 'Magenta', 'Green', 'Yellow', 'Black']}
+                  availableSeries={ALL_SERIES}
                   visibleSeries={visibleSeries}
                   onToggleSeries={handleToggleSeries}
                   isDarkMode={isDarkMode}
@@ -105,6 +218,13 @@ function App() {
               </div>
             </div>
             <nav className="flex space-x-4 items-center">
+              <HistoryPanel
+                past={history.past}
+                future={history.future}
+                onUndo={history.undo}
+                onRedo={history.redo}
+                isDarkMode={isDarkMode}
+              />
               <button
                 onClick={handleRotate}
                 className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors ${
@@ -117,6 +237,22 @@ function App() {
                 <RotateCw size={20} className={`transform transition-transform duration-300`} style={{ transform: `rotate(${rotation}deg)` }} />
                 <span className="ml-1 text-xs">{rotation}°</span>
               </button>
+              <input
+                type="number"
+                min={0}
+                max={359}
+                step={1}
+                value={rotation}
+                onChange={(e) => {
+                  const degrees = Number(e.target.value);
+                  if (Number.isFinite(degrees)) setRotation(((Math.round(degrees) % 360) + 360) % 360);
+                }}
+                className={`w-16 px-2 py-1 rounded-md text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+                }`}
+                title="Rotation in degrees, clockwise"
+                aria-label="Rotation in degrees"
+              />
               <button
                 onClick={() => setCurrentPage('graph')}
                 className={`flex items-center px-3 py-2 rounded-md text-sm font-medium ${
@@ -144,6 +280,18 @@ function App() {
         </div>
       </header>
 
+      {restoredAt !== null && (
+        <SessionRestoredBanner
+          restoredAt={restoredAt}
+          onStartFresh={handleStartFresh}
+          onDismiss={dismissRestored}
+          isDarkMode={isDarkMode}
+        />
+      )}
+      {imageNotSaved && (
+        <ImageNotSavedBanner onDismiss={dismissImageNotSaved} isDarkMode={isDarkMode} />
+      )}
+
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {currentPage === 'graph' ? (
           <GraphPage
@@ -154,23 +302,60 @@ function App() {
             isDarkMode={isDarkMode}
             onNavigateToSettings={handleNavigateToSettings}
             onDataLoaded={handleDataLoaded}
+            onAddPoint={handleAddPoint}
+            onMovePoint={handleMovePoint}
+            overlays={overlays}
+            onOverlaysChange={setOverlays}
+            selectedIds={selectedIds}
+            onSelectionChange={setSelection}
             rotation={rotation}
+            worldProfile={worldProfile}
           />
         ) : (
           <SettingsPage
             data={data}
+            visibleSeries={visibleSeries}
+            rotation={rotation}
+            worldProfile={worldProfile}
+            onWorldProfileChange={setWorldProfile}
             chartConfig={chartConfig}
-            onConfigChange={setChartConfig}
+            onConfigChange={handleConfigChange}
             onAddPoint={handleAddPoint}
+            onAddPoints={handleAddPoints}
             onDeletePoint={handleDeletePoint}
+            onDeleteAllPoints={handleDeleteAllPoints}
+            selectedIds={selectedIds}
+            onSelectionChange={setSelection}
             onDataLoaded={handleDataLoaded}
             onImageUpdate={handleImageUpdate}
+            onProjectLoaded={handleProjectLoaded}
             isDarkMode={isDarkMode}
             onDarkModeChange={handleDarkModeChange}
           />
         )}
       </main>
 
+      {selectedPoints.length > 0 && (
+        <SelectionBar
+          selected={selectedPoints}
+          onDelete={handleDeleteSelected}
+          onChangeSeries={handleChangeSelectedSeries}
+          onTag={handleTagSelected}
+          onClear={clearSelection}
+          isDarkMode={isDarkMode}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportPreviewDialog
+          existing={data}
+          incoming={pendingImport}
+          onApply={handleApplyImport}
+          onCancel={() => setPendingImport(null)}
+          isDarkMode={isDarkMode}
+        />
+      )}
+
       <footer className={`${isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} border-t py-4`}>
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <p className={`text-center text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
@@ -0,0 +1,103 @@
+import React, { useEffect } from 'react';
+import { AlertTriangle, Check, X } from 'lucide-react';
+import { SeriesType, SERIES_COLORS, WorldProfile } from '../types';
+import { ALL_SERIES } from '../constants/defaults';
+import { validateCoordinates } from '../utils/worldProfile';
+
+interface AddPointPopoverProps {
+  world: { x: number; z: number };
+  position: { left: number; top: number }; // click position inside the map wrapper
+  series: SeriesType;
+  onSeriesChange: (series: SeriesType) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+  worldProfile: WorldProfile;
+  isDarkMode?: boolean;
+}
+
+const AddPointPopover: React.FC<AddPointPopoverProps> = ({
+  world,
+  position,
+  series,
+  onSeriesChange,
+  onConfirm,
+  onCancel,
+  worldProfile,
+  isDarkMode = false
+}) => {
+  // Same border and exclusion checks as typed and imported points
+  const invalid = validateCoordinates(world.x, world.z, worldProfile);
+
+  // Enter confirms, Escape cancels
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+      if (e.key === 'Enter' && !invalid) onConfirm();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [invalid, onConfirm, onCancel]);
+
+  return (
+    <>
+      {/* Marks the clicked spot until the point is confirmed */}
+      <div
+        className={`absolute z-20 w-3 h-3 -ml-1.5 -mt-1.5 rounded-full border-2 pointer-events-none ${
+          invalid ? 'border-red-500' : 'border-blue-500'
+        }`}
+        style={{ left: position.left, top: position.top, backgroundColor: invalid ? undefined : SERIES_COLORS[series] }}
+      />
+      <div
+        className={`absolute z-30 w-56 mt-3 p-3 space-y-2 rounded-lg shadow-lg border -translate-x-1/2 ${
+          isDarkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-white border-gray-200 text-gray-900'
+        }`}
+        style={{ left: position.left, top: position.top }}
+      >
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium tabular-nums">X {world.x}, Z {world.z}</span>
+          <button
+            onClick={onCancel}
+            className={`p-0.5 rounded ${isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+            title="Cancel"
+          >
+            <X size={14} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-1.5">
+          {ALL_SERIES.map(option => (
+            <button
+              key={option}
+              onClick={() => onSeriesChange(option)}
+              className={`w-6 h-6 rounded-full ${
+                option === series
+                  ? isDarkMode ? 'ring-2 ring-blue-400' : 'ring-2 ring-blue-600'
+                  : isDarkMode ? 'ring-1 ring-gray-600' : 'ring-1 ring-gray-300'
+              }`}
+              style={{ backgroundColor: SERIES_COLORS[option], border: '1px solid #888' }}
+              title={option}
+            />
+          ))}
+        </div>
+
+        {invalid && (
+          <p className={`flex items-start text-xs ${isDarkMode ? 'text-red-300' : 'text-red-600'}`}>
+            <AlertTriangle size={14} className="mr-1 mt-0.5 flex-shrink-0" />
+            {invalid}
+          </p>
+        )}
+
+        <button
+          onClick={onConfirm}
+          disabled={!!invalid}
+          className="w-full inline-flex items-center justify-center px-3 py-1.5 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Check size={14} className="mr-1" />
+          Add {series} point
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default AddPointPopover;
@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { Trash2, X } from 'lucide-react';
+import { CalibrationPoint, MapCalibration } from '../types';
+import { fitCalibration, spareLandmarks } from '../utils/calibration';
+
+interface CalibrationWizardProps {
+  image: string;
+  imageWidth: number;
+  imageHeight: number;
+  calibration?: MapCalibration;
+  onSave: (calibration: MapCalibration) => void;
+  onClear: () => void;
+  onClose: () => void;
+  isDarkMode?: boolean;
+}
+
+// Landmark being entered; world coordinates stay as typed until they parse
+interface DraftLandmark {
+  imageX: number;
+  imageY: number;
+  worldX: string;
+  worldZ: string;
+}
+
+const toDraft = (point: CalibrationPoint): DraftLandmark => ({
+  imageX: point.imageX,
+  imageY: point.imageY,
+  worldX: String(point.worldX),
+  worldZ: String(point.worldZ)
+});
+
+const parseCoordinate = (value: string): number | null =>
+  value.trim() === '' || !Number.isFinite(Number(value)) ? null : Number(value);
+
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({
+  image,
+  imageWidth,
+  imageHeight,
+  calibration,
+  onSave,
+  onClear,
+  onClose,
+  isDarkMode = false
+}) => {
+  const [landmarks, setLandmarks] = useState<DraftLandmark[]>(() => calibration?.points.map(toDraft) ?? []);
+
+  // Clicks are stored in image pixels, the same units the chart uses
+  const handleImageClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const imageX = ((e.clientX - rect.left) / rect.width) * (imageWidth - 1);
+    const imageY = ((e.clientY - rect.top) / rect.height) * (imageHeight - 1);
+    setLandmarks(prev => [
+      ...prev,
+      { imageX: Math.round(imageX * 10) / 10, imageY: Math.round(imageY * 10) / 10, worldX: '', worldZ: '' }
+    ]);
+  };
+
+  const updateLandmark = (index: number, field: 'worldX' | 'worldZ', value: string) => {
+    setLandmarks(prev => prev.map((landmark, i) => (i === index ? { ...landmark, [field]: value } : landmark)));
+  };
+
+  const removeLandmark = (index: number) => {
+    setLandmarks(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const points: CalibrationPoint[] = [];
+  for (const landmark of landmarks) {
+    const worldX = parseCoordinate(landmark.worldX);
+    const worldZ = parseCoordinate(landmark.worldZ);
+    if (worldX !== null && worldZ !== null) {
+      points.push({ imageX: landmark.imageX, imageY: landmark.imageY, worldX, worldZ });
+    }
+  }
+  const incomplete = landmarks.length - points.length;
+  const result = incomplete === 0 ? fitCalibration(points) : null;
+
+  const inputClasses = `w-20 px-2 py-1 rounded-md text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+  }`;
+  const mutedClasses = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className={`w-full max-w-4xl max-h-[90vh] flex flex-col rounded-lg shadow-xl ${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'}`}>
+        <div className={`flex items-center justify-between px-4 py-3 border-b ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+          <h3 className="text-lg font-medium">Calibrate Map</h3>
+          <button onClick={onClose} className={`p-1 rounded-md ${isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`} title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-4 overflow-y-auto">
+          <div>
+            <p className={`text-sm mb-2 ${mutedClasses}`}>
+              Click 2–3 landmarks whose world coordinates you know, such as portals or build corners.
+              Spread them across the map for the best fit.
+            </p>
+            <div className="relative cursor-crosshair select-none" onClick={handleImageClick}>
+              <img src={image} alt="Map to calibrate" className="w-full rounded-md" draggable={false} />
+              {landmarks.map((landmark, index) => (
+                <span
+                  key={index}
+                  className="absolute w-5 h-5 -ml-2.5 -mt-2.5 flex items-center justify-center rounded-full bg-blue-600 text-white text-xs font-medium ring-2 ring-white pointer-events-none"
+                  style={{
+                    left: `${(landmark.imageX / (imageWidth - 1)) * 100}%`,
+                    top: `${(landmark.imageY / (imageHeight - 1)) * 100}%`
+                  }}
+                >
+                  {index + 1}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {landmarks.length === 0 ? (
+              <p className={`text-sm ${mutedClasses}`}>No landmarks yet.</p>
+            ) : (
+              <table className="text-sm">
+                <thead>
+                  <tr className={mutedClasses}>
+                    <th className="pr-2 text-left font-medium">#</th>
+                    <th className="pr-2 text-left font-medium">Pixel</th>
+                    <th className="pr-2 text-left font-medium">World X</th>
+                    <th className="pr-2 text-left font-medium">World Z</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {landmarks.map((landmark, index) => (
+                    <tr key={index}>
+                      <td className="pr-2 py-1">{index + 1}</td>
+                      <td className={`pr-2 py-1 tabular-nums ${mutedClasses}`}>
+                        {Math.round(landmark.imageX)}, {Math.round(landmark.imageY)}
+                      </td>
+                      <td className="pr-2 py-1">
+                        <input
+                          type="number"
+                          value={landmark.worldX}
+                          onChange={(e) => updateLandmark(index, 'worldX', e.target.value)}
+                          className={inputClasses}
+                        />
+                      </td>
+                      <td className="pr-2 py-1">
+                        <input
+                          type="number"
+                          value={landmark.worldZ}
+                          onChange={(e) => updateLandmark(index, 'worldZ', e.target.value)}
+                          className={inputClasses}
+                        />
+                      </td>
+                      <td className="py-1">
+                        <button
+                          onClick={() => removeLandmark(index)}
+                          className={`p-1 rounded ${isDarkMode ? 'text-red-400 hover:bg-gray-700' : 'text-red-600 hover:bg-gray-100'}`}
+                          title="Remove landmark"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <div className={`text-sm ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+              {incomplete > 0 && <p className={mutedClasses}>Enter world coordinates for every landmark.</p>}
+              {result && !result.ok && <p className={isDarkMode ? 'text-red-300' : 'text-red-600'}>{result.error}</p>}
+              {result?.ok && (
+                spareLandmarks(points.length) > 0 ? (
+                  <p>
+                    Fit error: {result.calibration.rmsError.toFixed(1)} blocks RMS,
+                    worst landmark {result.calibration.maxError.toFixed(1)} blocks.
+                  </p>
+                ) : (
+                  <p>Exact fit. Add another landmark to measure how accurate it is.</p>
+                )
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className={`flex items-center justify-between px-4 py-3 border-t ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+          <button
+            onClick={onClear}
+            disabled={!calibration}
+            className={`px-3 py-1.5 rounded-md text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed ${
+              isDarkMode ? 'text-red-400 hover:bg-gray-700' : 'text-red-600 hover:bg-gray-100'
+            }`}
+            title="Stretch the map over the world border again"
+          >
+            Remove Calibration
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium ${
+                isDarkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-white text-gray-700 hover:bg-gray-50 border border-gray-300'
+              }`}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => result?.ok && onSave(result.calibration)}
+              disabled={!result?.ok}
+              className="px-3 py-1.5 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save Calibration
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationWizard;
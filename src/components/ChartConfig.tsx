@@ -1,6 +1,8 @@
 import React, { useRef, useState } from 'react';
-import { ChartConfig as ChartConfigType } from '../types';
-import { Upload, Moon, Sun, RefreshCw } from 'lucide-react';
+import { ChartConfig as ChartConfigType, LabelPlacement, MapOrientation } from '../types';
+import { Upload, Moon, Sun, RefreshCw, Crosshair } from 'lucide-react';
+import CalibrationWizard from './CalibrationWizard';
+import { spareLandmarks } from '../utils/calibration';
 
 interface ChartConfigProps {
   config: ChartConfigType;
@@ -18,11 +20,14 @@ const PRESET_MAPS = [
 const DEFAULT_CONFIG: ChartConfigType = {
   dataLabelFontSize: 10,
   showDataLabels: false,
+  labelTimeBudgetMs: 200,
   pointSize: 6,
   backgroundImageOpacity: 0.1,
   backgroundImageScale: 1,
   imageWidth: 530,
-  imageHeight: 534
+  imageHeight: 534,
+  gridColor: undefined,
+  gridOpacity: 0.5
 };
 
 const ChartConfig: React.FC<ChartConfigProps> = ({ 
@@ -35,6 +40,7 @@ const ChartConfig: React.FC<ChartConfigProps> = ({
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isCalibrating, setIsCalibrating] = useState(false);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value, type } = e.target;
@@ -67,7 +73,8 @@ const ChartConfig: React.FC<ChartConfigProps> = ({
             ...config,
             backgroundImage: imageData,
             imageWidth: img.width,
-            imageHeight: img.height
+            imageHeight: img.height,
+            calibration: undefined // belongs to the previous map
           });
           onImageUpdate?.(imageData);
         };
@@ -97,7 +104,8 @@ const ChartConfig: React.FC<ChartConfigProps> = ({
         ...config,
         backgroundImage: img.src,
         imageWidth: img.width,
-        imageHeight: img.height
+        imageHeight: img.height,
+        calibration: undefined
       });
       onImageUpdate?.(img.src);
     } catch (err) {
@@ -112,7 +120,8 @@ const ChartConfig: React.FC<ChartConfigProps> = ({
     onChange({
       ...config,
       backgroundImage: undefined,
-      backgroundImageOpacity: 0.1
+      backgroundImageOpacity: 0.1,
+      calibration: undefined
     });
     onImageUpdate?.('');
     if (fileInputRef.current) {
@@ -139,6 +148,10 @@ const ChartConfig: React.FC<ChartConfigProps> = ({
 
   const rangeClasses = `w-full ${isDarkMode ? 'accent-blue-500' : ''}`;
 
+  const checkboxClasses = `rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50 ${
+    isDarkMode ? 'bg-gray-700 border-gray-600' : ''
+  }`;
+
   const buttonClasses = (isPrimary = false) => `
     inline-flex items-center px-3 py-2 rounded-md shadow-sm text-sm font-medium 
     focus:outline-none focus:ring-2 focus:ring-offset-2 transition-colors duration-200
@@ -223,6 +236,80 @@ const ChartConfig: React.FC<ChartConfigProps> = ({
                     className={rangeClasses}
                   />
                 </div>
+                <div>
+                  <label htmlFor="labelPlacement" className={labelClasses}>
+                    Label Placement
+                  </label>
+                  <select
+                    id="labelPlacement"
+                    value={config.labelPlacement ?? 'greedy'}
+                    onChange={(e) => onChange({
+                      ...config,
+                      labelPlacement: e.target.value as LabelPlacement
+                    })}
+                    className={inputClasses}
+                  >
+                    <option value="greedy">Fast</option>
+                    <option value="anneal">Optimised (fewer overlaps and dropped labels)</option>
+                  </select>
+                </div>
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={config.labelCallouts ?? true}
+                    onChange={(e) => onChange({
+                      ...config,
+                      labelCallouts: e.target.checked
+                    })}
+                    className={checkboxClasses}
+                  />
+                  <span className="ml-2 text-sm">Callout column for labels that don't fit</span>
+                </label>
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={config.labelRotation || false}
+                    onChange={(e) => onChange({
+                      ...config,
+                      labelRotation: e.target.checked
+                    })}
+                    className={checkboxClasses}
+                  />
+                  <span className="ml-2 text-sm">Allow rotated labels (±45°, 90°) in crowded spots</span>
+                </label>
+                {config.labelPlacement === 'anneal' && (
+                  <div>
+                    <div className="flex justify-between items-center mb-1">
+                      <label htmlFor="labelTimeBudgetMs" className={labelClasses}>
+                        Optimisation Budget: {config.labelTimeBudgetMs ?? 200}ms
+                      </label>
+                      <button
+                        onClick={() => handleReset('labelTimeBudgetMs')}
+                        className={`p-1 rounded-lg transition-colors duration-200 ${
+                          isDarkMode 
+                            ? 'hover:bg-gray-700 text-gray-300' 
+                            : 'hover:bg-gray-100 text-gray-600'
+                        }`}
+                        title="Reset to default"
+                      >
+                        <RefreshCw size={16} />
+                      </button>
+                    </div>
+                    <input
+                      type="range"
+                      id="labelTimeBudgetMs"
+                      min="50"
+                      max="2000"
+                      step="50"
+                      value={config.labelTimeBudgetMs ?? 200}
+                      onChange={(e) => onChange({
+                        ...config,
+                        labelTimeBudgetMs: Number(e.target.value)
+                      })}
+                      className={rangeClasses}
+                    />
+                  </div>
+                )}
               </>
             )}
           </div>
@@ -304,6 +391,133 @@ const ChartConfig: React.FC<ChartConfigProps> = ({
         </div>
       </div>
 
+      <div className="mt-6 space-y-4">
+        <label className={labelClasses}>
+          Map Orientation
+        </label>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="orientation" className={labelClasses}>
+              Top of Map
+            </label>
+            <select
+              id="orientation"
+              value={config.orientation ?? 'north-up'}
+              onChange={(e) => onChange({
+                ...config,
+                orientation: e.target.value as MapOrientation
+              })}
+              className={inputClasses}
+            >
+              <option value="north-up">North (-Z)</option>
+              <option value="south-up">South (+Z)</option>
+            </select>
+          </div>
+          {([
+            ['mirrorX', 'Mirror East/West'],
+            ['mirrorZ', 'Mirror North/South']
+          ] as const).map(([field, label]) => (
+            <label
+              key={field}
+              className={`inline-flex items-center self-end pb-2 ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}
+            >
+              <input
+                type="checkbox"
+                checked={config[field] || false}
+                onChange={(e) => onChange({
+                  ...config,
+                  [field]: e.target.checked
+                })}
+                className={`rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50 ${
+                  isDarkMode ? 'bg-gray-700 border-gray-600' : ''
+                }`}
+              />
+              <span className="ml-2 text-sm">{label}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-6 space-y-4">
+        <div>
+          <span className={labelClasses}>Grid &amp; Rulers</span>
+          <span className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            Switch the grid on from the map toolbar
+          </span>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+          {([
+            ['gridBlocks', 'Blocks', false],
+            ['gridChunks', 'Chunks (16)', true],
+            ['gridRegions', 'Regions (512)', true],
+            ['showRulers', 'Rulers', true],
+            ['showOrigin', 'Origin', true]
+          ] as const).map(([field, label, defaultValue]) => (
+            <label
+              key={field}
+              className={`inline-flex items-center ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}
+            >
+              <input
+                type="checkbox"
+                checked={config[field] ?? defaultValue}
+                onChange={(e) => onChange({
+                  ...config,
+                  [field]: e.target.checked
+                })}
+                className={checkboxClasses}
+              />
+              <span className="ml-2 text-sm">{label}</span>
+            </label>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <label htmlFor="gridColor" className={labelClasses}>
+                Line Color
+              </label>
+              <button
+                onClick={() => handleReset('gridColor')}
+                className={`p-1 rounded-lg transition-colors duration-200 ${
+                  isDarkMode 
+                    ? 'hover:bg-gray-700 text-gray-300' 
+                    : 'hover:bg-gray-100 text-gray-600'
+                }`}
+                title="Follow the theme"
+              >
+                <RefreshCw size={16} />
+              </button>
+            </div>
+            <input
+              type="color"
+              id="gridColor"
+              value={config.gridColor ?? (isDarkMode ? '#ffffff' : '#000000')}
+              onChange={(e) => onChange({
+                ...config,
+                gridColor: e.target.value
+              })}
+              className="h-9 w-full rounded-md cursor-pointer"
+            />
+          </div>
+          <div>
+            <label htmlFor="gridOpacity" className={labelClasses}>
+              Line Opacity: {Math.round((config.gridOpacity ?? 0.5) * 100)}%
+            </label>
+            <input
+              type="range"
+              id="gridOpacity"
+              name="gridOpacity"
+              min="0.1"
+              max="1"
+              step="0.05"
+              value={config.gridOpacity ?? 0.5}
+              onChange={handleChange}
+              className={rangeClasses}
+            />
+          </div>
+        </div>
+      </div>
+
       <div className="mt-6 space-y-4">
         <label className={labelClasses}>
           Background Image
@@ -364,6 +578,40 @@ const ChartConfig: React.FC<ChartConfigProps> = ({
                 className="max-h-32 rounded-md"
               />
             </div>
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={() => setIsCalibrating(true)}
+                className={buttonClasses()}
+              >
+                <Crosshair size={16} className="mr-1" />
+                Calibrate
+              </button>
+              <span className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                {config.calibration
+                  ? `Calibrated from ${config.calibration.points.length} landmarks` +
+                    (spareLandmarks(config.calibration.points.length) > 0 ? `, ${config.calibration.rmsError.toFixed(1)} blocks RMS error` : '')
+                  : 'Assumes the map covers the world border'}
+              </span>
+            </div>
+            {isCalibrating && (
+              <CalibrationWizard
+                image={config.backgroundImage}
+                imageWidth={config.imageWidth ?? 530}
+                imageHeight={config.imageHeight ?? 534}
+                calibration={config.calibration}
+                onSave={(calibration) => {
+                  onChange({ ...config, calibration });
+                  setIsCalibrating(false);
+                }}
+                onClear={() => {
+                  onChange({ ...config, calibration: undefined });
+                  setIsCalibrating(false);
+                }}
+                onClose={() => setIsCalibrating(false)}
+                isDarkMode={isDarkMode}
+              />
+            )}
             <div>
               <div className="flex justify-between items-center mb-1">
                 <label htmlFor="backgroundImageOpacity" className={labelClasses}>
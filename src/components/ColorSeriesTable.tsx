@@ -0,0 +1,72 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { SeriesType, SERIES_COLORS } from '../types';
+import { ColorSeriesEntry, DEFAULT_COLOR_SERIES_TABLE } from '../utils/waypointFormats';
+
+interface ColorSeriesTableProps {
+  table: ColorSeriesEntry[];
+  onChange: (table: ColorSeriesEntry[]) => void;
+  isDarkMode?: boolean;
+}
+
+const ColorSeriesTable: React.FC<ColorSeriesTableProps> = ({ table, onChange, isDarkMode = false }) => {
+  const updateEntry = (index: number, entry: Partial<ColorSeriesEntry>) => {
+    onChange(table.map((current, i) => (i === index ? { ...current, ...entry } : current)));
+  };
+
+  const inputClasses = `px-2 py-1 rounded-md text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+  }`;
+  const linkClasses = `inline-flex items-center text-xs font-medium ${
+    isDarkMode ? 'text-blue-400 hover:text-blue-300' : 'text-blue-600 hover:text-blue-700'
+  }`;
+
+  return (
+    <div className="space-y-2">
+      <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+        Each waypoint gets the series of the closest colour in this table.
+      </p>
+      <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto">
+        {table.map((entry, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="color"
+              value={entry.color}
+              onChange={(e) => updateEntry(index, { color: e.target.value.toUpperCase() })}
+              className="h-7 w-9 rounded cursor-pointer"
+              title={entry.color}
+            />
+            <select
+              value={entry.series}
+              onChange={(e) => updateEntry(index, { series: e.target.value as SeriesType })}
+              className={`${inputClasses} flex-1`}
+            >
+              {(Object.keys(SERIES_COLORS) as SeriesType[]).map(series => (
+                <option key={series} value={series}>{series}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onChange(table.filter((_, i) => i !== index))}
+              disabled={table.length === 1}
+              className={`p-1 rounded-md disabled:opacity-30 ${isDarkMode ? 'text-gray-400 hover:bg-gray-700' : 'text-gray-500 hover:bg-gray-100'}`}
+              title="Remove colour"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-4">
+        <button onClick={() => onChange([...table, { color: '#808080', series: 'White' }])} className={linkClasses}>
+          <Plus size={14} className="mr-1" />
+          Add colour
+        </button>
+        <button onClick={() => onChange(DEFAULT_COLOR_SERIES_TABLE)} className={linkClasses}>
+          Reset to defaults
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ColorSeriesTable;
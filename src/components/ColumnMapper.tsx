@@ -0,0 +1,107 @@
+import React from 'react';
+import { ColumnMapping } from '../utils/importPipeline';
+
+interface ColumnMapperProps {
+  rows: string[][];
+  columnCount: number;
+  mapping: ColumnMapping;
+  hasHeader: boolean;
+  onMappingChange: (mapping: ColumnMapping) => void;
+  onHasHeaderChange: (hasHeader: boolean) => void;
+  isDarkMode?: boolean;
+}
+
+const FIELDS: Array<{ key: keyof ColumnMapping; label: string; optional?: boolean }> = [
+  { key: 'x', label: 'X' },
+  { key: 'z', label: 'Z' },
+  { key: 'series', label: 'Series' },
+  { key: 'label', label: 'Label', optional: true }
+];
+
+const ColumnMapper: React.FC<ColumnMapperProps> = ({
+  rows,
+  columnCount,
+  mapping,
+  hasHeader,
+  onMappingChange,
+  onHasHeaderChange,
+  isDarkMode = false
+}) => {
+  const headers = hasHeader && rows.length > 0 ? rows[0] : [];
+  const columnName = (index: number) => headers[index]?.trim() || `Column ${index + 1}`;
+  const previewRows = hasHeader ? rows.slice(1) : rows;
+
+  const fieldForColumn = (index: number) =>
+    FIELDS.find(field => mapping[field.key] === index)?.label;
+
+  const inputClasses = `w-full px-2 py-1 rounded-md text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+  }`;
+
+  return (
+    <div className="space-y-3">
+      <label className={`inline-flex items-center text-sm ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+        <input
+          type="checkbox"
+          checked={hasHeader}
+          onChange={(e) => onHasHeaderChange(e.target.checked)}
+          className="rounded border-gray-300 text-blue-600"
+        />
+        <span className="ml-2">First row is a header</span>
+      </label>
+
+      <div className="grid grid-cols-4 gap-2">
+        {FIELDS.map(field => (
+          <div key={field.key}>
+            <label className={`block text-xs font-medium mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+              {field.label}
+            </label>
+            <select
+              value={mapping[field.key] ?? ''}
+              onChange={(e) => onMappingChange({
+                ...mapping,
+                [field.key]: e.target.value === '' ? null : Number(e.target.value)
+              })}
+              className={inputClasses}
+            >
+              {field.optional && <option value="">None</option>}
+              {Array.from({ length: columnCount }, (_, i) => (
+                <option key={i} value={i}>{columnName(i)}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto max-h-48">
+        <table className={`min-w-full text-xs divide-y ${isDarkMode ? 'divide-gray-700' : 'divide-gray-200'}`}>
+          <thead className={isDarkMode ? 'bg-gray-700' : 'bg-gray-50'}>
+            <tr>
+              {Array.from({ length: columnCount }, (_, i) => (
+                <th key={i} className={`px-2 py-1 text-left font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-500'}`}>
+                  {columnName(i)}
+                  {fieldForColumn(i) && (
+                    <span className={`ml-1 ${isDarkMode ? 'text-blue-400' : 'text-blue-600'}`}>→ {fieldForColumn(i)}</span>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className={`divide-y ${isDarkMode ? 'divide-gray-700' : 'divide-gray-200'}`}>
+            {previewRows.map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                {Array.from({ length: columnCount }, (_, i) => (
+                  <td key={i} className={`px-2 py-1 whitespace-nowrap ${isDarkMode ? 'text-gray-200' : 'text-gray-900'}`}>
+                    {row[i] ?? ''}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMapper;
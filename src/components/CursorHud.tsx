@@ -0,0 +1,163 @@
+import React, { MutableRefObject, RefObject, useEffect, useRef, useState } from 'react';
+import { Chart as ChartJS } from 'chart.js';
+import { DataPoint, SERIES_COLORS, WorldProfile } from '../types';
+import { CoordinateTransform, worldToClient } from '../utils/coordinateTransform';
+import { CoordinateFormat, formatCoordinate } from '../utils/dataUtils';
+import { chunkOf, distanceFromOrigin } from '../utils/worldProfile';
+import { isTextEntry } from '../hooks/useHistory';
+
+// How close (screen pixels) a pearl must be for the crosshair to jump to it
+const SNAP_RADIUS_PX = 24;
+const COPIED_MESSAGE_MS = 1500;
+
+interface CursorHudProps {
+  containerRef: RefObject<HTMLElement>;
+  chartRef: MutableRefObject<ChartJS<'scatter'> | null>;
+  clientToWorld: (clientX: number, clientY: number) => { x: number; z: number } | null;
+  points: DataPoint[]; // visible pearls the crosshair may snap to
+  transform: CoordinateTransform;
+  worldProfile: WorldProfile;
+  showCrosshair?: boolean;
+  isDarkMode?: boolean;
+}
+
+/**
+ * World coordinate readout for the spot under the cursor, with an optional
+ * crosshair that snaps to the nearest pearl. C copies the coordinate as
+ * `x, z`, Shift+C as a /tp command. Tracks the pointer itself so moving the
+ * mouse re-renders only this overlay, not the chart.
+ */
+const CursorHud: React.FC<CursorHudProps> = ({
+  containerRef,
+  chartRef,
+  clientToWorld,
+  points,
+  transform,
+  worldProfile,
+  showCrosshair = false,
+  isDarkMode = false
+}) => {
+  const [cursor, setCursor] = useState<{ clientX: number; clientY: number } | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handlePointerMove = (e: PointerEvent) => setCursor({ clientX: e.clientX, clientY: e.clientY });
+    const handlePointerLeave = () => setCursor(null);
+    container.addEventListener('pointermove', handlePointerMove);
+    container.addEventListener('pointerleave', handlePointerLeave);
+    return () => {
+      container.removeEventListener('pointermove', handlePointerMove);
+      container.removeEventListener('pointerleave', handlePointerLeave);
+    };
+  }, [containerRef]);
+
+  const world = cursor ? clientToWorld(cursor.clientX, cursor.clientY) : null;
+  const containerRect = cursor ? containerRef.current?.getBoundingClientRect() : undefined;
+
+  // Nearest visible pearl on screen, measured through the chart's own scales
+  let snapped: { point: DataPoint; clientX: number; clientY: number } | null = null;
+  const chart = chartRef.current;
+  if (cursor && showCrosshair && chart) {
+    let best = SNAP_RADIUS_PX;
+    for (const point of points) {
+      const { clientX, clientY } = worldToClient(chart, transform, point.x, point.z);
+      const distance = Math.hypot(clientX - cursor.clientX, clientY - cursor.clientY);
+      if (distance < best) {
+        best = distance;
+        snapped = { point, clientX, clientY };
+      }
+    }
+  }
+
+  const block = world && { x: Math.round(world.x), z: Math.round(world.z) };
+  // What the hotkey copies: the snapped pearl, otherwise the block under the cursor
+  const target = snapped ? { x: snapped.point.x, z: snapped.point.z } : block;
+
+  const latest = useRef(target);
+  latest.current = target;
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const copy = async (format: CoordinateFormat) => {
+      const current = latest.current;
+      if (!current) return;
+      const text = formatCoordinate(current.x, current.z, format);
+      try {
+        await navigator.clipboard.writeText(text);
+        setCopied(`Copied ${text}`);
+      } catch {
+        setCopied('Clipboard unavailable');
+      }
+      clearTimeout(timer);
+      timer = setTimeout(() => setCopied(null), COPIED_MESSAGE_MS);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || e.key.toLowerCase() !== 'c') return;
+      if (isTextEntry(e.target as HTMLElement | null) || !latest.current) return;
+      e.preventDefault();
+      copy(e.shiftKey ? 'teleport' : 'plain');
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      clearTimeout(timer);
+    };
+  }, []);
+
+  if (!block || !containerRect) {
+    return copied ? <HudPanel isDarkMode={isDarkMode}>{copied}</HudPanel> : null;
+  }
+
+  const chunk = chunkOf(block.x, block.z);
+  const crosshair = snapped ?? cursor;
+  const lineClasses = `absolute pointer-events-none ${snapped ? 'bg-amber-400' : isDarkMode ? 'bg-white/60' : 'bg-black/60'}`;
+
+  return (
+    <>
+      {showCrosshair && crosshair && (
+        <>
+          <div className={`${lineClasses} inset-x-0 h-px`} style={{ top: crosshair.clientY - containerRect.top }} />
+          <div className={`${lineClasses} inset-y-0 w-px`} style={{ left: crosshair.clientX - containerRect.left }} />
+        </>
+      )}
+      {snapped && (
+        <div
+          className="absolute z-20 px-2 py-1 rounded-md text-xs font-medium shadow-md pointer-events-none bg-black/80 text-white flex items-center gap-1.5"
+          style={{ left: snapped.clientX - containerRect.left + 10, top: snapped.clientY - containerRect.top - 30 }}
+        >
+          <span
+            className="inline-block w-2.5 h-2.5 rounded-full border border-white/60"
+            style={{ backgroundColor: SERIES_COLORS[snapped.point.series] }}
+          />
+          {snapped.point.label}
+          <span className="text-gray-300">{snapped.point.series}</span>
+        </div>
+      )}
+      <HudPanel isDarkMode={isDarkMode}>
+        <div className="font-medium">
+          X {block.x}, Z {block.z}
+        </div>
+        <div>
+          Chunk {chunk.x}, {chunk.z} · {Math.round(distanceFromOrigin(block.x, block.z, worldProfile))} blocks from spawn
+        </div>
+        <div className={isDarkMode ? 'text-gray-400' : 'text-gray-500'}>
+          {copied ?? `C copy${snapped ? ' pearl' : ''} · Shift+C /tp`}
+        </div>
+      </HudPanel>
+    </>
+  );
+};
+
+const HudPanel: React.FC<{ isDarkMode: boolean; children: React.ReactNode }> = ({ isDarkMode, children }) => (
+  <div
+    className={`absolute bottom-2 right-2 z-10 px-2 py-1 rounded-md shadow-md text-xs tabular-nums pointer-events-none ${
+      isDarkMode ? 'bg-gray-800/90 text-gray-100' : 'bg-white/90 text-gray-800'
+    }`}
+  >
+    {children}
+  </div>
+);
+
+export default CursorHud;
@@ -1,6 +1,9 @@
 import React, { useState } from 'react';
-import { DataPoint, SeriesType } from '../types';
+import { DataPoint, SeriesType, WorldProfile } from '../types';
 import { Plus } from 'lucide-react';
+import { validateCoordinates } from '../utils/worldProfile';
+import { ImportReport, importPastedText } from '../utils/importPipeline';
+import ImportReportView from './ImportReportView';
 
 // Helper function to create a DataPoint with required properties
 const createDataPoint = (x: number, z: number, series: SeriesType): DataPoint => ({
@@ -13,13 +16,17 @@ const createDataPoint = (x: number, z: number, series: SeriesType): DataPoint =>
 
 interface DataInputFormProps {
   onAddPoint: (point: DataPoint) => void;
+  onAddPoints: (points: DataPoint[]) => void; // bulk paste, added as one undo step
   series: SeriesType[];
+  worldProfile: WorldProfile;
   isDarkMode?: boolean;
 }
 
 const DataInputForm: React.FC<DataInputFormProps> = ({ 
   onAddPoint, 
+  onAddPoints,
   series,
+  worldProfile,
   isDarkMode = false 
 }) => {
   const [formData, setFormData] = useState<{
@@ -33,6 +40,7 @@ const DataInputForm: React.FC<DataInputFormProps> = ({
   });
 
   const [pastedText, setPastedText] = useState('');
+  const [pasteReport, setPasteReport] = useState<ImportReport | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
@@ -52,8 +60,9 @@ const DataInputForm: React.FC<DataInputFormProps> = ({
       return;
     }
 
-    if (x >= -3 && x <= 3 && z >= -3 && z <= 3) { // Area from (0,0) to (-3,-3) and (3,3)
-      setError('Cannot add point in the restricted area (from -3,-3 to 3,3)');
+    const invalid = validateCoordinates(x, z, worldProfile);
+    if (invalid) {
+      setError(`Cannot add point: ${invalid}`);
       return;
     }
     
@@ -69,134 +78,17 @@ const DataInputForm: React.FC<DataInputFormProps> = ({
 
   const handlePasteSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    try {
-      if (!pastedText.trim()) return;
-
-      const lines = pastedText.split('\n');
-      let currentSeries: SeriesType | null = null;
-      let errorCount = 0;
-      let successCount = 0;
-      const failedLines: string[] = [];
-
-      // Map of color indicators to series
-      const colorMap: { [key: string]: SeriesType } = {
-        '🔴': 'Red',
-        '🟢': 'Green',
-        '🔵': 'Cyan',
-        '⚪': 'White',
-        '🟣': 'Magenta',
-        '🟡': 'Yellow',
-        '⚫': 'Black',
-        ':blue:': 'Blue',
-        'red': 'Red',
-        'green': 'Green',
-        'blue': 'Blue',
-        'white': 'White',
-        'magenta': 'Magenta',
-        'yellow': 'Yellow',
-        'black': 'Black',
-        'cyan': 'Cyan'
-      };
-
-      for (const line of lines) {
-        try {
-          const trimmedLine = line.trim();
-          if (!trimmedLine) continue;
-          
-          // Check if line is a color header, emoji, or :color: format
-          const colorKeyword = Object.keys(colorMap).find(key => 
-            trimmedLine.toLowerCase().startsWith(key.toLowerCase()) || 
-            trimmedLine.toLowerCase().startsWith(`:${key.toLowerCase()}:`)
-          );
-          
-          if (colorKeyword) {
-            currentSeries = colorMap[colorKeyword];
-            continue;
-          }
-
-          // Try to extract coordinates and color from the line
-          // Match patterns like:
-          // (100, 42) cyan
-          // 100, 42 cyan
-          // 100 42 cyan
-          // (100, 42)
-          const coordColorMatch = trimmedLine.match(/^\(?\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*\)?\s*(?:([a-zA-Z]+))?$/);
-          
-          if (coordColorMatch) {
-            const [, xStr, zStr, colorStr] = coordColorMatch;
-            const x = parseFloat(xStr);
-            const z = parseFloat(zStr);
-            
-            // If color is specified in the line, use it
-            if (colorStr) {
-              const matchedColor = Object.keys(colorMap).find(key => 
-                key.toLowerCase() === colorStr.toLowerCase()
-              );
-              if (matchedColor) {
-                currentSeries = colorMap[matchedColor];
-              }
-            }
-
-            if (!isNaN(x) && !isNaN(z) && currentSeries) {
-              onAddPoint(createDataPoint(x, z, currentSeries));
-              successCount++;
-              continue;
-            } else {
-              failedLines.push(trimmedLine);
-              errorCount++;
-              continue;
-            }
-          }
-
-          // If the above pattern didn't match, try the old parsing method
-          const lineWithoutComments = trimmedLine
-            .replace(/\s*\([^)]*\)/, '')  // Remove comments in parentheses
-            .replace(/,\s*$/, '')         // Remove trailing comma
-            .trim();
-
-          // Skip lines that are just text (like "None yet,")
-          if (!lineWithoutComments.match(/-?\d+/)) {
-            continue;
-          }
-
-          // Try to parse coordinates
-          const parts = lineWithoutComments.split(/[\s,./]+/).filter(part => part.trim());
-          if (parts.length >= 2) {
-            const x = parseFloat(parts[0]);
-            const z = parseFloat(parts[1]);
-            
-            if (!isNaN(x) && !isNaN(z) && currentSeries) {
-              onAddPoint(createDataPoint(x, z, currentSeries));
-              successCount++;
-            } else {
-              failedLines.push(trimmedLine);
-              errorCount++;
-            }
-          } else {
-            failedLines.push(trimmedLine);
-            errorCount++;
-          }
-        } catch (lineError) {
-          console.error('Error processing line:', line, lineError);
-          failedLines.push(line);
-          errorCount++;
-        }
-      }
-
-      if (errorCount > 0) {
-        const errorMessage = `${errorCount} line(s) could not be parsed:\n${failedLines.map(line => `- "${line}"`).join('\n')}`;
-        setError(errorMessage);
-      } else {
-        setError(null);
-      }
+    if (!pastedText.trim()) return;
+    setError(null);
+    setPasteReport(importPastedText(pastedText, worldProfile));
+  };
 
-      if (successCount > 0) {
-        setPastedText('');
-      }
-    } catch (error) {
-      console.error('Error in handlePasteSubmit:', error);
-      setError('An error occurred while processing the input. Please try again.');
+  const handlePasteCommit = () => {
+    if (pasteReport && pasteReport.accepted.length > 0) {
+      onAddPoints(pasteReport.accepted);
+      setPastedText('');
     }
+    setPasteReport(null);
   };
 
   const inputClasses = `w-full px-3 py-2 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
@@ -277,23 +169,48 @@ const DataInputForm: React.FC<DataInputFormProps> = ({
         <h4 className={`text-md font-medium mb-2 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>Bulk Add Points</h4>
         <p className={`text-sm mb-4 ${isDarkMode ? 'text-gray-300' : 'text-gray-500'}`}>
           Paste coordinates with color indicators (one per line).<br />
-          Supports color headers, emoji indicators, and direct coordinates.
+          Supports color headers, emoji indicators, direct coordinates and rows copied from a spreadsheet.
         </p>
-        <form onSubmit={handlePasteSubmit} className="space-y-4">
-          <textarea
-            value={pastedText}
-            onChange={(e) => setPastedText(e.target.value)}
-            className={`${inputClasses} h-32`}
-            placeholder="Red&#10;123.-114&#10;131.19&#10;&#10;🔴&#10;19, -92&#10;-44, 74&#10;&#10;100 50 cyan&#10;(120, 60) blue"
-          />
-          <button
-            type="submit"
-            className="w-full inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
-          >
-            <Plus size={16} className="mr-2" />
-            Add Points
-          </button>
-        </form>
+        {pasteReport ? (
+          <div className="space-y-4">
+            <ImportReportView report={pasteReport} isDarkMode={isDarkMode} />
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setPasteReport(null)}
+                className={`px-3 py-1.5 rounded-md text-sm font-medium ${
+                  isDarkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-white text-gray-700 hover:bg-gray-50 border border-gray-300'
+                }`}
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                onClick={handlePasteCommit}
+                disabled={pasteReport.accepted.length === 0}
+                className="px-3 py-1.5 rounded-md text-sm font-medium text-white bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Add {pasteReport.accepted.length} point{pasteReport.accepted.length !== 1 ? 's' : ''}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handlePasteSubmit} className="space-y-4">
+            <textarea
+              value={pastedText}
+              onChange={(e) => setPastedText(e.target.value)}
+              className={`${inputClasses} h-32`}
+              placeholder="Red&#10;123.-114&#10;131.19&#10;&#10;🔴&#10;19, -92&#10;-44, 74&#10;&#10;100 50 cyan&#10;(120, 60) blue"
+            />
+            <button
+              type="submit"
+              className="w-full inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+            >
+              <Plus size={16} className="mr-2" />
+              Review Points
+            </button>
+          </form>
+        )}
       </div>
 
       {error && (
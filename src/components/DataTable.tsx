@@ -1,16 +1,29 @@
-import React from 'react';
+import React, { useRef } from 'react';
 import { DataPoint, SeriesType, SERIES_COLORS } from '../types';
 import { Trash2, Download } from 'lucide-react';
 import { saveDataToCSV } from '../utils/dataUtils';
+import { applySelection, rangeBetween } from '../utils/selection';
 
 interface DataTableProps {
   data: DataPoint[];
   onDeletePoint: (index: number) => void;
   onDeleteAllPoints?: () => void;
+  selectedIds?: Set<string>;
+  onSelectionChange?: (ids: Set<string>) => void; // enables row selection
   isDarkMode?: boolean;
 }
 
-const DataTable: React.FC<DataTableProps> = ({ data, onDeletePoint, onDeleteAllPoints, isDarkMode = false }) => {
+const DataTable: React.FC<DataTableProps> = ({
+  data,
+  onDeletePoint,
+  onDeleteAllPoints,
+  selectedIds = new Set<string>(),
+  onSelectionChange,
+  isDarkMode = false
+}) => {
+  // Row that shift-click ranges start from
+  const anchorRef = useRef<string | null>(null);
+
   if (data.length === 0) {
     return (
       <div className={`${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white'} p-4 rounded-lg shadow-sm text-center text-gray-500`}>
@@ -30,6 +43,22 @@ const DataTable: React.FC<DataTableProps> = ({ data, onDeletePoint, onDeleteAllP
     saveDataToCSV(data);
   };
 
+  // Click selects one row, Shift+click a range from the last clicked row, Ctrl/Cmd+click toggles
+  const handleRowClick = (e: React.MouseEvent, point: DataPoint) => {
+    if (!onSelectionChange) return;
+    if (e.shiftKey && anchorRef.current) {
+      const range = rangeBetween(data.map(p => p.id), anchorRef.current, point.id);
+      onSelectionChange(applySelection(selectedIds, range, e.ctrlKey || e.metaKey ? 'add' : 'replace'));
+      return;
+    }
+    anchorRef.current = point.id;
+    if (e.ctrlKey || e.metaKey) {
+      onSelectionChange(applySelection(selectedIds, [point.id], 'toggle'));
+    } else {
+      onSelectionChange(selectedIds.size === 1 && selectedIds.has(point.id) ? new Set() : new Set([point.id]));
+    }
+  };
+
   return (
     <div className={`${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'} p-4 rounded-lg shadow-sm`}>
       <div className="p-4 border-b border-gray-200 flex justify-between items-center">
@@ -37,6 +66,7 @@ const DataTable: React.FC<DataTableProps> = ({ data, onDeletePoint, onDeleteAllP
           <h3 className="text-lg font-medium">Data Points</h3>
           <p className="text-sm text-gray-500">
             {data.length} data point{data.length !== 1 ? 's' : ''}
+            {onSelectionChange && ' · Shift+click to select a range'}
           </p>
         </div>
         <div className="flex gap-2">
@@ -71,6 +101,9 @@ const DataTable: React.FC<DataTableProps> = ({ data, onDeletePoint, onDeleteAllP
               <th scope="col" className={`px-6 py-3 text-left text-xs font-medium uppercase tracking-wider ${isDarkMode ? 'text-gray-300' : 'text-gray-500'}`}>
                 Z
               </th>
+              <th scope="col" className={`px-6 py-3 text-left text-xs font-medium uppercase tracking-wider ${isDarkMode ? 'text-gray-300' : 'text-gray-500'}`}>
+                Tags
+              </th>
               <th scope="col" className={`px-6 py-3 text-right text-xs font-medium uppercase tracking-wider ${isDarkMode ? 'text-gray-300' : 'text-gray-500'}`}>
                 Actions
               </th>
@@ -78,7 +111,15 @@ const DataTable: React.FC<DataTableProps> = ({ data, onDeletePoint, onDeleteAllP
           </thead>
           <tbody className={`divide-y ${isDarkMode ? 'divide-gray-700' : 'divide-gray-200'}`}>
             {data.map((point, index) => (
-              <tr key={index} className={isDarkMode ? 'bg-gray-800 hover:bg-gray-700' : 'bg-white hover:bg-gray-50'}>
+              <tr
+                key={point.id}
+                onClick={(e) => handleRowClick(e, point)}
+                className={`${onSelectionChange ? 'cursor-pointer select-none' : ''} ${
+                  selectedIds.has(point.id)
+                    ? isDarkMode ? 'bg-blue-900/60 hover:bg-blue-900' : 'bg-blue-50 hover:bg-blue-100'
+                    : isDarkMode ? 'bg-gray-800 hover:bg-gray-700' : 'bg-white hover:bg-gray-50'
+                }`}
+              >
                 <td className={`px-6 py-4 whitespace-nowrap text-sm ${isDarkMode ? 'text-gray-200' : 'text-gray-900'}`}>
                   <div className="flex items-center">
                     <div 
@@ -97,9 +138,24 @@ const DataTable: React.FC<DataTableProps> = ({ data, onDeletePoint, onDeleteAllP
                 <td className={`px-6 py-4 whitespace-nowrap text-sm ${isDarkMode ? 'text-gray-200' : 'text-gray-900'}`}>
                   {point.z.toFixed(2)}
                 </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                  <div className="flex flex-wrap gap-1">
+                    {point.tags?.map(tag => (
+                      <span
+                        key={tag}
+                        className={`px-1.5 py-0.5 rounded text-xs ${isDarkMode ? 'bg-gray-700 text-gray-200' : 'bg-gray-100 text-gray-700'}`}
+                      >
+                        {tag}
+                      </span>
+                    ))}
+                  </div>
+                </td>
                 <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
                   <button
-                    onClick={() => onDeletePoint(index)}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onDeletePoint(index);
+                    }}
                     className={`inline-flex items-center px-2 py-1 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 ${
                       isDarkMode 
                         ? 'text-red-400 hover:text-red-300 hover:bg-red-900/50' 
@@ -0,0 +1,320 @@
+import React, { MutableRefObject, useState } from 'react';
+import { Chart as ChartJS } from 'chart.js';
+import { Box, Download, Image as ImageIcon, MapPin } from 'lucide-react';
+import { ChartConfig as ChartConfigType, DataPoint } from '../types';
+import { ChartExportOptions, ExportBackground, downloadChartPNG } from '../utils/exportImage';
+import { ViewWindow } from '../utils/mapView';
+import { Matrix2D } from '../utils/coordinateTransform';
+import { downloadChartSVG } from '../utils/exportSvg';
+import { createZip, downloadBlob } from '../utils/dataUtils';
+import {
+  Dimension,
+  DIMENSION_LABELS,
+  WaypointFormat,
+  WAYPOINT_FORMAT_LABELS,
+  exportWaypoints
+} from '../utils/waypointFormats';
+import {
+  DatapackMarker,
+  DATAPACK_MARKER_LABELS,
+  DATAPACK_VERSIONS,
+  generateDatapack
+} from '../utils/datapack';
+
+interface ExportMenuProps {
+  chartRef: MutableRefObject<ChartJS<'scatter'> | null>;
+  chartConfig: ChartConfigType;
+  data: DataPoint[];
+  viewWindow?: ViewWindow;
+  imageMatrix?: Matrix2D;
+  isDarkMode?: boolean;
+}
+
+const RESOLUTION_OPTIONS = [1, 2, 3, 4];
+const DEFAULT_MARKER_Y = 64;
+
+const ExportMenu: React.FC<ExportMenuProps> = ({
+  chartRef,
+  chartConfig,
+  data,
+  viewWindow,
+  imageMatrix,
+  isDarkMode = false
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [scale, setScale] = useState(2);
+  const [background, setBackground] = useState<ExportBackground>('themed');
+  const [includeTitle, setIncludeTitle] = useState(true);
+  const [includeLegend, setIncludeLegend] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [waypointFormat, setWaypointFormat] = useState<WaypointFormat | 'all'>('xaero');
+  const [dimension, setDimension] = useState<Dimension>('overworld');
+  const [waypointY, setWaypointY] = useState(DEFAULT_MARKER_Y);
+  const [zipWaypoints, setZipWaypoints] = useState(false);
+  const [datapackVersionId, setDatapackVersionId] = useState(DATAPACK_VERSIONS[0].id);
+  const [datapackMarker, setDatapackMarker] = useState<DatapackMarker>('armor_stand');
+  const [datapackY, setDatapackY] = useState(DEFAULT_MARKER_Y);
+
+  const datapackVersion = DATAPACK_VERSIONS.find(v => v.id === datapackVersionId) ?? DATAPACK_VERSIONS[0];
+  // Text displays need 1.19.4+; older targets fall back to armor stands
+  const marker = datapackVersion.supportsTextDisplay ? datapackMarker : 'armor_stand';
+
+  const handleExportDatapack = () => {
+    const files = generateDatapack(data, { version: datapackVersion, marker, y: datapackY });
+    downloadBlob(createZip(files), `pearl-hunt-datapack-${datapackVersion.id}.zip`);
+  };
+
+  // JourneyMap writes one file per waypoint, so several points (or "all formats") must be zipped
+  const waypointFormats = waypointFormat === 'all'
+    ? (Object.keys(WAYPOINT_FORMAT_LABELS) as WaypointFormat[])
+    : [waypointFormat];
+  const mustZip = waypointFormat === 'all' || (waypointFormat === 'journeymap' && data.length !== 1);
+
+  const handleExportWaypoints = () => {
+    const files = waypointFormats.flatMap(format =>
+      exportWaypoints(format, data, { dimension, y: waypointY })
+    );
+    if (files.length === 1 && !zipWaypoints) {
+      const [file] = files;
+      downloadBlob(new Blob([file.content], { type: 'text/plain;charset=utf-8;' }), file.path.split('/').pop()!);
+    } else {
+      const suffix = waypointFormat === 'all' ? '' : `-${waypointFormat}`;
+      downloadBlob(createZip(files), `pearl-hunt-waypoints${suffix}.zip`);
+    }
+  };
+
+  const runExport = async (format: 'png' | 'svg') => {
+    const chart = chartRef.current;
+    if (!chart) return;
+    setIsExporting(true);
+    setError(null);
+    const options: ChartExportOptions = {
+      background,
+      includeTitle,
+      includeLegend,
+      isDarkMode,
+      title: chartConfig.title,
+      backgroundImage: chartConfig.backgroundImage,
+      backgroundImageOpacity: chartConfig.backgroundImageOpacity,
+      backgroundImageScale: chartConfig.backgroundImageScale,
+      viewWindow,
+      imageMatrix
+    };
+    try {
+      if (format === 'png') {
+        await downloadChartPNG(chart, { ...options, scale });
+      } else {
+        await downloadChartSVG(chart, options);
+      }
+    } catch (err) {
+      console.error(`${format.toUpperCase()} export failed:`, err);
+      setError('Export failed. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const labelClasses = `block text-xs font-medium mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`;
+  const checkboxLabelClasses = `flex items-center text-sm ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`;
+  const inputClasses = `w-full px-2 py-1 rounded-md text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+  }`;
+  const segmentClasses = (active: boolean) => `px-2 py-1 text-xs font-medium rounded-md ${
+    active
+      ? isDarkMode ? 'bg-blue-900 text-blue-200' : 'bg-blue-100 text-blue-700'
+      : isDarkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+  }`;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`inline-flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+          isDarkMode ? 'bg-gray-800 text-gray-200 hover:bg-gray-700' : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-300'
+        }`}
+      >
+        <Download size={16} className="mr-1" />
+        Export
+      </button>
+
+      {isOpen && (
+        <div
+          className={`absolute right-0 top-full mt-2 w-72 max-h-[80vh] overflow-y-auto z-20 p-3 space-y-3 rounded-lg shadow-lg border ${
+            isDarkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-white border-gray-200 text-gray-900'
+          }`}
+        >
+          <h4 className="text-sm font-medium flex items-center">
+            <ImageIcon size={16} className="mr-1" />
+            Image
+          </h4>
+          <div>
+            <span className={labelClasses}>PNG resolution</span>
+            <div className="flex gap-1">
+              {RESOLUTION_OPTIONS.map(option => (
+                <button key={option} onClick={() => setScale(option)} className={segmentClasses(scale === option)}>
+                  {option}×
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <span className={labelClasses}>Background</span>
+            <div className="flex gap-1">
+              <button onClick={() => setBackground('themed')} className={segmentClasses(background === 'themed')}>
+                {isDarkMode ? 'Dark' : 'Light'}
+              </button>
+              <button onClick={() => setBackground('transparent')} className={segmentClasses(background === 'transparent')}>
+                Transparent
+              </button>
+            </div>
+          </div>
+          <label className={checkboxLabelClasses}>
+            <input type="checkbox" checked={includeTitle} onChange={(e) => setIncludeTitle(e.target.checked)} className="rounded" />
+            <span className="ml-2">Include title</span>
+          </label>
+          <label className={checkboxLabelClasses}>
+            <input type="checkbox" checked={includeLegend} onChange={(e) => setIncludeLegend(e.target.checked)} className="rounded" />
+            <span className="ml-2">Include legend</span>
+          </label>
+          <div className="flex gap-2">
+            <button
+              onClick={() => runExport('png')}
+              disabled={isExporting}
+              className="flex-1 px-3 py-1.5 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isExporting ? 'Exporting…' : 'Download PNG'}
+            </button>
+            <button
+              onClick={() => runExport('svg')}
+              disabled={isExporting}
+              className="flex-1 px-3 py-1.5 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              title="Vector image with labels as editable text"
+            >
+              Download SVG
+            </button>
+          </div>
+          {error && <p className="text-xs text-red-500">{error}</p>}
+
+          <div className={`pt-3 border-t space-y-3 ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+            <h4 className="text-sm font-medium flex items-center">
+              <MapPin size={16} className="mr-1" />
+              Minimap Waypoints
+            </h4>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <span className={labelClasses}>Format</span>
+                <select
+                  value={waypointFormat}
+                  onChange={(e) => setWaypointFormat(e.target.value as WaypointFormat | 'all')}
+                  className={inputClasses}
+                >
+                  {(Object.keys(WAYPOINT_FORMAT_LABELS) as WaypointFormat[]).map(format => (
+                    <option key={format} value={format}>{WAYPOINT_FORMAT_LABELS[format]}</option>
+                  ))}
+                  <option value="all">All formats</option>
+                </select>
+              </div>
+              <div>
+                <span className={labelClasses}>Dimension</span>
+                <select
+                  value={dimension}
+                  onChange={(e) => setDimension(e.target.value as Dimension)}
+                  className={inputClasses}
+                >
+                  {(Object.keys(DIMENSION_LABELS) as Dimension[]).map(option => (
+                    <option key={option} value={option}>{DIMENSION_LABELS[option]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <span className={labelClasses}>Y level</span>
+                <input
+                  type="number"
+                  value={waypointY}
+                  onChange={(e) => setWaypointY(Math.round(Number(e.target.value) || 0))}
+                  className={inputClasses}
+                />
+              </div>
+              <label className={`${checkboxLabelClasses} self-end pb-1`}>
+                <input
+                  type="checkbox"
+                  checked={mustZip || zipWaypoints}
+                  disabled={mustZip}
+                  onChange={(e) => setZipWaypoints(e.target.checked)}
+                  className="rounded"
+                />
+                <span className="ml-2">Zip</span>
+              </label>
+            </div>
+            <button
+              onClick={handleExportWaypoints}
+              disabled={data.length === 0}
+              className="w-full px-3 py-1.5 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              Download Waypoints ({data.length})
+            </button>
+          </div>
+
+          <div className={`pt-3 border-t space-y-3 ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+            <h4 className="text-sm font-medium flex items-center">
+              <Box size={16} className="mr-1" />
+              Datapack
+            </h4>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <span className={labelClasses}>Minecraft version</span>
+                <select
+                  value={datapackVersion.id}
+                  onChange={(e) => setDatapackVersionId(e.target.value)}
+                  className={inputClasses}
+                >
+                  {DATAPACK_VERSIONS.map(version => (
+                    <option key={version.id} value={version.id}>{version.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <span className={labelClasses}>Y level</span>
+                <input
+                  type="number"
+                  value={datapackY}
+                  onChange={(e) => setDatapackY(Math.round(Number(e.target.value) || 0))}
+                  className={inputClasses}
+                />
+              </div>
+              <div className="col-span-2">
+                <span className={labelClasses}>Markers</span>
+                <select
+                  value={marker}
+                  onChange={(e) => setDatapackMarker(e.target.value as DatapackMarker)}
+                  className={inputClasses}
+                >
+                  {(Object.keys(DATAPACK_MARKER_LABELS) as DatapackMarker[]).map(option => (
+                    <option
+                      key={option}
+                      value={option}
+                      disabled={option === 'text_display' && !datapackVersion.supportsTextDisplay}
+                    >
+                      {DATAPACK_MARKER_LABELS[option]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <button
+              onClick={handleExportDatapack}
+              disabled={data.length === 0}
+              className="w-full px-3 py-1.5 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              title="Run /function pearlhunt:place in-world, and /function pearlhunt:cleanup to remove the markers"
+            >
+              Download Datapack
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
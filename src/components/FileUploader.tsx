@@ -1,87 +1,283 @@
-import React, { useRef } from 'react';
-import { DataPoint } from '../types';
+import React, { useRef, useState } from 'react';
+import { DataPoint, WorldProfile } from '../types';
 import { Upload } from 'lucide-react';
+import ColumnMapper from './ColumnMapper';
+import ColorSeriesTable from './ColorSeriesTable';
+import ImportReportView from './ImportReportView';
+import {
+  ColumnMapping,
+  ImportPreview,
+  ImportReport,
+  guessMapping,
+  importCSVFile,
+  previewCSV
+} from '../utils/importPipeline';
+import { ExportFile, readZip } from '../utils/dataUtils';
+import {
+  ColorSeriesEntry,
+  WaypointFormat,
+  WAYPOINT_FORMAT_LABELS,
+  detectWaypointFormat,
+  importWaypointFiles,
+  loadColorSeriesTable,
+  looksLikeJson,
+  saveColorSeriesTable
+} from '../utils/waypointFormats';
 
 interface FileUploaderProps {
   onDataLoaded: (data: DataPoint[]) => void;
+  worldProfile: WorldProfile;
   isDarkMode?: boolean;
 }
 
-const FileUploader: React.FC<FileUploaderProps> = ({ 
+// Only the head of the file is read for header detection and the mapping preview
+const PREVIEW_BYTES = 64 * 1024;
+
+type ImportStage = 'idle' | 'mapping' | 'waypoints' | 'parsing' | 'review';
+
+const FileUploader: React.FC<FileUploaderProps> = ({
   onDataLoaded,
-  isDarkMode = false 
+  worldProfile,
+  isDarkMode = false
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [stage, setStage] = useState<ImportStage>('idle');
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [hasHeader, setHasHeader] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [waypointFiles, setWaypointFiles] = useState<ExportFile[]>([]);
+  const [colorTable, setColorTable] = useState<ColorSeriesEntry[]>(loadColorSeriesTable);
+
+  const reset = () => {
+    setStage('idle');
+    setFile(null);
+    setPreview(null);
+    setMapping(null);
+    setReport(null);
+    setWaypointFiles([]);
+    setProgress(0);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        try {
-          const content = event.target?.result as string;
-          const lines = content.split('\n');
-          const data: DataPoint[] = [];
-
-          for (const line of lines) {
-            if (line.trim()) {
-              const [x, z, series] = line.split(',').map(s => s.trim());
-              if (x && z && series) {
-                data.push({
-                  id: `upload-${Date.now()}-${data.length}`,
-                  label: `${series} (${x}, ${z})`,
-                  x: parseFloat(x),
-                  z: parseFloat(z),
-                  series: series as import('../types').SeriesType
-                });
-              }
-            }
-          }
-
-          onDataLoaded(data);
-        } catch (error) {
-          console.error('Error parsing file:', error);
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+
+    setError(null);
+    try {
+      // Minimap waypoint files (or a zip of them) skip column mapping
+      const isZip = selected.name.toLowerCase().endsWith('.zip');
+      const head = isZip ? '' : await selected.slice(0, PREVIEW_BYTES).text();
+      // JSON is never CSV: it is either a JourneyMap waypoint or unsupported
+      const isJson = looksLikeJson(head);
+      if (isJson && !detectWaypointFormat(await selected.text())) {
+        setError(`"${selected.name}" is not a JourneyMap waypoint file. Project files are opened with Open Project.`);
+        reset();
+        return;
+      }
+      if (isZip || isJson || detectWaypointFormat(head)) {
+        const waypoints = (isZip
+          ? readZip(new Uint8Array(await selected.arrayBuffer()))
+          : [{ path: selected.name, content: await selected.text() }]
+        ).filter(f => detectWaypointFormat(f.content) !== null);
+        if (waypoints.length === 0) {
+          setError(`"${selected.name}" contains no waypoint files.`);
+          reset();
+          return;
         }
-      };
-      reader.readAsText(file);
+        setFile(selected);
+        setWaypointFiles(waypoints);
+        setStage('waypoints');
+        return;
+      }
+
+      const filePreview = previewCSV(head);
+      if (filePreview.rows.length === 0) {
+        setError(`"${selected.name}" is empty.`);
+        reset();
+        return;
+      }
+      setFile(selected);
+      setPreview(filePreview);
+      setMapping(filePreview.mapping);
+      setHasHeader(filePreview.hasHeader);
+      setStage('mapping');
+    } catch (err) {
+      console.error('Error reading file:', err);
+      setError(`Could not read "${selected.name}".`);
+      reset();
     }
   };
 
+  const handleHasHeaderChange = (value: boolean) => {
+    setHasHeader(value);
+    if (preview) {
+      setMapping(guessMapping(preview.rows, value));
+    }
+  };
+
+  const handleParse = async () => {
+    if (!file || !mapping) return;
+    setStage('parsing');
+    setProgress(0);
+    try {
+      const result = await importCSVFile(file, mapping, hasHeader, worldProfile, setProgress);
+      setReport(result);
+      setStage('review');
+    } catch (err) {
+      console.error('Error parsing file:', err);
+      setError(`Could not parse "${file.name}": ${(err as Error).message}`);
+      reset();
+    }
+  };
+
+  const handleColorTableChange = (table: ColorSeriesEntry[]) => {
+    setColorTable(table);
+    saveColorSeriesTable(table);
+  };
+
+  const handleParseWaypoints = () => {
+    try {
+      setReport(importWaypointFiles(waypointFiles, colorTable, worldProfile));
+      setStage('review');
+    } catch (err) {
+      console.error('Error parsing waypoints:', err);
+      setError((err as Error).message);
+      reset();
+    }
+  };
+
+  const waypointFormats = Array.from(new Set(
+    waypointFiles.map(f => detectWaypointFormat(f.content)).filter((f): f is WaypointFormat => f !== null)
+  ));
+
+  const handleCommit = () => {
+    if (report && report.accepted.length > 0) {
+      onDataLoaded(report.accepted);
+    }
+    reset();
+  };
+
+  const secondaryButtonClasses = `px-3 py-1.5 rounded-md text-sm font-medium transition-colors duration-200 ${
+    isDarkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-white text-gray-700 hover:bg-gray-50 border border-gray-300'
+  }`;
+  const primaryButtonClasses = 'px-3 py-1.5 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed';
+
   return (
     <div className={`${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'} p-4 rounded-lg shadow-sm`}>
       <h3 className="text-lg font-medium mb-3">Import Data</h3>
       <div className="space-y-4">
-        <div className="flex items-center justify-center w-full">
-          <label
-            htmlFor="file-upload"
-            className={`flex flex-col items-center justify-center w-full h-32 border-2 border-dashed rounded-lg cursor-pointer ${
-              isDarkMode 
-                ? 'border-gray-600 hover:border-gray-500 bg-gray-700/50 hover:bg-gray-700' 
-                : 'border-gray-300 hover:border-gray-400 bg-gray-50 hover:bg-gray-100'
-            }`}
-          >
-            <div className="flex flex-col items-center justify-center pt-5 pb-6">
-              <Upload className={`w-8 h-8 mb-3 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`} />
-              <p className={`mb-2 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                <span className="font-semibold">Click to upload</span> or drag and drop
-              </p>
-              <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                CSV file with X,Z,Series columns
-              </p>
-            </div>
-            <input
-              id="file-upload"
-              type="file"
-              className="hidden"
-              accept=".csv"
-              onChange={handleFileUpload}
-              ref={fileInputRef}
+        {stage === 'idle' && (
+          <div className="flex items-center justify-center w-full">
+            <label
+              htmlFor="file-upload"
+              className={`flex flex-col items-center justify-center w-full h-32 border-2 border-dashed rounded-lg cursor-pointer ${
+                isDarkMode
+                  ? 'border-gray-600 hover:border-gray-500 bg-gray-700/50 hover:bg-gray-700'
+                  : 'border-gray-300 hover:border-gray-400 bg-gray-50 hover:bg-gray-100'
+              }`}
+            >
+              <div className="flex flex-col items-center justify-center pt-5 pb-6">
+                <Upload className={`w-8 h-8 mb-3 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`} />
+                <p className={`mb-2 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  <span className="font-semibold">Click to upload</span> or drag and drop
+                </p>
+                <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  CSV file with X, Z and Series columns (any order, header optional)
+                </p>
+                <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  or Xaero, JourneyMap or VoxelMap waypoints (a zip works too)
+                </p>
+              </div>
+              <input
+                id="file-upload"
+                type="file"
+                className="hidden"
+                accept=".csv,.txt,.json,.points,.zip"
+                onChange={handleFileUpload}
+                ref={fileInputRef}
+              />
+            </label>
+          </div>
+        )}
+
+        {stage === 'mapping' && preview && mapping && (
+          <>
+            <p className={`text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+              Check which column holds each field in <span className="font-medium">{file?.name}</span>.
+            </p>
+            <ColumnMapper
+              rows={preview.rows}
+              columnCount={preview.columnCount}
+              mapping={mapping}
+              hasHeader={hasHeader}
+              onMappingChange={setMapping}
+              onHasHeaderChange={handleHasHeaderChange}
+              isDarkMode={isDarkMode}
             />
-          </label>
-        </div>
+            <div className="flex justify-end gap-2">
+              <button onClick={reset} className={secondaryButtonClasses}>Cancel</button>
+              <button onClick={handleParse} className={primaryButtonClasses}>Parse File</button>
+            </div>
+          </>
+        )}
+
+        {stage === 'waypoints' && (
+          <>
+            <p className={`text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+              {waypointFormats.map(f => WAYPOINT_FORMAT_LABELS[f]).join(', ')} waypoints in{' '}
+              <span className="font-medium">{file?.name}</span>
+              {waypointFiles.length > 1 && ` (${waypointFiles.length} files)`}.
+            </p>
+            <ColorSeriesTable table={colorTable} onChange={handleColorTableChange} isDarkMode={isDarkMode} />
+            <div className="flex justify-end gap-2">
+              <button onClick={reset} className={secondaryButtonClasses}>Cancel</button>
+              <button onClick={handleParseWaypoints} className={primaryButtonClasses}>Parse Waypoints</button>
+            </div>
+          </>
+        )}
+
+        {stage === 'parsing' && (
+          <div>
+            <p className={`text-sm mb-2 ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+              Parsing {file?.name}… {Math.round(progress * 100)}%
+            </p>
+            <div className={`w-full h-2 rounded-full ${isDarkMode ? 'bg-gray-700' : 'bg-gray-200'}`}>
+              <div className="h-2 rounded-full bg-blue-600 transition-all" style={{ width: `${progress * 100}%` }} />
+            </div>
+          </div>
+        )}
+
+        {stage === 'review' && report && (
+          <>
+            <ImportReportView report={report} isDarkMode={isDarkMode} />
+            <div className="flex justify-end gap-2">
+              <button onClick={reset} className={secondaryButtonClasses}>Cancel</button>
+              <button
+                onClick={handleCommit}
+                disabled={report.accepted.length === 0}
+                className={primaryButtonClasses}
+              >
+                Import {report.accepted.length} point{report.accepted.length !== 1 ? 's' : ''}
+              </button>
+            </div>
+          </>
+        )}
+
+        {error && (
+          <div className={`p-2 rounded-md text-sm ${isDarkMode ? 'bg-red-900/50 text-red-200' : 'bg-red-50 text-red-700'}`}>
+            {error}
+          </div>
+        )}
       </div>
     </div>
   );
 };
 
-export default FileUploader;
\ No newline at end of file
+export default FileUploader;
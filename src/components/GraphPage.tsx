@@ -1,7 +1,17 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Bug, Crosshair, Grid3x3, LucideIcon } from 'lucide-react';
+import { Chart as ChartJS } from 'chart.js';
 import ScatterPlotChart from './ScatterPlotChart';
-import { DataPoint, SeriesType, ChartConfig as ChartConfigType } from '../types';
-import { generateSampleData } from '../utils/dataUtils';
+import ExportMenu from './ExportMenu';
+import MapToolbar, { MapTool } from './MapToolbar';
+import AddPointPopover from './AddPointPopover';
+import { DataPoint, SeriesType, ChartConfig as ChartConfigType, MapOverlays, WorldProfile } from '../types';
+import { autoLabel, generateSampleData } from '../utils/dataUtils';
+import { MapView, fullView, toViewWindow } from '../utils/mapView';
+import { createCoordinateTransform } from '../utils/coordinateTransform';
+import { DEFAULT_WORLD_PROFILE, borderOutline, profileMapBounds } from '../utils/worldProfile';
+import { RestrictedArea } from '../plugins/RestrictedAreaPlugin';
+import { ALL_SERIES } from '../constants/defaults';
 // import { Settings } from 'lucide-react'; // Unused, removed for lint
 
 interface GraphPageProps {
@@ -13,7 +23,27 @@ interface GraphPageProps {
   isDarkMode?: boolean;
   onNavigateToSettings?: () => void;
   onDataLoaded?: (points: DataPoint[]) => void;
+  onAddPoint?: (point: DataPoint) => void;
+  onMovePoint?: (id: string, x: number, z: number) => void;
+  overlays?: MapOverlays;
+  onOverlaysChange?: (overlays: MapOverlays) => void;
+  selectedIds?: Set<string>;
+  onSelectionChange?: (ids: Set<string>) => void;
   rotation?: number;
+  worldProfile?: WorldProfile;
+}
+
+// Map overlays that can be switched on and off from the toolbar
+const OVERLAY_TOGGLES: Array<{ field: keyof MapOverlays; label: string; title: string; icon: LucideIcon }> = [
+  { field: 'showGrid', label: 'Grid', title: 'Show block, chunk and region gridlines with coordinate rulers', icon: Grid3x3 },
+  { field: 'showCrosshair', label: 'Crosshair', title: 'Crosshair that snaps to the nearest pearl', icon: Crosshair },
+  { field: 'labelDebug', label: 'Label debug', title: 'Show scored label positions, placed boxes and dropped labels; hover a dot for its score', icon: Bug }
+];
+
+// A map click waiting for the user to pick a series and confirm
+interface PendingPoint {
+  world: { x: number; z: number };
+  position: { left: number; top: number };
 }
 
 const GraphPage: React.FC<GraphPageProps> = ({
@@ -25,54 +55,109 @@ const GraphPage: React.FC<GraphPageProps> = ({
   isDarkMode = false,
   onNavigateToSettings,
   onDataLoaded,
-  rotation = 0
+  onAddPoint,
+  onMovePoint,
+  overlays = { showGrid: false, showCrosshair: false, labelDebug: false },
+  onOverlaysChange,
+  selectedIds,
+  onSelectionChange,
+  rotation = 0,
+  worldProfile = DEFAULT_WORLD_PROFILE
 }) => {
-  if (data.length === 0) {
-    return (
-      <div className={`relative min-h-[calc(100vh-4rem)] ${isDarkMode ? 'bg-gray-900' : 'bg-white'} flex items-center justify-center`}>
-        <div className={`text-center p-8 rounded-lg ${isDarkMode ? 'bg-gray-800' : 'bg-gray-50'} shadow-lg max-w-md`}>
-          <h2 className={`text-2xl font-bold mb-4 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-            No Data Points
-          </h2>
-          <p className={`mb-6 ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
-            The example map is ready. Add specific pearl locations, or generate the random points!
-          </p>
-          <div className="flex flex-col space-y-3">
-            <button
-              onClick={() => {
-                if (onDataLoaded) {
-                  const randomPoints = generateSampleData(10);
-                  onDataLoaded(randomPoints);
-                }
-              }}
-              className={`inline-flex items-center justify-center px-4 py-2 rounded-md shadow-sm text-sm font-medium focus:outline-none focus:ring-2 focus:ring-offset-2 transition-colors duration-200 ${
-                isDarkMode 
-                  ? 'bg-purple-600 text-white hover:bg-purple-700 focus:ring-purple-500' 
-                  : 'bg-purple-600 text-white hover:bg-purple-700 focus:ring-purple-500'
-              }`}
-            >
-              Generate Random Points
-            </button>
-            <button
-              onClick={onNavigateToSettings}
-              className={`inline-flex items-center justify-center px-4 py-2 rounded-md shadow-sm text-sm font-medium focus:outline-none focus:ring-2 focus:ring-offset-2 transition-colors duration-200 ${
-                isDarkMode 
-                  ? 'bg-blue-600 text-white hover:bg-blue-700 focus:ring-blue-500' 
-                  : 'bg-blue-600 text-white hover:bg-blue-700 focus:ring-blue-500'
-              }`}
-            >
-              Add Pearl Hunt Locations
-            </button>
-          </div>
-        </div>
-      </div>
-    );
-  }
+  const chartRef = useRef<ChartJS<'scatter'> | null>(null);
+  // Zoomed window of the map; null shows the whole map
+  const [view, setView] = useState<MapView | null>(null);
+
+  // A different map size invalidates the window
+  useEffect(() => {
+    setView(null);
+  }, [chartConfig.imageWidth, chartConfig.imageHeight]);
+
+  // One transform for markers, map image, tooltips, labels and exports
+  const transform = createCoordinateTransform({
+    imageWidth: chartConfig.imageWidth,
+    imageHeight: chartConfig.imageHeight,
+    rotation,
+    mirrorX: chartConfig.mirrorX,
+    mirrorZ: chartConfig.mirrorZ,
+    orientation: chartConfig.orientation,
+    bounds: profileMapBounds(worldProfile),
+    calibration: chartConfig.calibration?.matrix
+  });
+  const full = fullView(transform.width, transform.height);
+
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const [tool, setTool] = useState<MapTool>('pan');
+  const [pendingPoint, setPendingPoint] = useState<PendingPoint | null>(null);
+  const [lastSeries, setLastSeries] = useState<SeriesType>(() => data[data.length - 1]?.series ?? ALL_SERIES[0]);
+
+  const handleToolChange = (next: MapTool) => {
+    setTool(next);
+    setPendingPoint(null);
+  };
+
+  // The popover is anchored to the map, so it cannot follow a zoom or pan
+  const handleViewChange = (next: MapView) => {
+    setView(next);
+    setPendingPoint(null);
+  };
+
+  const handleMapClick = (world: { x: number; z: number }, clientX: number, clientY: number) => {
+    const rect = wrapperRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setPendingPoint({ world, position: { left: clientX - rect.left, top: clientY - rect.top } });
+  };
+
+  const handleConfirmPoint = () => {
+    if (!pendingPoint || !onAddPoint) return;
+    const { x, z } = pendingPoint.world;
+    onAddPoint({
+      id: Math.random().toString(36).slice(2, 11),
+      label: autoLabel(lastSeries, x, z),
+      x,
+      z,
+      series: lastSeries
+    });
+    setPendingPoint(null);
+  };
+
+  // The world profile in chart units: hatched exclusion zones and the border
+  const exclusionAreas: RestrictedArea[] = worldProfile.exclusions.map(zone => ({
+    points: transform.worldRectToChart(zone)
+  }));
+  const worldBorder = transform.worldPathToChart(borderOutline(worldProfile));
 
   return (
     <div className={`relative min-h-[calc(100vh-4rem)] ${isDarkMode ? 'bg-gray-900' : 'bg-white'}`}>
+      <div className="flex justify-end gap-2 mb-2">
+        {onAddPoint && <MapToolbar tool={tool} onToolChange={handleToolChange} isDarkMode={isDarkMode} />}
+        {onOverlaysChange && OVERLAY_TOGGLES.map(({ field, label, title, icon: Icon }) => (
+          <button
+            key={field}
+            onClick={() => onOverlaysChange({ ...overlays, [field]: !overlays[field] })}
+            className={`inline-flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+              overlays[field]
+                ? isDarkMode ? 'bg-blue-900 text-blue-200' : 'bg-blue-100 text-blue-700'
+                : isDarkMode ? 'bg-gray-800 text-gray-200 hover:bg-gray-700' : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-300'
+            }`}
+            title={title}
+          >
+            <Icon size={16} className="mr-1" />
+            {label}
+          </button>
+        ))}
+        <ExportMenu
+          chartRef={chartRef}
+          chartConfig={chartConfig}
+          data={data}
+          viewWindow={toViewWindow(view ?? full, full)}
+          imageMatrix={transform.imageMatrix}
+          isDarkMode={isDarkMode}
+        />
+      </div>
       <div className="w-full h-full flex items-center justify-center p-0">
         <div 
+          ref={wrapperRef}
           className={`relative ${isDarkMode ? 'bg-gray-900' : 'bg-white'} rounded-lg shadow-sm w-full max-w-[95vw] sm:max-w-[90vw] md:max-w-[85vw] lg:max-w-[80vw] p-0`}
           style={{
             aspectRatio: chartConfig.imageWidth && chartConfig.imageHeight 
@@ -97,13 +182,96 @@ const GraphPage: React.FC<GraphPageProps> = ({
             axisTickFontSize={chartConfig.axisTickFontSize ?? 12}
             showDataLabels={chartConfig.showDataLabels}
             dataLabelFontSize={chartConfig.dataLabelFontSize || 12}
+            labelPlacement={chartConfig.labelPlacement}
+            labelTimeBudgetMs={chartConfig.labelTimeBudgetMs}
+            labelCallouts={chartConfig.labelCallouts ?? true}
+            labelRotation={chartConfig.labelRotation}
+            labelDebug={overlays.labelDebug}
             onImageUpdate={onImageUpdate}
             isDarkMode={isDarkMode}
             imageWidth={chartConfig.imageWidth}
             imageHeight={chartConfig.imageHeight}
             pointSize={chartConfig.pointSize}
-            rotation={rotation}
+            transform={transform}
+            chartRef={chartRef}
+            view={view ?? full}
+            onViewChange={handleViewChange}
+            onMapClick={tool === 'add' ? handleMapClick : undefined}
+            onPointMove={tool === 'edit' && onMovePoint ? (id, world) => onMovePoint(id, world.x, world.z) : undefined}
+            restrictedAreas={exclusionAreas}
+            worldBorder={worldBorder}
+            worldProfile={worldProfile}
+            worldGrid={{
+              enabled: overlays.showGrid,
+              showBlocks: chartConfig.gridBlocks ?? false,
+              showChunks: chartConfig.gridChunks ?? true,
+              showRegions: chartConfig.gridRegions ?? true,
+              showRulers: chartConfig.showRulers ?? true,
+              showOrigin: chartConfig.showOrigin ?? true,
+              color: chartConfig.gridColor,
+              opacity: chartConfig.gridOpacity,
+              xAxisLabel: chartConfig.xAxisLabel,
+              zAxisLabel: chartConfig.zAxisLabel
+            }}
+            showCrosshair={overlays.showCrosshair}
+            selectedIds={selectedIds}
+            selectionShape={tool === 'select' ? 'box' : tool === 'lasso' ? 'lasso' : undefined}
+            onSelectionChange={onSelectionChange}
+            measuring={tool === 'measure'}
           />
+          {/* Empty hunt: the map stays usable, so the hint floats over it and
+              steps aside while the Add tool is picking a spot */}
+          {data.length === 0 && tool !== 'add' && (
+            <div className="absolute inset-0 z-10 flex items-center justify-center pointer-events-none">
+              <div className={`text-center p-8 rounded-lg ${isDarkMode ? 'bg-gray-800' : 'bg-gray-50'} shadow-lg max-w-md pointer-events-auto`}>
+                <h2 className={`text-2xl font-bold mb-4 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                  No Data Points
+                </h2>
+                <p className={`mb-6 ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                  The example map is ready. Add specific pearl locations, click the map with the Add tool, or generate the random points!
+                </p>
+                <div className="flex flex-col space-y-3">
+                  <button
+                    onClick={() => {
+                      if (onDataLoaded) {
+                        const randomPoints = generateSampleData(10);
+                        onDataLoaded(randomPoints);
+                      }
+                    }}
+                    className={`inline-flex items-center justify-center px-4 py-2 rounded-md shadow-sm text-sm font-medium focus:outline-none focus:ring-2 focus:ring-offset-2 transition-colors duration-200 ${
+                      isDarkMode 
+                        ? 'bg-purple-600 text-white hover:bg-purple-700 focus:ring-purple-500' 
+                        : 'bg-purple-600 text-white hover:bg-purple-700 focus:ring-purple-500'
+                    }`}
+                  >
+                    Generate Random Points
+                  </button>
+                  <button
+                    onClick={onNavigateToSettings}
+                    className={`inline-flex items-center justify-center px-4 py-2 rounded-md shadow-sm text-sm font-medium focus:outline-none focus:ring-2 focus:ring-offset-2 transition-colors duration-200 ${
+                      isDarkMode 
+                        ? 'bg-blue-600 text-white hover:bg-blue-700 focus:ring-blue-500' 
+                        : 'bg-blue-600 text-white hover:bg-blue-700 focus:ring-blue-500'
+                    }`}
+                  >
+                    Add Pearl Hunt Locations
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+          {pendingPoint && (
+            <AddPointPopover
+              world={pendingPoint.world}
+              position={pendingPoint.position}
+              series={lastSeries}
+              onSeriesChange={setLastSeries}
+              onConfirm={handleConfirmPoint}
+              onCancel={() => setPendingPoint(null)}
+              worldProfile={worldProfile}
+              isDarkMode={isDarkMode}
+            />
+          )}
         </div>
       </div>
     </div>
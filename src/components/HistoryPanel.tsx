@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { History, Redo2, Undo2 } from 'lucide-react';
+import { HistoryCommand, MAX_HISTORY_ENTRIES } from '../utils/history';
+
+interface HistoryPanelProps {
+  past: HistoryCommand[];
+  future: HistoryCommand[];
+  onUndo: (steps?: number) => void;
+  onRedo: (steps?: number) => void;
+  isDarkMode?: boolean;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  past,
+  future,
+  onUndo,
+  onRedo,
+  isDarkMode = false
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const iconButtonClasses = (enabled: boolean) => `flex items-center px-2 py-2 rounded-md text-sm font-medium transition-colors ${
+    enabled
+      ? isDarkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-700 hover:bg-gray-100'
+      : isDarkMode ? 'text-gray-600 cursor-not-allowed' : 'text-gray-300 cursor-not-allowed'
+  }`;
+
+  const entryClasses = (state: 'applied' | 'current' | 'undone') => `w-full text-left px-3 py-1.5 text-sm truncate ${
+    state === 'current'
+      ? isDarkMode ? 'bg-blue-900 text-blue-200' : 'bg-blue-100 text-blue-700'
+      : state === 'undone'
+        ? isDarkMode ? 'text-gray-500 hover:bg-gray-700' : 'text-gray-400 hover:bg-gray-100'
+        : isDarkMode ? 'text-gray-200 hover:bg-gray-700' : 'text-gray-700 hover:bg-gray-100'
+  }`;
+
+  return (
+    <div className="relative flex items-center">
+      <button
+        onClick={() => onUndo()}
+        disabled={past.length === 0}
+        className={iconButtonClasses(past.length > 0)}
+        title={past.length > 0 ? `Undo ${past[past.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
+      >
+        <Undo2 size={18} />
+      </button>
+      <button
+        onClick={() => onRedo()}
+        disabled={future.length === 0}
+        className={iconButtonClasses(future.length > 0)}
+        title={future.length > 0 ? `Redo ${future[0].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+      >
+        <Redo2 size={18} />
+      </button>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={iconButtonClasses(true)}
+        title="History"
+      >
+        <History size={18} />
+      </button>
+
+      {isOpen && (
+        <div
+          className={`absolute right-0 top-full mt-2 w-72 z-20 rounded-lg shadow-lg border ${
+            isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+          }`}
+        >
+          <div className={`px-3 py-2 border-b text-xs ${isDarkMode ? 'border-gray-700 text-gray-400' : 'border-gray-200 text-gray-500'}`}>
+            Click an entry to jump to it. Keeps the last {MAX_HISTORY_ENTRIES} steps.
+          </div>
+          <div className="max-h-80 overflow-y-auto py-1">
+            <button
+              onClick={() => onUndo(past.length)}
+              className={entryClasses(past.length === 0 ? 'current' : 'applied')}
+            >
+              Start
+            </button>
+            {past.map((command, index) => (
+              <button
+                key={`past-${index}`}
+                onClick={() => onUndo(past.length - 1 - index)}
+                className={entryClasses(index === past.length - 1 ? 'current' : 'applied')}
+                title={command.label}
+              >
+                {command.label}
+              </button>
+            ))}
+            {future.map((command, index) => (
+              <button
+                key={`future-${index}`}
+                onClick={() => onRedo(index + 1)}
+                className={entryClasses('undone')}
+                title={command.label}
+              >
+                {command.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,28 @@
+import React from 'react';
+import { ImageOff, X } from 'lucide-react';
+
+interface ImageNotSavedBannerProps {
+  onDismiss: () => void;
+  isDarkMode?: boolean;
+}
+
+// Shown when autosave kept the points and settings but the map image was too large to store
+const ImageNotSavedBanner: React.FC<ImageNotSavedBannerProps> = ({ onDismiss, isDarkMode = false }) => (
+  <div className={`${isDarkMode ? 'bg-amber-900/50 text-amber-100' : 'bg-amber-50 text-amber-800'} border-b ${isDarkMode ? 'border-amber-800' : 'border-amber-200'}`}>
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center justify-between text-sm">
+      <div className="flex items-center">
+        <ImageOff size={16} className="mr-2" />
+        The background image is too large for browser storage and will not be restored next time. Points and settings are still saved; save a project file to keep the image.
+      </div>
+      <button
+        onClick={onDismiss}
+        className={`p-1 rounded-md transition-colors duration-200 ${isDarkMode ? 'hover:bg-amber-800' : 'hover:bg-amber-100'}`}
+        title="Dismiss"
+      >
+        <X size={16} />
+      </button>
+    </div>
+  </div>
+);
+
+export default ImageNotSavedBanner;
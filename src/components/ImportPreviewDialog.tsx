@@ -0,0 +1,194 @@
+import React, { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { DataPoint, SERIES_COLORS } from '../types';
+import {
+  DEFAULT_DUPLICATE_TOLERANCE,
+  IncomingStatus,
+  MergeStrategy,
+  MERGE_STRATEGY_LABELS,
+  classifyIncoming,
+  countByStatus,
+  mergeImport
+} from '../utils/importMerge';
+
+interface ImportPreviewDialogProps {
+  existing: DataPoint[];
+  incoming: DataPoint[];
+  onApply: (result: DataPoint[], strategy: MergeStrategy) => void;
+  onCancel: () => void;
+  isDarkMode?: boolean;
+}
+
+const MAX_VISIBLE_ROWS = 200;
+
+const STATUS_LABELS: Record<IncomingStatus, string> = {
+  'new': 'New',
+  'duplicate': 'Duplicate',
+  'near-duplicate': 'Near-duplicate',
+  'conflict': 'Conflicting series'
+};
+
+const STATUS_CLASSES: Record<IncomingStatus, string> = {
+  'new': 'bg-green-100 text-green-800',
+  'duplicate': 'bg-gray-200 text-gray-700',
+  'near-duplicate': 'bg-yellow-100 text-yellow-800',
+  'conflict': 'bg-red-100 text-red-800'
+};
+
+const ImportPreviewDialog: React.FC<ImportPreviewDialogProps> = ({
+  existing,
+  incoming,
+  onApply,
+  onCancel,
+  isDarkMode = false
+}) => {
+  const [tolerance, setTolerance] = useState(DEFAULT_DUPLICATE_TOLERANCE);
+  const [strategy, setStrategy] = useState<MergeStrategy>('skipDuplicates');
+  const [statusFilter, setStatusFilter] = useState<IncomingStatus | 'all'>('all');
+
+  const classified = useMemo(
+    () => classifyIncoming(existing, incoming, tolerance),
+    [existing, incoming, tolerance]
+  );
+  const counts = useMemo(() => countByStatus(classified), [classified]);
+  // Matches can also be earlier points of the same import
+  const incomingPoints = useMemo(() => new Set(incoming), [incoming]);
+  const result = useMemo(() => mergeImport(existing, classified, strategy), [existing, classified, strategy]);
+
+  // Net effect of the chosen strategy, for the summary line
+  const resultIds = new Set(result.map(p => p.id));
+  const removed = existing.filter(p => !resultIds.has(p.id)).length;
+  const added = result.length - (existing.length - removed);
+
+  const rows = statusFilter === 'all' ? classified : classified.filter(c => c.status === statusFilter);
+
+  const inputClasses = `px-2 py-1 rounded-md text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+  }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className={`w-full max-w-2xl max-h-[90vh] flex flex-col rounded-lg shadow-xl ${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'}`}>
+        <div className={`flex items-center justify-between px-4 py-3 border-b ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+          <h3 className="text-lg font-medium">Import Preview</h3>
+          <button onClick={onCancel} className={`p-1 rounded-md ${isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`} title="Cancel">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div className="flex flex-wrap gap-2">
+            {(['all', 'new', 'duplicate', 'near-duplicate', 'conflict'] as const).map(status => (
+              <button
+                key={status}
+                onClick={() => setStatusFilter(status)}
+                className={`px-2 py-1 rounded-full text-xs font-medium ${
+                  status === 'all'
+                    ? isDarkMode ? 'bg-gray-700 text-gray-200' : 'bg-gray-100 text-gray-700'
+                    : STATUS_CLASSES[status]
+                } ${statusFilter === status ? 'ring-2 ring-blue-500' : ''}`}
+              >
+                {status === 'all' ? `All ${incoming.length}` : `${STATUS_LABELS[status]}: ${counts[status]}`}
+              </button>
+            ))}
+          </div>
+
+          <label className={`flex items-center text-sm ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+            Near-duplicate distance
+            <input
+              type="number"
+              min="0"
+              max="50"
+              step="1"
+              value={tolerance}
+              onChange={(e) => setTolerance(Math.max(0, Number(e.target.value) || 0))}
+              className={`${inputClasses} w-20 mx-2`}
+            />
+            blocks
+          </label>
+
+          <div className="overflow-y-auto max-h-56">
+            <table className={`min-w-full text-xs divide-y ${isDarkMode ? 'divide-gray-700' : 'divide-gray-200'}`}>
+              <thead className={isDarkMode ? 'bg-gray-700' : 'bg-gray-50'}>
+                <tr>
+                  {['Incoming', 'Status', 'Match'].map(heading => (
+                    <th key={heading} className={`px-2 py-1 text-left font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-500'}`}>
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className={`divide-y ${isDarkMode ? 'divide-gray-700' : 'divide-gray-200'}`}>
+                {rows.slice(0, MAX_VISIBLE_ROWS).map((c, index) => (
+                  <tr key={`${c.point.id}-${index}`}>
+                    <td className="px-2 py-1 whitespace-nowrap">
+                      <span
+                        className="inline-block h-2 w-2 rounded-full mr-2"
+                        style={{ backgroundColor: SERIES_COLORS[c.point.series], border: '1px solid #888' }}
+                      />
+                      {c.point.label}
+                    </td>
+                    <td className="px-2 py-1">
+                      <span className={`px-1.5 py-0.5 rounded ${STATUS_CLASSES[c.status]}`}>{STATUS_LABELS[c.status]}</span>
+                    </td>
+                    <td className={`px-2 py-1 whitespace-nowrap ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                      {c.match
+                        ? `${c.match.label}${incomingPoints.has(c.match) ? ' (this import)' : ''}${c.distance ? ` — ${c.distance.toFixed(1)} blocks` : ''}`
+                        : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {rows.length > MAX_VISIBLE_ROWS && (
+              <p className={`mt-2 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Showing the first {MAX_VISIBLE_ROWS} of {rows.length} points.
+              </p>
+            )}
+          </div>
+
+          <fieldset className="space-y-1">
+            <legend className={`text-sm font-medium mb-1 ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>When importing</legend>
+            {(Object.keys(MERGE_STRATEGY_LABELS) as MergeStrategy[]).map(option => (
+              <label key={option} className={`flex items-center text-sm ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+                <input
+                  type="radio"
+                  name="mergeStrategy"
+                  value={option}
+                  checked={strategy === option}
+                  onChange={() => setStrategy(option)}
+                  className="text-blue-600"
+                />
+                <span className="ml-2">{MERGE_STRATEGY_LABELS[option]}</span>
+              </label>
+            ))}
+          </fieldset>
+        </div>
+
+        <div className={`flex items-center justify-between px-4 py-3 border-t ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+          <p className={`text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+            Result: {result.length} points (+{added}, −{removed})
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={onCancel}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium ${
+                isDarkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-white text-gray-700 hover:bg-gray-50 border border-gray-300'
+              }`}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onApply(result, strategy)}
+              className="px-3 py-1.5 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPreviewDialog;
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { ImportReport } from '../utils/importPipeline';
+
+interface ImportReportViewProps {
+  report: ImportReport;
+  isDarkMode?: boolean;
+}
+
+// Rendering tens of thousands of rows would freeze the page; show a window
+const MAX_VISIBLE_ROWS = 200;
+
+const ImportReportView: React.FC<ImportReportViewProps> = ({ report, isDarkMode = false }) => {
+  const [showRejectedOnly, setShowRejectedOnly] = useState(report.rejectedCount > 0);
+
+  const rows = showRejectedOnly ? report.rows.filter(r => r.status === 'rejected') : report.rows;
+  const visibleRows = rows.slice(0, MAX_VISIBLE_ROWS);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <div className="flex items-center space-x-4">
+          <span className={`inline-flex items-center ${isDarkMode ? 'text-green-400' : 'text-green-700'}`}>
+            <CheckCircle size={16} className="mr-1" />
+            {report.accepted.length} accepted
+          </span>
+          <span className={`inline-flex items-center ${isDarkMode ? 'text-red-400' : 'text-red-700'}`}>
+            <XCircle size={16} className="mr-1" />
+            {report.rejectedCount} rejected
+          </span>
+        </div>
+        <label className={`inline-flex items-center ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+          <input
+            type="checkbox"
+            checked={showRejectedOnly}
+            onChange={(e) => setShowRejectedOnly(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600"
+          />
+          <span className="ml-2">Rejected only</span>
+        </label>
+      </div>
+
+      <div className="overflow-x-auto max-h-60">
+        <table className={`min-w-full text-xs divide-y ${isDarkMode ? 'divide-gray-700' : 'divide-gray-200'}`}>
+          <thead className={isDarkMode ? 'bg-gray-700' : 'bg-gray-50'}>
+            <tr>
+              {['Line', 'Row', 'Result'].map(heading => (
+                <th key={heading} className={`px-2 py-1 text-left font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-500'}`}>
+                  {heading}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className={`divide-y ${isDarkMode ? 'divide-gray-700' : 'divide-gray-200'}`}>
+            {visibleRows.map((row, index) => (
+              <tr key={`${row.source ?? ''}${row.line}-${index}`}>
+                <td className={`px-2 py-1 whitespace-nowrap ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  {row.source ? `${row.source}:${row.line}` : row.line}
+                </td>
+                <td className={`px-2 py-1 whitespace-nowrap font-mono ${isDarkMode ? 'text-gray-200' : 'text-gray-900'}`}>
+                  {row.raw.join(', ')}
+                </td>
+                <td className={`px-2 py-1 ${
+                  row.status === 'accepted'
+                    ? isDarkMode ? 'text-green-400' : 'text-green-700'
+                    : isDarkMode ? 'text-red-400' : 'text-red-700'
+                }`}>
+                  {row.status === 'accepted' ? row.point?.label : row.reason}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rows.length > MAX_VISIBLE_ROWS && (
+          <p className={`mt-2 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            Showing the first {MAX_VISIBLE_ROWS} of {rows.length} rows.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportReportView;
@@ -0,0 +1,127 @@
+import React, { MutableRefObject, RefObject, useEffect, useState } from 'react';
+import { Chart as ChartJS } from 'chart.js';
+import { BLOCKED_SCORE, LabelDebugLabel, candidateColor, getLabelDebug, scoreRange } from '../plugins/ChartJsLabelPlugin';
+
+// How close (screen pixels) the pointer must be to a candidate dot to inspect it
+const HOVER_RADIUS_PX = 6;
+
+interface LabelDebugOverlayProps {
+  containerRef: RefObject<HTMLElement>;
+  chartRef: MutableRefObject<ChartJS<'scatter'> | null>;
+  isDarkMode?: boolean;
+}
+
+interface Hovered {
+  label: LabelDebugLabel;
+  index: number;
+  scale: { x: number; y: number }; // canvas rect pixels per chart pixel
+  offset: { left: number; top: number }; // canvas position in the container
+  pointer: { left: number; top: number };
+}
+
+const formatScore = (score: number) => (Math.abs(score) >= 1000 ? Math.round(score).toLocaleString() : score.toFixed(1));
+
+/**
+ * Hover readout for the label placement debug overlay, which the label
+ * plugin draws on the canvas: shows the score breakdown of the candidate
+ * under the pointer and outlines where that label would have gone.
+ */
+const LabelDebugOverlay: React.FC<LabelDebugOverlayProps> = ({ containerRef, chartRef, isDarkMode = false }) => {
+  const [hovered, setHovered] = useState<Hovered | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handlePointerMove = (e: PointerEvent) => {
+      const chart = chartRef.current;
+      const view = chart && getLabelDebug(chart);
+      if (!chart || !view) {
+        setHovered(null);
+        return;
+      }
+      const rect = chart.canvas.getBoundingClientRect();
+      const origin = container.getBoundingClientRect();
+      const scale = { x: rect.width / chart.width, y: rect.height / chart.height };
+      let best = HOVER_RADIUS_PX;
+      let found: Hovered | null = null;
+      for (const label of view.labels) {
+        label.candidates.forEach((candidate, index) => {
+          const clientX = rect.left + (candidate.x + label.width / 2) * scale.x;
+          const clientY = rect.top + (candidate.y + label.height / 2) * scale.y;
+          const distance = Math.hypot(clientX - e.clientX, clientY - e.clientY);
+          if (distance < best) {
+            best = distance;
+            found = {
+              label,
+              index,
+              scale,
+              offset: { left: rect.left - origin.left, top: rect.top - origin.top },
+              pointer: { left: e.clientX - origin.left, top: e.clientY - origin.top }
+            };
+          }
+        });
+      }
+      setHovered(found);
+    };
+    const handlePointerLeave = () => setHovered(null);
+    container.addEventListener('pointermove', handlePointerMove);
+    container.addEventListener('pointerleave', handlePointerLeave);
+    return () => {
+      container.removeEventListener('pointermove', handlePointerMove);
+      container.removeEventListener('pointerleave', handlePointerLeave);
+    };
+  }, [containerRef, chartRef]);
+
+  if (!hovered) return null;
+
+  const { label, index, scale, offset, pointer } = hovered;
+  const candidate = label.candidates[index];
+  const color = candidateColor(candidate.score, scoreRange(label));
+  const centre = {
+    x: offset.left + (candidate.x + label.width / 2) * scale.x,
+    y: offset.top + (candidate.y + label.height / 2) * scale.y
+  };
+  const status = index === label.chosen
+    ? label.placed ? 'Greedy pick' : 'Greedy pick, replaced'
+    : !label.placed ? 'Label dropped' : candidate.score <= BLOCKED_SCORE ? 'Blocked' : 'Not chosen';
+
+  return (
+    <>
+      <svg className="absolute inset-0 z-20 w-full h-full pointer-events-none">
+        <rect
+          x={-label.width * scale.x / 2}
+          y={-label.height * scale.y / 2}
+          width={label.width * scale.x}
+          height={label.height * scale.y}
+          transform={`translate(${centre.x} ${centre.y}) rotate(${(candidate.rotation * 180) / Math.PI})`}
+          fill="none"
+          stroke={color}
+          strokeWidth={1.5}
+        />
+      </svg>
+      <div
+        className={`absolute z-30 px-2 py-1 rounded-md shadow-md text-xs tabular-nums pointer-events-none ${
+          isDarkMode ? 'bg-gray-800/95 text-gray-100' : 'bg-white/95 text-gray-800'
+        }`}
+        style={{ left: pointer.left + 12, top: pointer.top + 12 }}
+      >
+        <div className="font-medium">
+          {label.text} · #{index + 1} of {label.candidates.length}
+        </div>
+        <div className={isDarkMode ? 'text-gray-400' : 'text-gray-500'}>
+          {status}
+          {candidate.rotation !== 0 && ` · ${Math.round((candidate.rotation * 180) / Math.PI)}°`}
+        </div>
+        <div className="font-medium">Score {formatScore(candidate.score)}</div>
+        {Object.entries(candidate.scoreBreakdown).map(([name, value]) => (
+          <div key={name} className="flex justify-between gap-3">
+            <span>{name}</span>
+            <span>{formatScore(value)}</span>
+          </div>
+        ))}
+      </div>
+    </>
+  );
+};
+
+export default LabelDebugOverlay;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { BoxSelect, Hand, Lasso, LucideIcon, Move, Plus, Ruler } from 'lucide-react';
+
+// What a click or drag on the map does
+export type MapTool = 'pan' | 'add' | 'edit' | 'select' | 'lasso' | 'measure';
+
+const TOOLS: Array<{ tool: MapTool; label: string; title: string; icon: LucideIcon }> = [
+  { tool: 'pan', label: 'Pan', title: 'Drag to pan, scroll to zoom', icon: Hand },
+  { tool: 'add', label: 'Add', title: 'Click the map to add a pearl', icon: Plus },
+  { tool: 'edit', label: 'Edit', title: 'Drag markers to correct their position', icon: Move },
+  { tool: 'select', label: 'Select', title: 'Drag a box to select pearls (Shift adds, Ctrl toggles)', icon: BoxSelect },
+  { tool: 'lasso', label: 'Lasso', title: 'Draw around pearls to select them (Shift adds, Ctrl toggles)', icon: Lasso },
+  { tool: 'measure', label: 'Measure', title: 'Click points or pearls to measure distance and bearing', icon: Ruler }
+];
+
+interface MapToolbarProps {
+  tool: MapTool;
+  onToolChange: (tool: MapTool) => void;
+  isDarkMode?: boolean;
+}
+
+const MapToolbar: React.FC<MapToolbarProps> = ({ tool, onToolChange, isDarkMode = false }) => (
+  <div
+    className={`inline-flex rounded-md overflow-hidden ${
+      isDarkMode ? 'bg-gray-800' : 'bg-white border border-gray-300'
+    }`}
+  >
+    {TOOLS.map(({ tool: option, label, title, icon: Icon }) => (
+      <button
+        key={option}
+        onClick={() => onToolChange(option)}
+        className={`inline-flex items-center px-3 py-2 text-sm font-medium transition-colors ${
+          tool === option
+            ? isDarkMode ? 'bg-blue-900 text-blue-200' : 'bg-blue-100 text-blue-700'
+            : isDarkMode ? 'text-gray-200 hover:bg-gray-700' : 'text-gray-700 hover:bg-gray-100'
+        }`}
+        title={title}
+      >
+        <Icon size={16} className="mr-1" />
+        {label}
+      </button>
+    ))}
+  </div>
+);
+
+export default MapToolbar;
@@ -0,0 +1,184 @@
+import React, { RefObject, useEffect, useRef, useState } from 'react';
+import { DataPoint } from '../types';
+import { isTextEntry } from '../hooks/useHistory';
+import { measureLeg, measurePath } from '../utils/measure';
+
+// How close (screen pixels) a click must be to a pearl to measure from the pearl itself
+const SNAP_RADIUS_PX = 12;
+
+type Vertex = { x: number; z: number; label?: string };
+type ScreenPoint = { x: number; y: number };
+
+interface MeasureToolProps {
+  containerRef: RefObject<HTMLElement>;
+  clientToWorld: (clientX: number, clientY: number) => { x: number; z: number } | null;
+  worldToContainer: (x: number, z: number) => ScreenPoint | null; // map container pixels
+  points: DataPoint[]; // visible pearls clicks may snap to
+  isDarkMode?: boolean;
+}
+
+const formatBlocks = (blocks: number) => (blocks < 100 ? blocks.toFixed(1) : Math.round(blocks).toLocaleString());
+
+/**
+ * Ruler for the map: each click adds a vertex, snapped to a pearl when one is
+ * close, and every leg shows its straight-line and Manhattan distance and the
+ * yaw to face along it. Vertices are kept in world coordinates, so rotating
+ * or zooming the view never changes the numbers. Backspace removes the last
+ * vertex, Escape starts over.
+ */
+const MeasureTool: React.FC<MeasureToolProps> = ({
+  containerRef,
+  clientToWorld,
+  worldToContainer,
+  points,
+  isDarkMode = false
+}) => {
+  const [vertices, setVertices] = useState<Vertex[]>([]);
+  const [cursor, setCursor] = useState<Vertex | null>(null);
+
+  // Block under a screen position, or the pearl drawn there
+  const resolve = (clientX: number, clientY: number): Vertex | null => {
+    const container = containerRef.current;
+    const world = clientToWorld(clientX, clientY);
+    if (!container || !world) return null;
+    const rect = container.getBoundingClientRect();
+    let best = SNAP_RADIUS_PX;
+    let snapped: DataPoint | null = null;
+    for (const point of points) {
+      const screen = worldToContainer(point.x, point.z);
+      if (!screen) continue;
+      const distance = Math.hypot(screen.x - (clientX - rect.left), screen.y - (clientY - rect.top));
+      if (distance < best) {
+        best = distance;
+        snapped = point;
+      }
+    }
+    return snapped
+      ? { x: snapped.x, z: snapped.z, label: snapped.label }
+      : { x: Math.round(world.x), z: Math.round(world.z) };
+  };
+
+  const latest = useRef(resolve);
+  latest.current = resolve;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleClick = (e: MouseEvent) => {
+      if ((e.target as Element).closest('button')) return;
+      const vertex = latest.current(e.clientX, e.clientY);
+      if (vertex) setVertices(prev => [...prev, vertex]);
+    };
+    const handlePointerMove = (e: PointerEvent) => setCursor(latest.current(e.clientX, e.clientY));
+    const handlePointerLeave = () => setCursor(null);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTextEntry(e.target as HTMLElement | null)) return;
+      if (e.key === 'Escape') setVertices([]);
+      if (e.key === 'Backspace') {
+        e.preventDefault();
+        setVertices(prev => prev.slice(0, -1));
+      }
+    };
+    container.addEventListener('click', handleClick);
+    container.addEventListener('pointermove', handlePointerMove);
+    container.addEventListener('pointerleave', handlePointerLeave);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      container.removeEventListener('click', handleClick);
+      container.removeEventListener('pointermove', handlePointerMove);
+      container.removeEventListener('pointerleave', handlePointerLeave);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [containerRef]);
+
+  const path = measurePath(vertices);
+  const screen = vertices.map(vertex => worldToContainer(vertex.x, vertex.z));
+  const polyline = screen.flatMap(point => (point ? [`${point.x},${point.y}`] : [])).join(' ');
+  const last = vertices[vertices.length - 1];
+  const lastScreen = screen[screen.length - 1];
+  const cursorScreen = cursor && worldToContainer(cursor.x, cursor.z);
+  const preview = last && cursor && measureLeg(last, cursor);
+  const name = (index: number) => vertices[index].label ?? `#${index + 1}`;
+
+  const lineColor = '#F59E0B';
+  const haloColor = 'rgba(0, 0, 0, 0.6)';
+  const textProps = {
+    fontSize: 11,
+    fontWeight: 600,
+    fill: '#FFFFFF',
+    stroke: haloColor,
+    strokeWidth: 3,
+    paintOrder: 'stroke',
+    textAnchor: 'middle' as const
+  };
+
+  return (
+    <>
+      <svg className="absolute inset-0 z-10 w-full h-full pointer-events-none">
+        {screen.length > 1 && (
+          <>
+            <polyline points={polyline} fill="none" stroke={haloColor} strokeWidth={4} />
+            <polyline points={polyline} fill="none" stroke={lineColor} strokeWidth={2} />
+          </>
+        )}
+        {lastScreen && cursorScreen && (
+          <line
+            x1={lastScreen.x}
+            y1={lastScreen.y}
+            x2={cursorScreen.x}
+            y2={cursorScreen.y}
+            stroke={lineColor}
+            strokeWidth={1.5}
+            strokeDasharray="5 4"
+          />
+        )}
+        {path.legs.map((leg, index) => {
+          const from = screen[index];
+          const to = screen[index + 1];
+          if (!from || !to) return null;
+          return (
+            <text key={index} x={(from.x + to.x) / 2} y={(from.y + to.y) / 2 - 6} {...textProps}>
+              {formatBlocks(leg.euclidean)}
+            </text>
+          );
+        })}
+        {screen.map((point, index) => point && (
+          <circle key={index} cx={point.x} cy={point.y} r={4} fill={lineColor} stroke="#000000" strokeWidth={1} />
+        ))}
+        {preview && cursorScreen && (
+          <text x={cursorScreen.x} y={cursorScreen.y - 12} {...textProps}>
+            {formatBlocks(path.euclidean + preview.euclidean)}
+          </text>
+        )}
+      </svg>
+
+      <div
+        className={`absolute bottom-2 left-8 z-10 max-w-xs px-2 py-1 rounded-md shadow-md text-xs tabular-nums pointer-events-none ${
+          isDarkMode ? 'bg-gray-800/90 text-gray-100' : 'bg-white/90 text-gray-800'
+        }`}
+      >
+        {path.legs.map((leg, index) => (
+          <div key={index}>
+            <span className="font-medium">{name(index)} → {name(index + 1)}</span>{' '}
+            {formatBlocks(leg.euclidean)} · M {leg.manhattan} · yaw {leg.yaw.toFixed(1)}° ({leg.facing})
+          </div>
+        ))}
+        {path.legs.length > 1 && (
+          <div className="font-medium">
+            Total {formatBlocks(path.euclidean)} blocks · M {path.manhattan}
+          </div>
+        )}
+        {preview && (
+          <div className={isDarkMode ? 'text-gray-400' : 'text-gray-500'}>
+            Next: {formatBlocks(preview.euclidean)} · M {preview.manhattan} · yaw {preview.yaw.toFixed(1)}° ({preview.facing})
+          </div>
+        )}
+        <div className={isDarkMode ? 'text-gray-400' : 'text-gray-500'}>
+          {vertices.length === 0 ? 'Click points or pearls to measure' : 'Backspace removes a point · Esc clears'}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default MeasureTool;
@@ -0,0 +1,100 @@
+import React, { useRef, useState } from 'react';
+import { FolderOpen, Save } from 'lucide-react';
+import {
+  HuntProject,
+  ProjectFieldError,
+  PROJECT_FILE_EXTENSION,
+  downloadProject,
+  parseProjectFile
+} from '../utils/projectFile';
+
+interface ProjectFileControlsProps {
+  project: HuntProject;
+  onProjectLoaded: (project: HuntProject) => void;
+  isDarkMode?: boolean;
+}
+
+const ProjectFileControls: React.FC<ProjectFileControlsProps> = ({
+  project,
+  onProjectLoaded,
+  isDarkMode = false
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [errors, setErrors] = useState<ProjectFieldError[]>([]);
+  const [fileName, setFileName] = useState<string | null>(null);
+
+  const handleOpen = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const result = parseProjectFile(event.target?.result as string);
+      setFileName(file.name);
+      if (result.ok) {
+        setErrors([]);
+        onProjectLoaded(result.project);
+      } else {
+        setErrors(result.errors);
+      }
+    };
+    reader.onerror = () => {
+      setFileName(file.name);
+      setErrors([{ path: '', message: 'could not read the file' }]);
+    };
+    reader.readAsText(file);
+
+    // Allow re-opening the same file after fixing it
+    e.target.value = '';
+  };
+
+  const buttonClasses = `inline-flex items-center px-3 py-2 rounded-md shadow-sm text-sm font-medium focus:outline-none focus:ring-2 focus:ring-offset-2 transition-colors duration-200 ${
+    isDarkMode
+      ? 'bg-gray-700 text-gray-200 hover:bg-gray-600 focus:ring-gray-500'
+      : 'bg-white text-gray-700 hover:bg-gray-50 focus:ring-gray-500 border border-gray-300'
+  }`;
+
+  return (
+    <div className={`${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'} p-4 rounded-lg shadow-sm`}>
+      <h3 className="text-lg font-medium mb-1">Project File</h3>
+      <p className={`text-sm mb-4 ${isDarkMode ? 'text-gray-300' : 'text-gray-500'}`}>
+        Save or open a complete hunt: points, labels, chart settings, world profile, map and rotation.
+      </p>
+      <div className="flex items-center gap-2">
+        <button type="button" onClick={() => downloadProject(project)} className={buttonClasses}>
+          <Save size={16} className="mr-1" />
+          Save Project
+        </button>
+        <button type="button" onClick={() => fileInputRef.current?.click()} className={buttonClasses}>
+          <FolderOpen size={16} className="mr-1" />
+          Open Project
+        </button>
+        <input
+          type="file"
+          ref={fileInputRef}
+          accept={`${PROJECT_FILE_EXTENSION},application/json`}
+          onChange={handleOpen}
+          className="hidden"
+        />
+      </div>
+
+      {errors.length > 0 && (
+        <div className={`mt-4 p-2 rounded-md text-sm ${isDarkMode ? 'bg-red-900/50 text-red-200' : 'bg-red-50 text-red-700'}`}>
+          <p className="font-medium mb-1">
+            {fileName ? `"${fileName}"` : 'The file'} could not be loaded ({errors.length} problem{errors.length !== 1 ? 's' : ''}):
+          </p>
+          <ul className="max-h-40 overflow-y-auto list-disc pl-5">
+            {errors.map((error, index) => (
+              <li key={index}>
+                {error.path && <code className="mr-1">{error.path}</code>}
+                {error.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectFileControls;
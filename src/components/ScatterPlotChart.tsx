@@ -1,4 +1,4 @@
-import React, { useRef } from 'react';
+import React, { MutableRefObject, useRef } from 'react';
 import {
   Chart as ChartJS,
   LinearScale,
@@ -13,17 +13,53 @@ import {
 } from 'chart.js';
 import { Scatter } from 'react-chartjs-2';
 import ChartDataLabels from 'chartjs-plugin-datalabels';
-import { DataPoint, SERIES_COLORS, SeriesType } from '../types';
+import { DataPoint, LabelPlacement, SERIES_COLORS, SeriesType, WorldProfile } from '../types';
 import ChartJsLabelPlugin from '../plugins/ChartJsLabelPlugin';
+import BorderAlignPlugin from '../plugins/BorderAlignPlugin';
+import RestrictedAreaPlugin, { RestrictedArea } from '../plugins/RestrictedAreaPlugin';
+import WorldGridPlugin, { WorldGridPluginOptions } from '../plugins/WorldGridPlugin';
 import type { Context as DatalabelContext } from 'chartjs-plugin-datalabels';
+import ZoomControls from './ZoomControls';
+import CursorHud from './CursorHud';
+import MeasureTool from './MeasureTool';
+import LabelDebugOverlay from './LabelDebugOverlay';
+import { useMapGestures } from '../hooks/useMapGestures';
+import { usePointDrag } from '../hooks/usePointDrag';
+import { SelectionShape, useMapSelection } from '../hooks/useMapSelection';
+import { MapView, fullView, toViewWindow, zoomAtCentre, zoomLevel } from '../utils/mapView';
+import { CoordinateTransform, createCoordinateTransform, imageTransformCss, worldToClient } from '../utils/coordinateTransform';
+import { SelectionMode, applySelection, pointInPolygon, rectPolygon } from '../utils/selection';
+import { DEFAULT_WORLD_PROFILE } from '../utils/worldProfile';
 
-ChartJS.register(LinearScale, PointElement, LineElement, Tooltip, Legend, ChartDataLabels, ChartJsLabelPlugin);
+ChartJS.register(
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+  ChartDataLabels,
+  ChartJsLabelPlugin,
+  BorderAlignPlugin,
+  RestrictedAreaPlugin,
+  WorldGridPlugin
+);
+
+// Zoom step of the +/- buttons
+const BUTTON_ZOOM_FACTOR = 1.5;
+// Ring drawn around selected markers
+const SELECTION_COLOR = '#F59E0B';
+// How far (screen pixels) a click may land from a marker and still select it
+const CLICK_SELECT_RADIUS_PX = 10;
 
 // TODO: Consider moving ChartJsLabelPluginOptions to ChartJsLabelPlugin.ts and exporting it from there
 interface ChartJsLabelPluginOptions {
   enabled?: boolean;
   debug?: boolean;
   dataLabelFontSize?: number;
+  mode?: LabelPlacement;
+  timeBudgetMs?: number;
+  callouts?: boolean;
+  rotate?: boolean;
 }
 
 // Interface for custom data points used within the chart's datasets
@@ -52,7 +88,26 @@ interface ScatterPlotChartProps {
   imageHeight?: number;
   pointSize?: number;
   useLabelPlacer?: boolean;
-  rotation?: number;
+  labelPlacement?: LabelPlacement; // greedy, or greedy plus a global optimisation pass
+  labelTimeBudgetMs?: number;
+  labelCallouts?: boolean; // side column for labels that fit nowhere near their pearl
+  labelRotation?: boolean; // allow diagonal and vertical labels
+  labelDebug?: boolean; // overlay of scored label candidates
+  transform?: CoordinateTransform; // world ↔ chart mapping; unrotated over the image when omitted
+  chartRef?: MutableRefObject<ChartJS<"scatter"> | null>; // lets parents reach the chart instance (e.g. for export)
+  view?: MapView; // visible window in chart units; defaults to the whole map
+  onViewChange?: (view: MapView) => void; // enables zoom and pan when provided
+  onMapClick?: (world: { x: number; z: number }, clientX: number, clientY: number) => void; // enables click-to-add
+  onPointMove?: (id: string, world: { x: number; z: number }) => void; // enables dragging markers
+  restrictedAreas?: RestrictedArea[]; // hatched exclusion zones in chart units
+  worldBorder?: Array<{ x: number; y: number }>; // border outline in chart units
+  worldProfile?: WorldProfile; // rules a dragged marker must respect
+  worldGrid?: Omit<WorldGridPluginOptions, 'matrix' | 'origin' | 'isDarkMode' | 'fontSize'>; // grid overlay and rulers
+  showCrosshair?: boolean; // crosshair snapping to the nearest pearl
+  selectedIds?: Set<string>; // highlighted markers
+  selectionShape?: SelectionShape; // enables box or lasso selection
+  onSelectionChange?: (ids: Set<string>) => void;
+  measuring?: boolean; // ruler mode: clicks measure instead of selecting or adding
   [key: string]: unknown; // Allow additional props to support Chart.js options
 }
 
@@ -75,28 +130,120 @@ const ScatterPlotChart: React.FC<ScatterPlotChartProps> = ({
   imageHeight,
   pointSize = 6,
   useLabelPlacer = true,
-  rotation = 0
+  labelPlacement = 'greedy',
+  labelTimeBudgetMs,
+  labelCallouts = true,
+  labelRotation = false,
+  labelDebug = false,
+  transform: externalTransform,
+  chartRef: externalChartRef,
+  view,
+  onViewChange,
+  onMapClick,
+  onPointMove,
+  restrictedAreas = [],
+  worldBorder = [],
+  worldProfile = DEFAULT_WORLD_PROFILE,
+  worldGrid,
+  showCrosshair = false,
+  selectedIds = new Set<string>(),
+  selectionShape,
+  onSelectionChange,
+  measuring = false
 }) => {
   // Reference to the chart instance for potential future interactions
-  const chartRef = useRef<ChartJS<"scatter"> | null>(null);
-  
-  // Helper function to rotate coordinates around center (0, 0)
-  const rotatePoint = (x: number, z: number, degrees: number): { x: number; z: number } => {
-    const rad = (degrees * Math.PI) / 180;
-    const cos = Math.cos(rad);
-    const sin = Math.sin(rad);
+  const internalChartRef = useRef<ChartJS<"scatter"> | null>(null);
+  const chartRef = externalChartRef ?? internalChartRef;
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const transform = externalTransform ?? createCoordinateTransform({ imageWidth, imageHeight });
+
+  // Zoom and pan: the scales show `currentView` and the background image is
+  // transformed to match, so markers and map move in lockstep
+  const full = fullView(transform.width, transform.height);
+  const currentView = view ?? full;
+  const zoom = zoomLevel(currentView, full);
+  const viewWindow = toViewWindow(currentView, full);
+  const { isPanning } = useMapGestures(
+    containerRef,
+    () => chartRef.current?.canvas,
+    currentView,
+    full,
+    onViewChange
+  );
+
+  // Convert a screen position back through the view window and the transform
+  const clientToWorld = (clientX: number, clientY: number) => {
+    const canvas = chartRef.current?.canvas;
+    if (!canvas) return null;
+    const rect = canvas.getBoundingClientRect();
+    const chartX = currentView.xMin + ((clientX - rect.left) / rect.width) * (currentView.xMax - currentView.xMin);
+    const chartY = currentView.yMin + ((clientY - rect.top) / rect.height) * (currentView.yMax - currentView.yMin);
+    return transform.chartToWorld(chartX, chartY);
+  };
+
+  // Inverse of clientToWorld in map container pixels; follows the view without
+  // waiting for the chart to redraw
+  const worldToContainer = (x: number, z: number) => {
+    const canvas = chartRef.current?.canvas;
+    const container = containerRef.current;
+    if (!canvas || !container) return null;
+    const rect = canvas.getBoundingClientRect();
+    const origin = container.getBoundingClientRect();
+    const [chart] = transform.worldPathToChart([{ x, z }]);
     return {
-      x: x * cos - z * sin,
-      z: x * sin + z * cos
+      x: rect.left - origin.left + ((chart.x - currentView.xMin) / (currentView.xMax - currentView.xMin)) * rect.width,
+      y: rect.top - origin.top + ((chart.y - currentView.yMin) / (currentView.yMax - currentView.yMin)) * rect.height
     };
   };
-  
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!onMapClick || (e.target as Element).closest('button')) return;
+    const world = clientToWorld(e.clientX, e.clientY);
+    if (world) onMapClick({ x: Math.round(world.x), z: Math.round(world.z) }, e.clientX, e.clientY);
+  };
+
+  const drag = usePointDrag(
+    containerRef,
+    chartRef,
+    clientToWorld,
+    (id) => data.find(point => point.id === id),
+    worldProfile,
+    onPointMove
+  );
+  // Box and lasso select the visible markers whose screen position falls inside
+  const handleSelect = (area: { polygon: Array<{ x: number; y: number }> } | { click: { x: number; y: number } }, mode: SelectionMode) => {
+    const chart = chartRef.current;
+    if (!chart || !onSelectionChange) return;
+    const onScreen = data
+      .filter(point => visibleSeries.has(point.series))
+      .map(point => ({ id: point.id, ...worldToClient(chart, transform, point.x, point.z) }));
+    let ids: string[];
+    if ('click' in area) {
+      const hit = onScreen
+        .map(point => ({ id: point.id, distance: Math.hypot(point.clientX - area.click.x, point.clientY - area.click.y) }))
+        .filter(point => point.distance <= CLICK_SELECT_RADIUS_PX)
+        .sort((a, b) => a.distance - b.distance)[0];
+      ids = hit ? [hit.id] : [];
+    } else {
+      ids = onScreen
+        .filter(point => pointInPolygon({ x: point.clientX, y: point.clientY }, area.polygon))
+        .map(point => point.id);
+    }
+    onSelectionChange(applySelection(selectedIds, ids, mode));
+  };
+
+  const selection = useMapSelection(containerRef, onSelectionChange ? selectionShape ?? null : null, handleSelect);
+  const containerRect = drag || selection ? containerRef.current?.getBoundingClientRect() : undefined;
+
   // Group data by series
   const seriesMap = new Map<SeriesType, DataPoint[]>();
 
   // Deduplicate points by (x, z) so only one label per unique coordinate
   const seenCoords = new Set<string>();
-  data.forEach((point: DataPoint) => {
+  data.forEach((original: DataPoint) => {
+    // The marker being dragged is drawn at its live position
+    const point = drag?.id === original.id ? { ...original, ...drag.world } : original;
     const coordKey = `${point.x},${point.z}`;
     if (seenCoords.has(coordKey)) return;
     seenCoords.add(coordKey);
@@ -104,24 +251,8 @@ const ScatterPlotChart: React.FC<ScatterPlotChartProps> = ({
       seriesMap.set(point.series, []);
     }
     if (visibleSeries.has(point.series)) {
-      // Scale coordinates based on image dimensions if provided
-      let scaledPoint = { ...point };
-      if (imageWidth && imageHeight) {
-        // Apply rotation first
-        const rotated = rotatePoint(point.x, point.z, rotation);
-        
-        // Clamp coordinates to [-160, 160] range
-        const clampedX = Math.max(-160, Math.min(160, rotated.x));
-        const clampedZ = Math.max(-160, Math.min(160, rotated.z));
-        
-        // Map from [-160, 160] to [0, imageWidth-1] and [0, imageHeight-1]
-        // Using (x + 160) * (imageWidth-1) / 320
-        scaledPoint = {
-          ...point,
-          x: Math.round(((clampedX + 160) / 320) * (imageWidth - 1)),
-          z: Math.round(((clampedZ + 160) / 320) * (imageHeight - 1)),
-        };
-      }
+      const chartPosition = transform.worldToChart(point.x, point.z);
+      const scaledPoint = { ...point, x: chartPosition.x, z: chartPosition.y };
       const arr = seriesMap.get(point.series);
       if (arr) arr.push(scaledPoint);
     }
@@ -154,6 +285,8 @@ const ScatterPlotChart: React.FC<ScatterPlotChartProps> = ({
         backgroundColor: getSeriesColor(series),
         borderColor: series === 'Black' ? '#666666' : (isDarkMode ? '#FFFFFF' : '#000000'),
         borderWidth: series === 'Black' ? 2 : 1,
+        pointBorderColor: points.map(p => selectedIds.has(p.id) ? SELECTION_COLOR : series === 'Black' ? '#666666' : (isDarkMode ? '#FFFFFF' : '#000000')),
+        pointBorderWidth: points.map(p => selectedIds.has(p.id) ? 3 : series === 'Black' ? 2 : 1),
         pointRadius: pointSize,
         pointHoverRadius: Math.min(pointSize + 4, 12), // Add 4px to point size, but cap at 12px
         pointStyle: createPointImage(series),
@@ -179,7 +312,23 @@ const ScatterPlotChart: React.FC<ScatterPlotChartProps> = ({
       labelPlacer: {
         enabled: showDataLabels,
         dataLabelFontSize: dataLabelFontSize,
+        mode: labelPlacement,
+        timeBudgetMs: labelTimeBudgetMs,
+        callouts: labelCallouts,
+        rotate: labelRotation,
+        debug: labelDebug,
       } as ChartJsLabelPluginOptions,
+      restrictedAreas: {
+        areas: restrictedAreas,
+        border: worldBorder
+      },
+      worldGrid: {
+        ...worldGrid,
+        matrix: transform.matrix,
+        origin: worldProfile.origin,
+        isDarkMode,
+        fontSize: axisTickFontSize
+      },
       tooltip: {
         enabled: true,
         backgroundColor: 'black',
@@ -206,25 +355,10 @@ const ScatterPlotChart: React.FC<ScatterPlotChartProps> = ({
           label: (context) => {
             const point = context.raw as { x: number; y: number };
             // Convert back to original coordinate space
-            if (imageWidth && imageHeight) {
-              // Reverse of: x = ((clampedX + 160) / 320) * (imageWidth - 1)
-              const rotatedX = ((point.x / (imageWidth - 1)) * 320) - 160;
-              const rotatedZ = ((point.y / (imageHeight - 1)) * 320) - 160;
-              
-              // Apply reverse rotation to get back to original coordinates
-              const unrotated = rotatePoint(rotatedX, rotatedZ, -rotation);
-              
-              // Clamp to [-160, 160] range
-              const clampedX = Math.max(-160, Math.min(160, unrotated.x));
-              const clampedZ = Math.max(-160, Math.min(160, unrotated.z));
-              return [
-                `X: ${Math.round(clampedX)}`,
-                `Z: ${Math.round(clampedZ)}`
-              ];
-            }
+            const world = transform.chartToWorld(point.x, point.y);
             return [
-              `X: ${Math.round(point.x)}`,
-              `Z: ${Math.round(point.y)}`
+              `X: ${Math.round(world.x)}`,
+              `Z: ${Math.round(world.z)}`
             ];
           }
         },
@@ -252,21 +386,8 @@ const ScatterPlotChart: React.FC<ScatterPlotChartProps> = ({
         },
         formatter: function(value: ChartScatterDataPointCustom, _context: DatalabelContext) {
           // Convert back to original coordinate space
-          if (imageWidth && imageHeight) {
-            // Reverse of: x = ((clampedX + 160) / 320) * (imageWidth - 1)
-            const rotatedX = ((value.x as number / (imageWidth - 1)) * 320) - 160;
-            const rotatedZ = ((value.y as number / (imageHeight - 1)) * 320) - 160;
-            
-            // Apply reverse rotation to get back to original coordinates
-            const unrotated = rotatePoint(rotatedX, rotatedZ, -rotation);
-            
-            // Clamp to [-160, 160] range
-            const clampedX = Math.max(-160, Math.min(160, unrotated.x));
-            const clampedZ = Math.max(-160, Math.min(160, unrotated.z));
-            
-            return `(${Math.round(clampedX)}, ${Math.round(clampedZ)})`;
-          }
-          return `(${Math.round(value.x as number)}, ${Math.round(value.y as number)})`;
+          const world = transform.chartToWorld(value.x as number, value.y as number);
+          return `(${Math.round(world.x)}, ${Math.round(world.z)})`;
         },
         align: 'top',
         offset: 10,
@@ -280,8 +401,8 @@ const ScatterPlotChart: React.FC<ScatterPlotChartProps> = ({
       x: {
         type: 'linear',
         position: 'bottom',
-        min: 0,
-        max: imageWidth ? imageWidth - 1 : 319,
+        min: currentView.xMin,
+        max: currentView.xMax,
         title: {
           display: false
         },
@@ -299,8 +420,8 @@ const ScatterPlotChart: React.FC<ScatterPlotChartProps> = ({
       y: {
         type: 'linear',
         position: 'left',
-        min: 0,
-        max: imageHeight ? imageHeight - 1 : 319,
+        min: currentView.yMin,
+        max: currentView.yMax,
         reverse: true,
         title: {
           display: false
@@ -336,6 +457,8 @@ const ScatterPlotChart: React.FC<ScatterPlotChartProps> = ({
       }}
     >
       <div
+        ref={containerRef}
+        onClick={handleClick}
         className="w-full flex-grow relative flex items-center justify-center p-0"
         style={{
           width: imageWidth ? `${imageWidth}px` : '100%',
@@ -343,8 +466,65 @@ const ScatterPlotChart: React.FC<ScatterPlotChartProps> = ({
           overflow: 'hidden',
           padding: 0,
           margin: 0,
+          touchAction: onViewChange ? 'none' : undefined,
+          cursor: isPanning || drag ? 'grabbing' : onMapClick || selectionShape || measuring ? 'crosshair' : zoom > 1 ? 'grab' : undefined,
         }}
       >
+        {drag && containerRect && (
+          <div
+            className={`absolute z-20 px-2 py-1 rounded-md text-xs font-medium tabular-nums shadow-md pointer-events-none ${
+              drag.blockedReason ? 'bg-red-600 text-white' : 'bg-black/80 text-white'
+            }`}
+            style={{ left: drag.clientX - containerRect.left + 12, top: drag.clientY - containerRect.top + 12 }}
+          >
+            X {drag.world.x}, Z {drag.world.z}
+            {drag.blockedReason && <div className="font-normal">{drag.blockedReason}</div>}
+          </div>
+        )}
+        {selection && containerRect && (
+          <svg className="absolute inset-0 z-20 w-full h-full pointer-events-none">
+            <polygon
+              points={(selection.shape === 'box' ? rectPolygon(selection.path[0], selection.path[1]) : selection.path).map(point => `${point.x - containerRect.left},${point.y - containerRect.top}`).join(' ')}
+              fill="rgba(59, 130, 246, 0.12)"
+              stroke="#3B82F6"
+              strokeWidth={1.5}
+              strokeDasharray="5 3"
+            />
+          </svg>
+        )}
+        {measuring && (
+          <MeasureTool
+            containerRef={containerRef}
+            clientToWorld={clientToWorld}
+            worldToContainer={worldToContainer}
+            points={data.filter(point => visibleSeries.has(point.series))}
+            isDarkMode={isDarkMode}
+          />
+        )}
+        {labelDebug && showDataLabels && useLabelPlacer && (
+          <LabelDebugOverlay containerRef={containerRef} chartRef={chartRef} isDarkMode={isDarkMode} />
+        )}
+        {!drag && (
+          <CursorHud
+            containerRef={containerRef}
+            chartRef={chartRef}
+            clientToWorld={clientToWorld}
+            points={data.filter(point => visibleSeries.has(point.series))}
+            transform={transform}
+            worldProfile={worldProfile}
+            showCrosshair={showCrosshair}
+            isDarkMode={isDarkMode}
+          />
+        )}
+        {onViewChange && (
+          <ZoomControls
+            zoom={zoom}
+            onZoomIn={() => onViewChange(zoomAtCentre(currentView, full, BUTTON_ZOOM_FACTOR))}
+            onZoomOut={() => onViewChange(zoomAtCentre(currentView, full, 1 / BUTTON_ZOOM_FACTOR))}
+            onReset={() => onViewChange(full)}
+            isDarkMode={isDarkMode}
+          />
+        )}
         <div
           className="absolute inset-0 flex items-center justify-center p-0"
           style={{
@@ -370,6 +550,15 @@ const ScatterPlotChart: React.FC<ScatterPlotChartProps> = ({
                 pointerEvents: 'none',
                 padding: 0,
                 margin: 0,
+                // Show only the visible window of the image, stretched over the
+                // view, after orienting the image the same way as the markers
+                transform: [
+                  zoom > 1
+                    ? `scale(${1 / viewWindow.width}, ${1 / viewWindow.height}) translate(${-viewWindow.x * 100}%, ${-viewWindow.y * 100}%)`
+                    : '',
+                  imageTransformCss(transform.imageMatrix)
+                ].join(' '),
+                transformOrigin: '0 0',
               }}
             />
           )}
@@ -383,7 +572,8 @@ const ScatterPlotChart: React.FC<ScatterPlotChartProps> = ({
               margin: 0,
             }}
           >
-            <Scatter ref={chartRef} data={chartData} options={options} />
+            {/* Skip animations so zoom and pan stay in step with the image */}
+            <Scatter ref={chartRef} data={chartData} options={options} updateMode="none" />
           </div>
         </div>
       </div>
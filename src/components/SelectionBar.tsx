@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { Copy, Download, Tag, Trash2, X } from 'lucide-react';
+import { DataPoint, SeriesType } from '../types';
+import { ALL_SERIES } from '../constants/defaults';
+import { formatCoordinate, saveSelectionToCSV } from '../utils/dataUtils';
+import { isTextEntry } from '../hooks/useHistory';
+
+interface SelectionBarProps {
+  selected: DataPoint[];
+  onDelete: () => void;
+  onChangeSeries: (series: SeriesType) => void;
+  onTag: (tag: string) => void;
+  onClear: () => void;
+  isDarkMode?: boolean;
+}
+
+const COPIED_MESSAGE_MS = 1500;
+
+// Floating bar with bulk actions for the points selected on the map or in the table
+const SelectionBar: React.FC<SelectionBarProps> = ({
+  selected,
+  onDelete,
+  onChangeSeries,
+  onTag,
+  onClear,
+  isDarkMode = false
+}) => {
+  const [tag, setTag] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Escape clears the selection, unless it is meant for a text field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !isTextEntry(e.target as HTMLElement | null)) onClear();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClear]);
+
+  useEffect(() => {
+    if (!message) return;
+    const timer = setTimeout(() => setMessage(null), COPIED_MESSAGE_MS);
+    return () => clearTimeout(timer);
+  }, [message]);
+
+  const handleCopy = async () => {
+    const text = selected.map(point => formatCoordinate(point.x, point.z, 'plain')).join('\n');
+    try {
+      await navigator.clipboard.writeText(text);
+      setMessage(`Copied ${selected.length}`);
+    } catch {
+      setMessage('Clipboard unavailable');
+    }
+  };
+
+  const handleTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tag.trim()) return;
+    onTag(tag.trim());
+    setTag('');
+  };
+
+  const buttonClasses = `inline-flex items-center px-2 py-1.5 rounded-md text-sm font-medium transition-colors ${
+    isDarkMode ? 'text-gray-200 hover:bg-gray-700' : 'text-gray-700 hover:bg-gray-100'
+  }`;
+  const inputClasses = `px-2 py-1 rounded-md text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+  }`;
+
+  return (
+    <div
+      className={`fixed bottom-4 left-1/2 -translate-x-1/2 z-40 flex flex-wrap items-center gap-2 px-3 py-2 rounded-lg shadow-xl border ${
+        isDarkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-white border-gray-200 text-gray-900'
+      }`}
+    >
+      <span className="inline-flex items-center justify-center min-w-[1.75rem] h-7 px-2 rounded-full bg-blue-600 text-white text-sm font-semibold tabular-nums">
+        {selected.length}
+      </span>
+      <span className="text-sm mr-1">selected</span>
+
+      <select
+        value=""
+        onChange={(e) => e.target.value && onChangeSeries(e.target.value as SeriesType)}
+        className={inputClasses}
+        title="Move the selected points to another series"
+      >
+        <option value="">Series…</option>
+        {ALL_SERIES.map(series => (
+          <option key={series} value={series}>{series}</option>
+        ))}
+      </select>
+
+      <form onSubmit={handleTag} className="flex items-center gap-1">
+        <input
+          type="text"
+          value={tag}
+          onChange={(e) => setTag(e.target.value)}
+          placeholder="Tag"
+          className={`${inputClasses} w-24`}
+        />
+        <button type="submit" disabled={!tag.trim()} className={`${buttonClasses} disabled:opacity-50`} title="Tag the selected points">
+          <Tag size={16} />
+        </button>
+      </form>
+
+      <button onClick={handleCopy} className={buttonClasses} title="Copy coordinates as x, z lines">
+        <Copy size={16} className="mr-1" />
+        {message ?? 'Copy'}
+      </button>
+      <button onClick={() => saveSelectionToCSV(selected)} className={buttonClasses} title="Download the selected points, with labels and tags, as CSV">
+        <Download size={16} className="mr-1" />
+        Export
+      </button>
+      <button
+        onClick={onDelete}
+        className={`inline-flex items-center px-2 py-1.5 rounded-md text-sm font-medium transition-colors ${
+          isDarkMode ? 'text-red-400 hover:bg-red-900/50' : 'text-red-600 hover:bg-red-50'
+        }`}
+      >
+        <Trash2 size={16} className="mr-1" />
+        Delete
+      </button>
+      <button onClick={onClear} className={buttonClasses} title="Clear selection (Esc)">
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
+
+export default SelectionBar;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { History, X } from 'lucide-react';
+
+interface SessionRestoredBannerProps {
+  restoredAt: number;
+  onStartFresh: () => void;
+  onDismiss: () => void;
+  isDarkMode?: boolean;
+}
+
+const SessionRestoredBanner: React.FC<SessionRestoredBannerProps> = ({
+  restoredAt,
+  onStartFresh,
+  onDismiss,
+  isDarkMode = false
+}) => {
+  const handleStartFresh = () => {
+    if (window.confirm('Start a fresh session? All points and settings from the restored session will be removed.')) {
+      onStartFresh();
+    }
+  };
+
+  return (
+    <div className={`${isDarkMode ? 'bg-blue-900/50 text-blue-100' : 'bg-blue-50 text-blue-800'} border-b ${isDarkMode ? 'border-blue-800' : 'border-blue-200'}`}>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center justify-between text-sm">
+        <div className="flex items-center">
+          <History size={16} className="mr-2" />
+          Restored session from {new Date(restoredAt).toLocaleString()}
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={handleStartFresh}
+            className={`px-3 py-1 rounded-md font-medium transition-colors duration-200 ${
+              isDarkMode ? 'bg-blue-800 hover:bg-blue-700 text-white' : 'bg-blue-100 hover:bg-blue-200 text-blue-800'
+            }`}
+          >
+            Start Fresh
+          </button>
+          <button
+            onClick={onDismiss}
+            className={`p-1 rounded-md transition-colors duration-200 ${isDarkMode ? 'hover:bg-blue-800' : 'hover:bg-blue-100'}`}
+            title="Dismiss"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionRestoredBanner;
@@ -3,41 +3,57 @@ import ChartConfig from './ChartConfig';
 import DataInputForm from './DataInputForm';
 import FileUploader from './FileUploader';
 import DataTable from './DataTable';
-import { DataPoint, ChartConfig as ChartConfigType } from '../types';
+import ProjectFileControls from './ProjectFileControls';
+import WorldProfileEditor from './WorldProfileEditor';
+import { DataPoint, SeriesType, ChartConfig as ChartConfigType, WorldProfile } from '../types';
+import { HuntProject } from '../utils/projectFile';
 
 interface SettingsPageProps {
   data: DataPoint[];
-  // visibleSeries: Set<SeriesType>; // Unused, removed for lint
+  visibleSeries: Set<SeriesType>;
+  rotation: number;
+  worldProfile: WorldProfile;
+  onWorldProfileChange: (profile: WorldProfile) => void;
   chartConfig: ChartConfigType;
   onConfigChange: (config: ChartConfigType) => void;
   // onToggleSeries: (series: SeriesType) => void; // Unused, removed for lint
   onAddPoint: (point: DataPoint) => void;
+  onAddPoints: (points: DataPoint[]) => void;
   onDeletePoint: (index: number) => void;
+  onDeleteAllPoints: () => void;
+  selectedIds?: Set<string>;
+  onSelectionChange?: (ids: Set<string>) => void;
   onDataLoaded: (newData: DataPoint[]) => void;
   onImageUpdate: (imageData: string) => void;
+  onProjectLoaded: (project: HuntProject) => void;
   isDarkMode?: boolean;
   onDarkModeChange?: (isDark: boolean) => void;
 }
 
 const SettingsPage: React.FC<SettingsPageProps> = ({
   data,
-  // visibleSeries, // Unused, removed for lint
+  visibleSeries,
+  rotation,
+  worldProfile,
+  onWorldProfileChange,
   chartConfig,
   onConfigChange,
   // onToggleSeries, // Unused, removed for lint
   onAddPoint,
+  onAddPoints,
   onDeletePoint,
+  onDeleteAllPoints,
+  selectedIds,
+  onSelectionChange,
   onDataLoaded,
   onImageUpdate,
+  onProjectLoaded,
   isDarkMode = false,
   onDarkModeChange
 }) => {
   const handleDeleteAllPoints = (): void => {
-    if (window.confirm('Are you sure you want to remove all data points? This action cannot be undone.')) {
-      // Delete all points by deleting each point one by one
-      for (let i = data.length - 1; i >= 0; i--) {
-        onDeletePoint(i);
-      }
+    if (window.confirm('Are you sure you want to remove all data points? You can restore them with Undo.')) {
+      onDeleteAllPoints();
     }
   };
 
@@ -54,14 +70,25 @@ const SettingsPage: React.FC<SettingsPageProps> = ({
         />
       </div>
 
+      <WorldProfileEditor profile={worldProfile} onChange={onWorldProfileChange} isDarkMode={isDarkMode} />
+
+      {/* Project Save/Open */}
+      <ProjectFileControls
+        project={{ data, chartConfig, visibleSeries: Array.from(visibleSeries), rotation, worldProfile }}
+        onProjectLoaded={onProjectLoaded}
+        isDarkMode={isDarkMode}
+      />
+
       {/* Data Input Section */}
       <div id="data-input-section" className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <DataInputForm 
           onAddPoint={onAddPoint} 
+          onAddPoints={onAddPoints}
           series={['Cyan', 'Blue', 'White', 'Red', 'Magenta', 'Green', 'Yellow', 'Black']}
+          worldProfile={worldProfile}
           isDarkMode={isDarkMode}
         />
-        <FileUploader onDataLoaded={onDataLoaded} isDarkMode={isDarkMode} />
+        <FileUploader onDataLoaded={onDataLoaded} worldProfile={worldProfile} isDarkMode={isDarkMode} />
       </div>
 
       {/* Data Table */}
@@ -69,6 +96,8 @@ const SettingsPage: React.FC<SettingsPageProps> = ({
         data={data} 
         onDeletePoint={onDeletePoint} 
         onDeleteAllPoints={handleDeleteAllPoints}
+        selectedIds={selectedIds}
+        onSelectionChange={onSelectionChange}
         isDarkMode={isDarkMode} 
       />
     </div>
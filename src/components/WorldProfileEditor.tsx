@@ -0,0 +1,182 @@
+import React from 'react';
+import { AlertTriangle, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { ExclusionZone, WorldBorder, WorldProfile } from '../types';
+import { DEFAULT_WORLD_PROFILE, findProfileProblem } from '../utils/worldProfile';
+
+interface WorldProfileEditorProps {
+  profile: WorldProfile;
+  onChange: (profile: WorldProfile) => void;
+  isDarkMode?: boolean;
+}
+
+const NEW_ZONE: ExclusionZone = { name: 'Zone', xMin: -3, xMax: 3, zMin: -3, zMax: 3 };
+
+// Number inputs report '' while the user is mid-edit (e.g. just typed "-")
+const parseNumber = (value: string): number | null =>
+  value.trim() === '' || !Number.isFinite(Number(value)) ? null : Number(value);
+
+const WorldProfileEditor: React.FC<WorldProfileEditorProps> = ({ profile, onChange, isDarkMode = false }) => {
+  const problem = findProfileProblem(profile);
+
+  const setBorder = (border: WorldBorder) => onChange({ ...profile, border });
+
+  const handleShapeChange = (shape: WorldBorder['shape']) => {
+    if (shape === profile.border.shape) return;
+    // Keep the size roughly the same when switching shape
+    setBorder(profile.border.shape === 'square'
+      ? { shape: 'circle', radius: Math.max(profile.border.halfWidth, profile.border.halfDepth) }
+      : { shape: 'square', halfWidth: profile.border.radius, halfDepth: profile.border.radius });
+  };
+
+  const updateZone = (index: number, changes: Partial<ExclusionZone>) => {
+    onChange({
+      ...profile,
+      exclusions: profile.exclusions.map((zone, i) => (i === index ? { ...zone, ...changes } : zone))
+    });
+  };
+
+  const inputClasses = `w-full px-2 py-1 rounded-md text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+  }`;
+  const labelClasses = `block text-sm font-medium mb-1 ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`;
+  const mutedClasses = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+
+  const numberInput = (value: number, onValue: (value: number) => void, id?: string) => (
+    <input
+      id={id}
+      type="number"
+      value={value}
+      onChange={(e) => {
+        const parsed = parseNumber(e.target.value);
+        if (parsed !== null) onValue(parsed);
+      }}
+      className={inputClasses}
+    />
+  );
+
+  return (
+    <div className={`${isDarkMode ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'} p-4 rounded-lg shadow-sm`}>
+      <div className="flex justify-between items-center mb-1">
+        <h3 className="text-lg font-medium">World Profile</h3>
+        <button
+          onClick={() => onChange(DEFAULT_WORLD_PROFILE)}
+          className={`p-1 rounded-lg transition-colors duration-200 ${
+            isDarkMode ? 'hover:bg-gray-700 text-gray-300' : 'hover:bg-gray-100 text-gray-600'
+          }`}
+          title="Reset to default"
+        >
+          <RefreshCw size={16} />
+        </button>
+      </div>
+      <p className={`text-sm mb-4 ${mutedClasses}`}>
+        The world border and no-pearl zones of your server. Every new point is checked against them.
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <div>
+          <label htmlFor="worldOriginX" className={labelClasses}>Origin X</label>
+          {numberInput(profile.origin.x, x => onChange({ ...profile, origin: { ...profile.origin, x } }), 'worldOriginX')}
+        </div>
+        <div>
+          <label htmlFor="worldOriginZ" className={labelClasses}>Origin Z</label>
+          {numberInput(profile.origin.z, z => onChange({ ...profile, origin: { ...profile.origin, z } }), 'worldOriginZ')}
+        </div>
+        <div>
+          <label htmlFor="worldBorderShape" className={labelClasses}>Border</label>
+          <select
+            id="worldBorderShape"
+            value={profile.border.shape}
+            onChange={(e) => handleShapeChange(e.target.value as WorldBorder['shape'])}
+            className={inputClasses}
+          >
+            <option value="square">Square</option>
+            <option value="circle">Circle</option>
+          </select>
+        </div>
+        {profile.border.shape === 'square' ? (
+          <>
+            <div>
+              <label htmlFor="worldHalfWidth" className={labelClasses}>Half Width (X)</label>
+              {numberInput(profile.border.halfWidth, halfWidth => setBorder({ ...profile.border, halfWidth } as WorldBorder), 'worldHalfWidth')}
+            </div>
+            <div>
+              <label htmlFor="worldHalfDepth" className={labelClasses}>Half Depth (Z)</label>
+              {numberInput(profile.border.halfDepth, halfDepth => setBorder({ ...profile.border, halfDepth } as WorldBorder), 'worldHalfDepth')}
+            </div>
+          </>
+        ) : (
+          <div>
+            <label htmlFor="worldRadius" className={labelClasses}>Radius</label>
+            {numberInput(profile.border.radius, radius => setBorder({ shape: 'circle', radius }), 'worldRadius')}
+          </div>
+        )}
+      </div>
+
+      <div className="mt-6">
+        <div className="flex justify-between items-center mb-2">
+          <label className={labelClasses}>Exclusion Zones</label>
+          <button
+            onClick={() => onChange({ ...profile, exclusions: [...profile.exclusions, NEW_ZONE] })}
+            className={`inline-flex items-center px-2 py-1 rounded-md text-sm font-medium ${
+              isDarkMode ? 'text-blue-300 hover:bg-gray-700' : 'text-blue-600 hover:bg-gray-100'
+            }`}
+          >
+            <Plus size={14} className="mr-1" />
+            Add Zone
+          </button>
+        </div>
+        {profile.exclusions.length === 0 ? (
+          <p className={`text-sm ${mutedClasses}`}>No exclusion zones.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className={mutedClasses}>
+                {['Name', 'X min', 'X max', 'Z min', 'Z max'].map(heading => (
+                  <th key={heading} className="pr-2 pb-1 text-left font-medium">{heading}</th>
+                ))}
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {profile.exclusions.map((zone, index) => (
+                <tr key={index}>
+                  <td className="pr-2 py-1">
+                    <input
+                      type="text"
+                      value={zone.name}
+                      onChange={(e) => updateZone(index, { name: e.target.value })}
+                      className={inputClasses}
+                    />
+                  </td>
+                  {(['xMin', 'xMax', 'zMin', 'zMax'] as const).map(field => (
+                    <td key={field} className="pr-2 py-1">
+                      {numberInput(zone[field], value => updateZone(index, { [field]: value }))}
+                    </td>
+                  ))}
+                  <td className="py-1">
+                    <button
+                      onClick={() => onChange({ ...profile, exclusions: profile.exclusions.filter((_, i) => i !== index) })}
+                      className={`p-1 rounded ${isDarkMode ? 'text-red-400 hover:bg-gray-700' : 'text-red-600 hover:bg-gray-100'}`}
+                      title="Remove zone"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {problem && (
+        <p className={`mt-4 flex items-center text-sm ${isDarkMode ? 'text-red-300' : 'text-red-600'}`}>
+          <AlertTriangle size={14} className="mr-1 flex-shrink-0" />
+          {problem}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default WorldProfileEditor;
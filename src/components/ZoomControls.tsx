@@ -0,0 +1,41 @@
+import React from 'react';
+import { Maximize, ZoomIn, ZoomOut } from 'lucide-react';
+import { MAX_ZOOM } from '../utils/mapView';
+
+interface ZoomControlsProps {
+  zoom: number;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onReset: () => void;
+  isDarkMode?: boolean;
+}
+
+const ZoomControls: React.FC<ZoomControlsProps> = ({ zoom, onZoomIn, onZoomOut, onReset, isDarkMode = false }) => {
+  const isZoomed = zoom > 1.001;
+  const buttonClasses = `p-1.5 disabled:opacity-40 disabled:cursor-not-allowed ${
+    isDarkMode ? 'text-gray-200 hover:bg-gray-700' : 'text-gray-700 hover:bg-gray-100'
+  }`;
+
+  return (
+    <div
+      className={`absolute top-2 right-2 z-10 flex items-center rounded-md shadow-md border overflow-hidden ${
+        isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+      }`}
+    >
+      <button onClick={onZoomOut} disabled={!isZoomed} className={buttonClasses} title="Zoom out">
+        <ZoomOut size={16} />
+      </button>
+      <span className={`w-14 text-center text-xs font-medium tabular-nums ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+        {zoom < 10 ? zoom.toFixed(1) : Math.round(zoom)}×
+      </span>
+      <button onClick={onZoomIn} disabled={zoom >= MAX_ZOOM} className={buttonClasses} title="Zoom in">
+        <ZoomIn size={16} />
+      </button>
+      <button onClick={onReset} disabled={!isZoomed} className={buttonClasses} title="Reset view">
+        <Maximize size={16} />
+      </button>
+    </div>
+  );
+};
+
+export default ZoomControls;
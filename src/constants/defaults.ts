@@ -0,0 +1,18 @@
+import { ChartConfig, SeriesType } from '../types';
+
+export const ALL_SERIES: SeriesType[] = ['Cyan', 'Blue', 'White', 'Red', 'Magenta', 'Green', 'Yellow', 'Black'];
+
+// Initial chart configuration for a fresh hunt session
+export const DEFAULT_CHART_CONFIG: ChartConfig = {
+  xAxisLabel: 'X Coordinate',
+  zAxisLabel: 'Z Coordinate',
+  title: 'Pearl Hunt Graph',
+  showDataLabels: true,
+  dataLabelFontSize: 10,
+  pointSize: 6,
+  backgroundImage: '/preset-maps/example-map.PNG',
+  imageWidth: 530,
+  imageHeight: 534,
+  backgroundImageOpacity: 0.3,
+  backgroundImageScale: 1
+};
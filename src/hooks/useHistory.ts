@@ -0,0 +1,166 @@
+import { useEffect, useMemo, useReducer } from 'react';
+import { ChartConfig, DataPoint } from '../types';
+import {
+  HistoryCommand,
+  HistoryState,
+  HuntDocument,
+  changedConfigKeys,
+  executeCommand,
+  redo,
+  undo
+} from '../utils/history';
+
+type ConfigUpdate = ChartConfig | ((prev: ChartConfig) => ChartConfig);
+
+// Actions describe intent; the reducer turns them into commands against the
+// current document so batched updates never see a stale state.
+type HistoryAction =
+  | { type: 'addPoints'; points: DataPoint[]; label?: string }
+  | { type: 'deletePoints'; indices: number[]; label?: string }
+  | { type: 'updatePoints'; points: DataPoint[]; label?: string }
+  | { type: 'updateConfig'; update: ConfigUpdate; timestamp: number }
+  | { type: 'replaceDocument'; document: HuntDocument; label: string }
+  | { type: 'undo'; steps: number }
+  | { type: 'redo'; steps: number }
+  | { type: 'reset'; document: HuntDocument };
+
+const pluralize = (count: number, noun: string) => `${count} ${noun}${count !== 1 ? 's' : ''}`;
+
+function toCommand(present: HuntDocument, action: HistoryAction): HistoryCommand | null {
+  switch (action.type) {
+    case 'addPoints':
+      if (action.points.length === 0) return null;
+      return {
+        type: 'addPoints',
+        label: action.label ?? `Add ${pluralize(action.points.length, 'point')}`,
+        points: action.points
+      };
+    case 'deletePoints': {
+      const removed = Array.from(new Set(action.indices))
+        .filter(index => index >= 0 && index < present.data.length)
+        .map(index => ({ index, point: present.data[index] }));
+      if (removed.length === 0) return null;
+      return {
+        type: 'deletePoints',
+        label: action.label ?? `Delete ${pluralize(removed.length, 'point')}`,
+        removed
+      };
+    }
+    case 'updatePoints': {
+      // Each point replaces the existing point with the same id
+      const indexById = new Map(present.data.map((point, index) => [point.id, index]));
+      const changes = action.points.flatMap(after => {
+        const index = indexById.get(after.id);
+        return index === undefined ? [] : [{ index, before: present.data[index], after }];
+      });
+      if (changes.length === 0) return null;
+      return {
+        type: 'updatePoints',
+        label: action.label ?? `Edit ${pluralize(changes.length, 'point')}`,
+        changes
+      };
+    }
+    case 'updateConfig': {
+      const before = present.chartConfig;
+      const after = typeof action.update === 'function' ? action.update(before) : action.update;
+      const keys = changedConfigKeys(before, after);
+      if (keys.length === 0) return null;
+      return {
+        type: 'updateConfig',
+        label: `Change ${keys.join(', ')}`,
+        before,
+        after,
+        coalesceKey: keys.join(','),
+        timestamp: action.timestamp
+      };
+    }
+    case 'replaceDocument':
+      return { type: 'replaceDocument', label: action.label, before: present, after: action.document };
+    default:
+      return null;
+  }
+}
+
+function historyReducer(state: HistoryState, action: HistoryAction): HistoryState {
+  switch (action.type) {
+    case 'undo': {
+      let next = state;
+      for (let i = 0; i < action.steps; i++) next = undo(next);
+      return next;
+    }
+    case 'redo': {
+      let next = state;
+      for (let i = 0; i < action.steps; i++) next = redo(next);
+      return next;
+    }
+    case 'reset':
+      return { present: action.document, past: [], future: [] };
+    default: {
+      const command = toCommand(state.present, action);
+      return command ? executeCommand(state, command) : state;
+    }
+  }
+}
+
+/**
+ * Undoable hunt document. Every mutation goes through a command so it can be
+ * reverted; `reset` replaces the document and clears the history (used when
+ * restoring a saved session or starting fresh).
+ */
+export function useHistory(initial: HuntDocument) {
+  const [state, dispatch] = useReducer(historyReducer, {
+    present: initial,
+    past: [],
+    future: []
+  });
+
+  const actions = useMemo(() => ({
+    addPoints: (points: DataPoint[], label?: string) => dispatch({ type: 'addPoints', points, label }),
+    deletePoints: (indices: number[], label?: string) => dispatch({ type: 'deletePoints', indices, label }),
+    updatePoints: (points: DataPoint[], label?: string) => dispatch({ type: 'updatePoints', points, label }),
+    updateConfig: (update: ConfigUpdate) => dispatch({ type: 'updateConfig', update, timestamp: Date.now() }),
+    replaceDocument: (document: HuntDocument, label: string) => dispatch({ type: 'replaceDocument', document, label }),
+    reset: (document: HuntDocument) => dispatch({ type: 'reset', document }),
+    undo: (steps: number = 1) => dispatch({ type: 'undo', steps }),
+    redo: (steps: number = 1) => dispatch({ type: 'redo', steps })
+  }), []);
+
+  return {
+    document: state.present,
+    past: state.past,
+    future: state.future,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    ...actions
+  };
+}
+
+const NON_TEXT_INPUT_TYPES = ['range', 'checkbox', 'radio', 'button', 'submit', 'file', 'color'];
+
+// Text fields keep their native undo behaviour
+export const isTextEntry = (target: HTMLElement | null): boolean => {
+  if (!target) return false;
+  if (target.isContentEditable || target.tagName === 'TEXTAREA') return true;
+  return target instanceof HTMLInputElement && !NON_TEXT_INPUT_TYPES.includes(target.type);
+};
+
+// Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo
+export function useHistoryShortcuts(onUndo: () => void, onRedo: () => void) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      if (isTextEntry(e.target as HTMLElement | null)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        onUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        onRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onUndo, onRedo]);
+}
@@ -0,0 +1,144 @@
+import { RefObject, useEffect, useRef, useState } from 'react';
+import { MapView, panBy, zoomAt } from '../utils/mapView';
+
+// Pointer travel before a press turns into a pan, so plain clicks still work
+const DRAG_THRESHOLD_PX = 4;
+// Zoom factor per pixel of wheel delta
+const WHEEL_ZOOM_SPEED = 0.002;
+const LINE_HEIGHT_PX = 16;
+
+/**
+ * Wheel zoom, drag-to-pan and two-finger pinch on `containerRef`. Screen
+ * positions are converted to chart units through the canvas bounds, which
+ * already include any CSS scaling of the map. Returns whether a pan is in
+ * progress so the caller can show a grabbing cursor.
+ */
+export function useMapGestures(
+  containerRef: RefObject<HTMLElement>,
+  getCanvas: () => HTMLCanvasElement | undefined,
+  view: MapView,
+  full: MapView,
+  onViewChange?: (view: MapView) => void
+): { isPanning: boolean } {
+  const [isPanning, setIsPanning] = useState(false);
+  const latest = useRef({ view, full, onViewChange, getCanvas });
+  latest.current = { view, full, onViewChange, getCanvas };
+  const enabled = !!onViewChange;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !enabled) return;
+
+    const pointers = new Map<number, { x: number; y: number }>();
+    let start: { x: number; y: number } | null = null;
+    let panning = false;
+    let suppressClick = false;
+
+    const setView = (next: MapView) => {
+      // Several events can arrive before React re-renders with the new view
+      latest.current.view = next;
+      latest.current.onViewChange?.(next);
+    };
+
+    // Chart units under a screen position, plus the chart units per screen pixel
+    const toChart = (clientX: number, clientY: number) => {
+      const canvas = latest.current.getCanvas();
+      if (!canvas) return null;
+      const rect = canvas.getBoundingClientRect();
+      const { view } = latest.current;
+      const unitsPerPxX = (view.xMax - view.xMin) / rect.width;
+      const unitsPerPxY = (view.yMax - view.yMin) / rect.height;
+      return {
+        x: view.xMin + (clientX - rect.left) * unitsPerPxX,
+        y: view.yMin + (clientY - rect.top) * unitsPerPxY,
+        unitsPerPxX,
+        unitsPerPxY
+      };
+    };
+
+    const handleWheel = (e: WheelEvent) => {
+      const anchor = toChart(e.clientX, e.clientY);
+      if (!anchor) return;
+      e.preventDefault();
+      const deltaY = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * LINE_HEIGHT_PX : e.deltaY;
+      const { view, full } = latest.current;
+      setView(zoomAt(view, full, Math.exp(-deltaY * WHEEL_ZOOM_SPEED), anchor.x, anchor.y));
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.button !== 0) return;
+      // Controls layered over the map handle their own clicks
+      if ((e.target as Element).closest('button, input, select, textarea')) return;
+      suppressClick = false;
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (pointers.size === 1) start = { x: e.clientX, y: e.clientY };
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const last = pointers.get(e.pointerId);
+      if (!last) return;
+      const { view, full } = latest.current;
+
+      if (pointers.size === 1 && start) {
+        if (!panning) {
+          if (Math.hypot(e.clientX - start.x, e.clientY - start.y) < DRAG_THRESHOLD_PX) return;
+          panning = true;
+          setIsPanning(true);
+        }
+        const scale = toChart(e.clientX, e.clientY);
+        if (scale) {
+          const dx = -(e.clientX - last.x) * scale.unitsPerPxX;
+          const dy = -(e.clientY - last.y) * scale.unitsPerPxY;
+          setView(panBy(view, full, dx, dy));
+        }
+      } else if (pointers.size === 2) {
+        const other = Array.from(pointers.entries()).find(([id]) => id !== e.pointerId)?.[1];
+        if (other) {
+          const before = Math.hypot(last.x - other.x, last.y - other.y);
+          const after = Math.hypot(e.clientX - other.x, e.clientY - other.y);
+          const mid = toChart((e.clientX + other.x) / 2, (e.clientY + other.y) / 2);
+          if (mid && before > 0) {
+            setView(zoomAt(view, full, after / before, mid.x, mid.y));
+          }
+          panning = true;
+        }
+      }
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      if (!pointers.delete(e.pointerId)) return;
+      if (pointers.size === 0) {
+        suppressClick = panning;
+        panning = false;
+        start = null;
+        setIsPanning(false);
+      }
+    };
+
+    // A drag ends with a click on whatever is under the pointer; swallow it
+    const handleClick = (e: MouseEvent) => {
+      if (!suppressClick) return;
+      suppressClick = false;
+      e.stopPropagation();
+      e.preventDefault();
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    container.addEventListener('pointerdown', handlePointerDown);
+    container.addEventListener('click', handleClick, true);
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+    return () => {
+      container.removeEventListener('wheel', handleWheel);
+      container.removeEventListener('pointerdown', handlePointerDown);
+      container.removeEventListener('click', handleClick, true);
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+    };
+  }, [containerRef, enabled]);
+
+  return { isPanning };
+}
@@ -0,0 +1,96 @@
+import { RefObject, useEffect, useRef, useState } from 'react';
+import { SelectionMode, rectPolygon } from '../utils/selection';
+
+export type SelectionShape = 'box' | 'lasso';
+
+type ClientPoint = { x: number; y: number };
+
+// Pointer travel below which a press counts as a click on a single marker
+const CLICK_THRESHOLD_PX = 4;
+// Minimum spacing of lasso vertices, keeps long drags cheap
+const LASSO_STEP_PX = 3;
+
+export interface SelectionGesture {
+  shape: SelectionShape;
+  path: ClientPoint[]; // viewport coordinates; box is [start, current]
+}
+
+/**
+ * Rectangle or freehand lasso selection on `containerRef`. Like marker
+ * dragging it listens in the capture phase so the press never starts a pan.
+ * On release `onSelect` receives the selected area as a polygon in viewport
+ * coordinates, or `click` when the pointer barely moved. Shift adds to the
+ * selection, Ctrl/Cmd toggles, otherwise it is replaced.
+ */
+export function useMapSelection(
+  containerRef: RefObject<HTMLElement>,
+  shape: SelectionShape | null,
+  onSelect: (area: { polygon: ClientPoint[] } | { click: ClientPoint }, mode: SelectionMode) => void
+): SelectionGesture | null {
+  const [gesture, setGesture] = useState<SelectionGesture | null>(null);
+  const latest = useRef(onSelect);
+  latest.current = onSelect;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !shape) return;
+
+    let current: (SelectionGesture & { pointerId: number; mode: SelectionMode }) | null = null;
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.button !== 0 || (e.target as Element).closest('button')) return;
+      e.stopPropagation();
+      e.preventDefault();
+      const start = { x: e.clientX, y: e.clientY };
+      current = {
+        shape,
+        path: [start, start],
+        pointerId: e.pointerId,
+        mode: e.shiftKey ? 'add' : e.ctrlKey || e.metaKey ? 'toggle' : 'replace'
+      };
+      setGesture(current);
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (!current || e.pointerId !== current.pointerId) return;
+      const point = { x: e.clientX, y: e.clientY };
+      if (current.shape === 'box') {
+        current = { ...current, path: [current.path[0], point] };
+      } else {
+        const last = current.path[current.path.length - 1];
+        if (Math.hypot(point.x - last.x, point.y - last.y) < LASSO_STEP_PX) return;
+        current = { ...current, path: [...current.path, point] };
+      }
+      setGesture(current);
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      if (!current || e.pointerId !== current.pointerId) return;
+      const { path, mode } = current;
+      current = null;
+      setGesture(null);
+      const start = path[0];
+      const travel = Math.max(...path.map(point => Math.hypot(point.x - start.x, point.y - start.y)));
+      if (travel < CLICK_THRESHOLD_PX) {
+        latest.current({ click: start }, mode);
+      } else if (shape === 'box') {
+        latest.current({ polygon: rectPolygon(path[0], path[1]) }, mode);
+      } else {
+        latest.current({ polygon: path }, mode);
+      }
+    };
+
+    container.addEventListener('pointerdown', handlePointerDown, true);
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+    return () => {
+      container.removeEventListener('pointerdown', handlePointerDown, true);
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+    };
+  }, [containerRef, shape]);
+
+  return gesture;
+}
@@ -0,0 +1,108 @@
+import { MutableRefObject, RefObject, useEffect, useRef, useState } from 'react';
+import { Chart as ChartJS } from 'chart.js';
+import { WorldProfile } from '../types';
+import { validateCoordinates } from '../utils/worldProfile';
+
+export interface PointDrag {
+  id: string;
+  world: { x: number; z: number }; // last allowed position, snapped to whole blocks
+  blockedReason: string | null;    // why the pointer position itself is not allowed
+  clientX: number;
+  clientY: number;
+}
+
+/**
+ * Grab a marker and drag it to a new world position. Listens in the capture
+ * phase on `containerRef` so a press on a marker never starts a map pan.
+ * Positions snap to whole blocks; positions outside the world border or inside
+ * an exclusion zone are refused and the marker stays at the last allowed spot.
+ */
+export function usePointDrag(
+  containerRef: RefObject<HTMLElement>,
+  chartRef: MutableRefObject<ChartJS<'scatter'> | null>,
+  clientToWorld: (clientX: number, clientY: number) => { x: number; z: number } | null,
+  getPointWorld: (id: string) => { x: number; z: number } | undefined,
+  profile: WorldProfile,
+  onPointMove?: (id: string, world: { x: number; z: number }) => void
+): PointDrag | null {
+  const [drag, setDrag] = useState<PointDrag | null>(null);
+  const latest = useRef({ clientToWorld, getPointWorld, profile, onPointMove });
+  latest.current = { clientToWorld, getPointWorld, profile, onPointMove };
+  const enabled = !!onPointMove;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !enabled) return;
+
+    // `offset` keeps the marker where it was grabbed instead of jumping to the pointer
+    let current: (PointDrag & {
+      pointerId: number;
+      start: { x: number; z: number };
+      offset: { x: number; z: number };
+    }) | null = null;
+
+    const handlePointerDown = (e: PointerEvent) => {
+      const chart = chartRef.current;
+      if (e.button !== 0 || !chart) return;
+      const [hit] = chart.getElementsAtEventForMode(e, 'nearest', { intersect: true }, false);
+      if (!hit) return;
+      const raw = chart.data.datasets[hit.datasetIndex].data[hit.index] as unknown as { id?: string };
+      const pointer = latest.current.clientToWorld(e.clientX, e.clientY);
+      const start = raw?.id ? latest.current.getPointWorld(raw.id) : undefined;
+      if (!raw?.id || !pointer || !start) return;
+
+      e.stopPropagation();
+      e.preventDefault();
+      current = {
+        id: raw.id,
+        world: start,
+        start,
+        offset: { x: start.x - pointer.x, z: start.z - pointer.z },
+        blockedReason: null,
+        clientX: e.clientX,
+        clientY: e.clientY,
+        pointerId: e.pointerId
+      };
+      setDrag(current);
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (!current || e.pointerId !== current.pointerId) return;
+      const pointer = latest.current.clientToWorld(e.clientX, e.clientY);
+      if (!pointer) return;
+      const snapped = { x: Math.round(pointer.x + current.offset.x), z: Math.round(pointer.z + current.offset.z) };
+      const blockedReason = validateCoordinates(snapped.x, snapped.z, latest.current.profile);
+      current = {
+        ...current,
+        world: blockedReason ? current.world : snapped,
+        blockedReason,
+        clientX: e.clientX,
+        clientY: e.clientY
+      };
+      setDrag(current);
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      if (!current || e.pointerId !== current.pointerId) return;
+      const { id, world, start } = current;
+      current = null;
+      setDrag(null);
+      if (world.x !== start.x || world.z !== start.z) {
+        latest.current.onPointMove?.(id, world);
+      }
+    };
+
+    container.addEventListener('pointerdown', handlePointerDown, true);
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+    return () => {
+      container.removeEventListener('pointerdown', handlePointerDown, true);
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+    };
+  }, [containerRef, chartRef, enabled]);
+
+  return drag;
+}
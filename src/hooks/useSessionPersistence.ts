@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { HuntSession, SavedSession } from '../types';
+import { clearSession, loadSession, saveSession } from '../utils/sessionStore';
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+interface SessionPersistence {
+  isRestoring: boolean;
+  restoredAt: number | null; // savedAt of the session we restored, if any
+  dismissRestored: () => void;
+  imageNotSaved: boolean; // the background image did not fit in storage
+  dismissImageNotSaved: () => void;
+  startFresh: () => Promise<void>;
+}
+
+/**
+ * Restores the last saved session on mount and debounces autosaves of
+ * `session` afterwards. Nothing is written until the restore attempt has
+ * finished, so the default state never overwrites a stored session.
+ */
+export function useSessionPersistence(
+  session: HuntSession,
+  onRestore: (session: SavedSession) => void,
+  delay: number = AUTOSAVE_DELAY_MS
+): SessionPersistence {
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [restoredAt, setRestoredAt] = useState<number | null>(null);
+  const [imageNotSaved, setImageNotSaved] = useState(false);
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+  const pendingRef = useRef<HuntSession | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSession()
+      .then((saved) => {
+        if (cancelled || !saved) return;
+        onRestoreRef.current(saved);
+        if (saved.data.length > 0) {
+          setRestoredAt(saved.savedAt);
+        }
+      })
+      .catch((error) => console.error('Failed to restore session:', error))
+      .finally(() => {
+        if (!cancelled) setIsRestoring(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const flush = useCallback(() => {
+    const pending = pendingRef.current;
+    if (!pending) return;
+    pendingRef.current = null;
+    saveSession(pending)
+      .then((result) => {
+        if (result.imageFailed) setImageNotSaved(true);
+      })
+      .catch((error) => console.error('Failed to save session:', error));
+  }, []);
+
+  // Debounced autosave
+  useEffect(() => {
+    if (isRestoring) return;
+    pendingRef.current = session;
+    const timer = window.setTimeout(flush, delay);
+    return () => window.clearTimeout(timer);
+  }, [session, isRestoring, delay, flush]);
+
+  // Don't lose the last edits when the tab is hidden or closed mid-debounce
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', flush);
+    };
+  }, [flush]);
+
+  const dismissRestored = useCallback(() => setRestoredAt(null), []);
+  const dismissImageNotSaved = useCallback(() => setImageNotSaved(false), []);
+
+  const startFresh = useCallback(async () => {
+    pendingRef.current = null;
+    setRestoredAt(null);
+    await clearSession();
+  }, []);
+
+  return { isRestoring, restoredAt, dismissRestored, imageNotSaved, dismissImageNotSaved, startFresh };
+}
@@ -8,24 +8,36 @@ import { Plugin, Chart } from 'chart.js';
 
 /**
  * Patch a scale so `getPixelForValue(min)` returns the exact edge pixel.
- * We do this by measuring the current pixel for the min, computing the
- * delta from the desired edge, and then overriding `getPixelForValue` to
- * subtract that delta for all future calls.
+ * We do this by measuring the pixel the unpatched scale gives for the min,
+ * computing the delta from the desired edge, and then overriding
+ * `getPixelForValue` (and its inverse) to subtract that delta.
+ *
+ * Zooming and panning change the scale range, so the delta is re-measured
+ * whenever min, max or the edge move.
  */
 function patchScale(scale: any, edgePx: number) {
-  if (scale._edgeAligned) return; // already patched
-  const original = scale.getPixelForValue.bind(scale);
-  const current = original(scale.min);
-  const delta = current - edgePx;
+  const key = `${scale.min}:${scale.max}:${edgePx}`;
+  if (scale._edgeAlignKey === key) return; // already patched for this range
+
+  // Keep the unpatched methods so each re-patch measures from scratch
+  if (!scale._originalGetPixelForValue) {
+    scale._originalGetPixelForValue = scale.getPixelForValue.bind(scale);
+    scale._originalGetValueForPixel = scale.getValueForPixel.bind(scale);
+  }
+  const original = scale._originalGetPixelForValue;
+  const originalInverse = scale._originalGetValueForPixel;
+  const delta = original(scale.min) - edgePx;
+  scale._edgeAlignKey = key;
 
   if (Math.abs(delta) < 0.5) {
     // Already aligned to sub-pixel precision; nothing to do.
-    scale._edgeAligned = true;
+    scale.getPixelForValue = original;
+    scale.getValueForPixel = originalInverse;
     return;
   }
 
   scale.getPixelForValue = (value: number) => original(value) - delta;
-  scale._edgeAligned = true;
+  scale.getValueForPixel = (pixel: number) => originalInverse(pixel + delta);
 }
 
 const BorderAlignPlugin: Plugin<'scatter'> = {
@@ -1,14 +1,26 @@
 // src/plugins/ChartJsLabelPlugin.ts
 import { Plugin, Chart, ScatterDataPoint, Scale, CoreScaleOptions } from "chart.js";
-import { LabelPlacer } from "../utils/LabelPlacer";
 import { measureText } from "../utils/measureText";
-import { Point } from "../utils/types";
+import { LabelBox, PlacementMode, Point } from "../utils/types";
+import {
+  IncrementalLabelLayout,
+  LABEL_PLACER_OPTIONS,
+  LabelDebugEntry,
+  LabelLayoutRequest,
+  LabelLayoutResult,
+  LabelWorkerRequest,
+  LabelWorkerResponse
+} from "../utils/labelLayoutCache";
 
 // Define our custom plugin options
 interface LabelPlacerPluginOptions {
   enabled?: boolean;
   dataLabelFontSize?: number;
-  debug?: boolean;
+  debug?: boolean;       // draw scored candidates, placed boxes and dropped labels
+  mode?: PlacementMode;  // greedy (default) or annealed placement
+  timeBudgetMs?: number; // annealing time budget
+  callouts?: boolean;    // side column for labels that fit nowhere (default on)
+  rotate?: boolean;      // allow diagonal and vertical labels
 }
 
 interface ExtendedScale extends Scale<CoreScaleOptions> {
@@ -48,9 +60,9 @@ interface ChartWithScales extends Omit<Chart, 'scales' | 'options'> {
 
 // Extend the Point interface to include additional properties
 interface ExtendedPoint extends Point {
+  id: string;
   backgroundColor?: string;
   _orig?: unknown;
-  allPoints?: Point[];
 }
 
 // Helper function to get theme colors based on chart options
@@ -63,143 +75,532 @@ const getThemeColors = (chart: ChartWithScales) => {
     line: isDark ? 'rgba(255, 0, 0, 0.5)' : 'rgba(255, 0, 0, 0.3)',
     debugText: isDark ? 'rgba(0, 255, 0, 0.8)' : 'rgba(0, 100, 0, 0.8)',
     debugBg: isDark ? 'rgba(0, 0, 0, 0.7)' : 'rgba(255, 255, 255, 0.7)',
+    debugBox: isDark ? 'rgba(34, 211, 238, 0.9)' : 'rgba(8, 145, 178, 0.9)',
+    debugDropped: 'rgba(239, 68, 68, 0.9)',
   };
 };
 
+// Result of a placement run, kept separate from rendering so other outputs
+// (SVG export, overlays) can reuse the exact same label positions
+export interface LabelLayout {
+  boxes: LabelBox[];
+  fontSize: number;
+  fontFamily: string;
+}
+
+export const LABEL_FONT_FAMILY = '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif';
+
+// Placement debug data in canvas pixels: every label that was scored, at
+// the current position of its point, with candidates moved along
+export interface LabelDebugLabel extends LabelDebugEntry {
+  pointX: number;
+  pointY: number;
+}
+
+export interface LabelDebugView {
+  labels: LabelDebugLabel[];
+  placed: number;
+  dropped: number;
+}
+
+// Candidates scoring this low overlap something and are never used
+export const BLOCKED_SCORE = -LABEL_PLACER_OPTIONS.overlapPenalty;
+
+// Last layout drawn for each chart instance
+const lastLayouts = new WeakMap<Chart, LabelLayout>();
+// Debug data drawn with it, for charts with the debug overlay on
+const debugViews = new WeakMap<Chart, LabelDebugView>();
+
+// Measured label widths by font and text; redraws measure the same strings again and again
+const widthCache = new Map<string, number>();
+const WIDTH_CACHE_LIMIT = 5000;
+
+const measureWidth = (ctx: CanvasRenderingContext2D, text: string, font: string): number => {
+  const key = `${font}|${text}`;
+  let width = widthCache.get(key);
+  if (width === undefined) {
+    if (widthCache.size >= WIDTH_CACHE_LIMIT) widthCache.clear();
+    width = measureText(ctx, text, font).width;
+    widthCache.set(key, width);
+  }
+  return width;
+};
+
+const pluginOptionsOf = (chart: Chart): LabelPlacerPluginOptions =>
+  (chart as unknown as ChartWithScales).options?.plugins?.labelPlacer ?? {};
+
+const labelFont = (chart: Chart) => {
+  // Use font size from chart options if available
+  const fontSize = Math.round(pluginOptionsOf(chart).dataLabelFontSize || 12);
+  return { fontSize, font: `${fontSize}px ${LABEL_FONT_FAMILY}` };
+};
+
+// 1) Prepare Point objects from all datasets, for points inside the visible area
+function collectLabelPoints(chart: Chart, fallbackColor: string, font: string): ExtendedPoint[] {
+  const ctx = chart.ctx;
+  const points: ExtendedPoint[] = [];
+  const height = parseInt(font, 10);
+
+  (chart.data.datasets || []).forEach((dataset, datasetIndex) => {
+    const datasetPoints = Array.isArray(dataset.data) ? dataset.data : [];
+    datasetPoints.forEach((pt: ScatterDataPoint | unknown, index) => {
+      const pointData = pt as ScatterDataPoint & { label?: string; backgroundColor?: string; id?: string };
+      if (pointData && 'label' in pointData && pointData.label) {
+        // get pixel coordinates from chart's scales:
+        const xScale = (chart as ChartWithScales).scales.x;
+        const yScale = (chart as ChartWithScales).scales.y;
+        const xValue = Number(pointData.x);
+        const yValue = Number(pointData.y);
+        
+        if (isNaN(xValue) || isNaN(yValue)) {
+          return; // Skip invalid data points
+        }
+        
+        const pixelX = xScale.getPixelForValue(xValue);
+        const pixelY = yScale.getPixelForValue(yValue);
+
+        // Only label what is on screen; zoomed-out-of-view points are skipped
+        const { left, right, top, bottom } = chart.chartArea;
+        if (pixelX < left || pixelX > right || pixelY < top || pixelY > bottom) {
+          return;
+        }
+        
+        // Extract just the coordinate part from the label (e.g., "(1, 2)" from "Red (1, 2)")
+        const labelText = String(pointData.label || '');
+        const coordMatch = labelText.match(/\([\d.-]+\s*,\s*[\d.-]+\)/);
+        const cleanLabel = coordMatch ? coordMatch[0] : labelText;
+        
+        const point: ExtendedPoint = {
+          id: pointData.id ?? `${datasetIndex}:${index}`,
+          x: pixelX,
+          y: pixelY,
+          text: cleanLabel,
+          width: measureWidth(ctx, cleanLabel, font),
+          height
+        };
+        
+        // Add optional properties
+        if (pointData.backgroundColor) {
+          point.backgroundColor = pointData.backgroundColor;
+        } else if (dataset.backgroundColor) {
+          point.backgroundColor = dataset.backgroundColor as string;
+        } else {
+          point.backgroundColor = fallbackColor;
+        }
+        
+        point._orig = pointData;
+        
+        points.push(point);
+      }
+    });
+  });
+
+  return points;
+}
+
+const toRequest = (chart: Chart, points: ExtendedPoint[], font: string): LabelLayoutRequest => ({
+  width: chart.chartArea.right - chart.chartArea.left,
+  height: chart.chartArea.bottom - chart.chartArea.top,
+  font,
+  mode: pluginOptionsOf(chart).mode ?? 'greedy',
+  timeBudgetMs: pluginOptionsOf(chart).timeBudgetMs ?? LABEL_PLACER_OPTIONS.timeBudgetMs,
+  callouts: pluginOptionsOf(chart).callouts ?? true,
+  rotate: pluginOptionsOf(chart).rotate ?? false,
+  debug: pluginOptionsOf(chart).debug ?? false,
+  points: points.map(({ id, x, y, text, width, height }) => ({ id, x, y, text, width, height }))
+});
+
+// Identifies a request; layouts are only recomputed when this changes
+const requestKey = (request: LabelLayoutRequest) =>
+  `${request.width}x${request.height}|${request.font}|${request.mode}:${request.timeBudgetMs}:${request.callouts}:${request.rotate}:${request.debug}|` +
+  request.points.map(point => `${point.id}:${Math.round(point.x)},${Math.round(point.y)}:${point.text}`).join(';');
+
+// A placed label relative to the point it is drawn next to, so the last good
+// layout can follow its points while a newer one is still being computed
+interface LabelOffset {
+  anchorId: string;
+  dx: number;
+  dy: number;
+  width: number;
+  height: number;
+  rotation: number;
+  text: string;
+  leader?: { dx: number; dy: number };
+  callout?: boolean;
+}
+
+const toOffsets = (request: LabelLayoutRequest, result: LabelLayoutResult): LabelOffset[] => {
+  const anchors = new Map(request.points.map(point => [point.id, point]));
+  return result.labels.flatMap(label => {
+    const anchor = anchors.get(label.anchorId);
+    return anchor
+      ? [{
+          anchorId: label.anchorId,
+          dx: label.x - anchor.x,
+          dy: label.y - anchor.y,
+          width: label.width,
+          height: label.height,
+          rotation: label.rotation,
+          text: label.text,
+          leader: label.leader && { dx: label.leader.x - anchor.x, dy: label.leader.y - anchor.y },
+          callout: label.callout
+        }]
+      : [];
+  });
+};
+
+// Place the labels of a layout next to where their points are now
+const toBoxes = (offsets: LabelOffset[], points: ExtendedPoint[]): LabelBox[] => {
+  const byId = new Map(points.map(point => [point.id, point]));
+  return offsets.flatMap(offset => {
+    const point = byId.get(offset.anchorId);
+    return point
+      ? [{
+          x: point.x + offset.dx,
+          y: point.y + offset.dy,
+          width: offset.width,
+          height: offset.height,
+          rotation: offset.rotation,
+          text: offset.text,
+          forPoint: point,
+          leader: offset.leader && { x: point.x + offset.leader.dx, y: point.y + offset.leader.dy },
+          callout: offset.callout
+        }]
+      : [];
+  });
+};
+
+// Debug entries with the position of their anchor point when they were scored
+interface LabelDebugOffset {
+  entry: LabelDebugEntry;
+  anchorX: number;
+  anchorY: number;
+}
+
+const toDebugOffsets = (request: LabelLayoutRequest, result: LabelLayoutResult): LabelDebugOffset[] => {
+  const anchors = new Map(request.points.map(point => [point.id, point]));
+  return (result.debug ?? []).flatMap(entry => {
+    const anchor = anchors.get(entry.anchorId);
+    return anchor ? [{ entry, anchorX: anchor.x, anchorY: anchor.y }] : [];
+  });
+};
+
+const toDebugView = (offsets: LabelDebugOffset[], points: ExtendedPoint[]): LabelDebugView => {
+  const byId = new Map(points.map(point => [point.id, point]));
+  const labels = offsets.flatMap(({ entry, anchorX, anchorY }): LabelDebugLabel[] => {
+    const point = byId.get(entry.anchorId);
+    if (!point) return [];
+    const dx = point.x - anchorX;
+    const dy = point.y - anchorY;
+    return [{
+      ...entry,
+      candidates: entry.candidates.map(candidate => ({ ...candidate, x: candidate.x + dx, y: candidate.y + dy })),
+      pointX: point.x,
+      pointY: point.y
+    }];
+  });
+  const placed = labels.filter(label => label.placed).length;
+  return { labels, placed, dropped: labels.length - placed };
+};
+
+interface ChartLabelState {
+  chart: Chart;
+  channel: number;
+  key: string | null;                       // last request sent
+  inFlight: LabelLayoutRequest | null;      // being placed by the worker
+  queued: LabelLayoutRequest | null;        // newest request, sent once the worker is free
+  offsets: LabelOffset[];                   // last good layout
+  debug: LabelDebugOffset[];                // its scored candidates, for debug requests
+  local: IncrementalLabelLayout | null;     // main-thread layout when workers are unavailable
+}
+
+const chartStates = new WeakMap<Chart, ChartLabelState>();
+const statesByChannel = new Map<number, ChartLabelState>();
+let nextChannel = 1;
+let nextRequestId = 1;
+let worker: Worker | null | undefined;
+
+function handleWorkerMessage(e: MessageEvent<LabelWorkerResponse>) {
+  const state = statesByChannel.get(e.data.channel);
+  if (!state || !state.inFlight) return; // chart destroyed meanwhile
+  applyResult(state, state.inFlight, e.data.result);
+  state.inFlight = null;
+  if (state.queued) {
+    send(state, state.queued);
+    state.queued = null;
+  }
+  state.chart.draw();
+}
+
+// A placement failed in the worker: drop it and place every pending layout
+// on the main thread from now on
+function handleWorkerError(error: unknown) {
+  console.error('Label worker failed, placing labels on the main thread:', error);
+  worker?.terminate();
+  worker = null;
+  for (const state of statesByChannel.values()) {
+    if (!state.inFlight && !state.queued) continue;
+    state.inFlight = null;
+    state.queued = null;
+    state.key = null; // the next draw requests its layout again
+    state.chart.draw();
+  }
+}
+
+// The shared label worker, or null where workers are unavailable
+function getWorker(): Worker | null {
+  if (worker !== undefined) return worker;
+  if (typeof Worker === 'undefined') {
+    worker = null;
+    return worker;
+  }
+  try {
+    worker = new Worker(new URL('../workers/labelWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = handleWorkerMessage;
+    worker.onerror = (e) => handleWorkerError(e.message || e);
+    worker.onmessageerror = handleWorkerError;
+  } catch (error) {
+    console.error('Label worker unavailable, placing labels on the main thread:', error);
+    worker = null;
+  }
+  return worker;
+}
+
+function applyResult(state: ChartLabelState, request: LabelLayoutRequest, result: LabelLayoutResult) {
+  state.offsets = toOffsets(request, result);
+  state.debug = toDebugOffsets(request, result);
+}
+
+function send(state: ChartLabelState, request: LabelLayoutRequest) {
+  state.inFlight = request;
+  const message: LabelWorkerRequest = { type: 'layout', channel: state.channel, requestId: nextRequestId++, request };
+  worker?.postMessage(message);
+}
+
+function getState(chart: Chart): ChartLabelState {
+  let state = chartStates.get(chart);
+  if (!state) {
+    state = { chart, channel: nextChannel++, key: null, inFlight: null, queued: null, offsets: [], debug: [], local: null };
+    chartStates.set(chart, state);
+    statesByChannel.set(state.channel, state);
+  }
+  return state;
+}
+
+// Ask for a layout of `request` unless it is the one already placed or pending
+function requestLayout(state: ChartLabelState, request: LabelLayoutRequest) {
+  const key = requestKey(request);
+  if (key === state.key) return;
+  state.key = key;
+
+  if (!getWorker()) {
+    state.local ??= new IncrementalLabelLayout();
+    applyResult(state, request, state.local.update(request));
+  } else if (state.inFlight) {
+    state.queued = request;
+  } else {
+    send(state, request);
+  }
+}
+
+// 2) Place labels for every labelled point in the chart, synchronously
+export function computeLabelLayout(chart: Chart): LabelLayout {
+  const theme = getThemeColors(chart as unknown as ChartWithScales);
+  const { fontSize, font } = labelFont(chart);
+  const points = collectLabelPoints(chart, theme.text, font);
+  const request = { ...toRequest(chart, points, font), debug: false };
+
+  return {
+    boxes: toBoxes(toOffsets(request, new IncrementalLabelLayout().update(request)), points),
+    fontSize,
+    fontFamily: LABEL_FONT_FAMILY
+  };
+}
+
+// The layout drawn most recently for `chart`, computing one if none exists yet
+export function getLabelLayout(chart: Chart): LabelLayout {
+  return lastLayouts.get(chart) ?? computeLabelLayout(chart);
+}
+
+// Debug data drawn most recently for `chart`, or null while its overlay is off
+export function getLabelDebug(chart: Chart): LabelDebugView | null {
+  return debugViews.get(chart) ?? null;
+}
+
+// Colour a label is drawn in
+export const labelColor = (label: LabelBox, fallback: string): string =>
+  (label.forPoint as ExtendedPoint).backgroundColor || fallback;
+
+// 3) Draw labels on top, after the leader lines of labels placed away from their points
+function drawLeaders(ctx: CanvasRenderingContext2D, layout: LabelLayout, fallbackColor: string) {
+  ctx.save();
+  ctx.lineWidth = 1;
+  ctx.globalAlpha = 0.8;
+  for (const label of layout.boxes) {
+    if (!label.leader) continue;
+    ctx.strokeStyle = labelColor(label, fallbackColor);
+    ctx.beginPath();
+    ctx.moveTo(label.forPoint.x, label.forPoint.y);
+    ctx.lineTo(label.leader.x, label.leader.y);
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+// Best and worst usable score among the candidates of a label
+export function scoreRange(label: LabelDebugEntry): { best: number; worst: number } {
+  const usable = label.candidates.map(candidate => candidate.score).filter(score => score > BLOCKED_SCORE);
+  return { best: Math.max(...usable), worst: Math.min(...usable) };
+}
+
+// Heat colour of a candidate: green for the best score of its label, red for
+// the worst usable one, grey when it overlaps something
+export function candidateColor(score: number, range: { best: number; worst: number }): string {
+  if (score <= BLOCKED_SCORE) return 'rgba(156, 163, 175, 0.6)';
+  const t = range.best > range.worst ? (score - range.worst) / (range.best - range.worst) : 1;
+  return `hsla(${Math.round(t * 120)}, 85%, 45%, 0.85)`;
+}
+
+// Outline of a label box, turned about its centre like the label itself
+function strokeBox(ctx: CanvasRenderingContext2D, box: { x: number; y: number; width: number; height: number; rotation: number }) {
+  ctx.save();
+  ctx.translate(box.x + box.width / 2, box.y + box.height / 2);
+  if (box.rotation) ctx.rotate(box.rotation);
+  ctx.strokeRect(-box.width / 2, -box.height / 2, box.width, box.height);
+  ctx.restore();
+}
+
+// Debug overlay: candidates as heat dots, placed boxes outlined, dropped labels
+// ringed in red with their best (blocked) candidate dashed
+function drawDebug(chart: Chart, view: LabelDebugView, layout: LabelLayout) {
+  const ctx = chart.ctx;
+  const theme = getThemeColors(chart as unknown as ChartWithScales);
+  ctx.save();
+  for (const label of view.labels) {
+    const range = scoreRange(label);
+    for (const candidate of label.candidates) {
+      ctx.fillStyle = candidateColor(candidate.score, range);
+      ctx.beginPath();
+      ctx.arc(candidate.x + label.width / 2, candidate.y + label.height / 2, 2, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }
+
+  ctx.lineWidth = 1;
+  ctx.strokeStyle = theme.debugBox;
+  for (const box of layout.boxes) strokeBox(ctx, box);
+
+  ctx.strokeStyle = theme.debugDropped;
+  for (const label of view.labels) {
+    if (label.placed) continue;
+    ctx.beginPath();
+    ctx.arc(label.pointX, label.pointY, 7, 0, Math.PI * 2);
+    ctx.stroke();
+    const best = label.candidates.reduce<LabelDebugEntry['candidates'][number] | null>(
+      (top, candidate) => (!top || candidate.score > top.score ? candidate : top),
+      null
+    );
+    if (best) {
+      ctx.setLineDash([3, 3]);
+      strokeBox(ctx, { ...best, width: label.width, height: label.height });
+      ctx.setLineDash([]);
+    }
+  }
+
+  // Counts in the top-left corner of the chart area
+  const text = `${view.placed} placed · ${view.dropped} dropped`;
+  ctx.font = `11px ${LABEL_FONT_FAMILY}`;
+  ctx.textBaseline = 'top';
+  const width = ctx.measureText(text).width;
+  ctx.fillStyle = theme.debugBg;
+  ctx.fillRect(chart.chartArea.left + 4, chart.chartArea.top + 4, width + 8, 17);
+  ctx.fillStyle = theme.debugText;
+  ctx.fillText(text, chart.chartArea.left + 8, chart.chartArea.top + 7);
+  ctx.restore();
+}
+
+function drawLabels(ctx: CanvasRenderingContext2D, layout: LabelLayout, fallbackColor: string) {
+  drawLeaders(ctx, layout, fallbackColor);
+  ctx.save();
+  
+  // Disable image smoothing for sharp text rendering
+  ctx.imageSmoothingEnabled = false;
+  
+  // Set text rendering for sharpness
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  
+  // Use system-ui font for better rendering
+  ctx.font = `${layout.fontSize}px ${layout.fontFamily}`;
+  
+  // Disable subpixel rendering
+  ctx.translate(0.5, 0.5);
+  
+  for (const label of layout.boxes) {
+    ctx.save();
+    
+    // Round to nearest pixel for sharp rendering
+    const cx = Math.round(label.x + label.width / 2);
+    const cy = Math.round(label.y + label.height / 2);
+    
+    // Draw the label text with crisp rendering, turned about its centre
+    ctx.translate(cx, cy);
+    if (label.rotation) ctx.rotate(label.rotation);
+    ctx.fillStyle = labelColor(label, fallbackColor);
+    
+    // Draw text with crisp rendering
+    ctx.translate(-0.5, -0.5); // Offset for sharpness
+    ctx.fillText(label.text, 0, 0);
+    
+    ctx.restore();
+  }
+
+  ctx.restore();
+}
+
 const ChartJsLabelPlugin: Plugin<"scatter"> = {
   id: "chartJsLabelPlugin",
   afterDraw: (chart: Chart) => {
-    const ctx = chart.ctx;
-    const chartArea = chart.chartArea;
     const theme = getThemeColors(chart as unknown as ChartWithScales);
     const pluginOptions = (chart as ChartWithScales).options?.plugins?.labelPlacer;
     
     // Skip if plugin is disabled
     if (pluginOptions?.enabled === false) {
+      lastLayouts.set(chart, { boxes: [], fontSize: pluginOptions?.dataLabelFontSize || 12, fontFamily: LABEL_FONT_FAMILY });
+      debugViews.delete(chart);
       return;
     }
     
     try {
-      // 1) Prepare Point objects from all datasets
-      const points: Point[] = [];
-      const pointMap = new Map<string, Point>();
-      
-      (chart.data.datasets || []).forEach(dataset => {
-        const datasetPoints = Array.isArray(dataset.data) ? dataset.data : [];
-        datasetPoints.forEach((pt: ScatterDataPoint | unknown) => {
-          const pointData = pt as ScatterDataPoint & { label?: string; backgroundColor?: string };
-          if (pointData && 'label' in pointData && pointData.label) {
-            // get pixel coordinates from chart's scales:
-            const xScale = (chart as ChartWithScales).scales.x;
-            const yScale = (chart as ChartWithScales).scales.y;
-            const xValue = Number(pointData.x);
-            const yValue = Number(pointData.y);
-            
-            if (isNaN(xValue) || isNaN(yValue)) {
-              return; // Skip invalid data points
-            }
-            
-            const pixelX = xScale.getPixelForValue(xValue);
-            const pixelY = yScale.getPixelForValue(yValue);
-            
-            // Extract just the coordinate part from the label (e.g., "(1, 2)" from "Red (1, 2)")
-            const labelText = String(pointData.label || '');
-            const coordMatch = labelText.match(/\([\d.-]+\s*,\s*[\d.-]+\)/);
-            const cleanLabel = coordMatch ? coordMatch[0] : labelText;
-            
-            const point: ExtendedPoint = {
-              x: pixelX,
-              y: pixelY,
-              text: cleanLabel,
-              width: measureText(ctx, cleanLabel, "12px sans-serif").width,
-              height: measureText(ctx, cleanLabel).height // Using default font for height
-            };
-            
-            // Add optional properties
-            if (pointData.backgroundColor) {
-              point.backgroundColor = pointData.backgroundColor;
-            } else if (dataset.backgroundColor) {
-              point.backgroundColor = dataset.backgroundColor as string;
-            } else {
-              point.backgroundColor = theme.text;
-            }
-            
-            point._orig = pointData;
-            point.allPoints = []; // Will be set below
-            
-            points.push(point);
-            pointMap.set(`${pixelX},${pixelY}`, point);
-          }
-        });
-      });
-      
-      // Attach allPoints to each point for overlap logic
-      points.forEach((pt: ExtendedPoint) => { 
-        pt.allPoints = points; 
-      });
-
-      // 2) Place labels with debug option
-      const placer = new LabelPlacer(
-        { 
-          width: chartArea.right - chartArea.left, 
-          height: chartArea.bottom - chartArea.top 
-        },
-        {
-          radius: 10,            // Reduced base radius - will be adjusted to respect 2px boundary
-          rings: 5,              // Increased rings for more placement options when crowded
-          anglesPerRing: 32,     // 32 angles = every 11.25 degrees for denser coverage
-          debug: true,
-          padding: 0,            // Remove edge padding
-          overlapPenalty: 100000,// Massive penalty for overlaps
-          pointPenalty: 500,
-          outOfBoundsPenalty: 0, // Remove out-of-bounds penalty to allow edge placement
-          idealAngleBonus: 0     // No directional bias
-        }
-      );
-      
-      const labelBoxes = placer.placeAll(points);
-
-      // 3) Draw labels on top
-      ctx.save();
-      
-      // Disable image smoothing for sharp text rendering
-      ctx.imageSmoothingEnabled = false;
-      
-      // Set text rendering for sharpness
-      ctx.textAlign = "center";
-      ctx.textBaseline = "middle";
-      
-      // Use font size from chart options if available
-      const fontSize = (chart as unknown as ChartWithScales).options?.plugins?.labelPlacer?.dataLabelFontSize || 12;
-      // Use system-ui font for better rendering
-      ctx.font = `${Math.round(fontSize)}px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif`;
-      
-      // Disable subpixel rendering
-      ctx.translate(0.5, 0.5);
-      
-      for (const label of labelBoxes) {
-        ctx.save();
-        
-        // Round to nearest pixel for sharp rendering
-        const cx = Math.round(label.x + label.width / 2);
-        const cy = Math.round(label.y + label.height / 2);
-        
-        // Draw the label text with crisp rendering
-        ctx.translate(cx, cy);
-        ctx.fillStyle = (label as any).forPoint?.backgroundColor || theme.text;
-        
-        // Draw text with crisp rendering
-        ctx.translate(-0.5, -0.5); // Offset for sharpness
-        ctx.fillText(label.text, 0, 0);
-        
-        ctx.restore();
-      }
+      const { fontSize, font } = labelFont(chart);
+      const points = collectLabelPoints(chart, theme.text, font);
+      const state = getState(chart);
+      requestLayout(state, toRequest(chart, points, font));
 
-      ctx.restore();
+      // Draws the last good layout; the worker redraws the chart once a newer one is ready
+      const layout: LabelLayout = { boxes: toBoxes(state.offsets, points), fontSize, fontFamily: LABEL_FONT_FAMILY };
+      lastLayouts.set(chart, layout);
+      drawLabels(chart.ctx, layout, theme.text);
+
+      if (pluginOptions?.debug) {
+        const view = toDebugView(state.debug, points);
+        debugViews.set(chart, view);
+        drawDebug(chart, view, layout);
+      } else {
+        debugViews.delete(chart);
+      }
     } catch (error) {
       console.error('Error in LabelPlacer:', error);
     }
   },
+  afterDestroy: (chart: Chart) => {
+    const state = chartStates.get(chart);
+    if (!state) return;
+    chartStates.delete(chart);
+    statesByChannel.delete(state.channel);
+    const message: LabelWorkerRequest = { type: 'dispose', channel: state.channel };
+    worker?.postMessage(message);
+  },
 };
 
-export default ChartJsLabelPlugin;
\ No newline at end of file
+export default ChartJsLabelPlugin;
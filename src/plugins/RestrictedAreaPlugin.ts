@@ -0,0 +1,117 @@
+// src/plugins/RestrictedAreaPlugin.ts
+// Chart.js plugin that draws the world profile on the map: the world border
+// as an outline and the exclusion zones as hatched areas, so the rules are
+// visible instead of a silent rejection.
+
+import { Plugin, Chart } from 'chart.js';
+
+type ChartPoint = { x: number; y: number };
+
+// Polygon in chart units (image pixels); a rotated view turns rectangles into
+// arbitrary quadrilaterals
+export interface RestrictedArea {
+  points: ChartPoint[];
+}
+
+export interface RestrictedAreaPluginOptions {
+  areas?: RestrictedArea[];
+  border?: ChartPoint[]; // closed outline of the world border
+  fillColor?: string;
+  strokeColor?: string;
+  borderColor?: string;
+}
+
+declare module 'chart.js' {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface PluginOptionsByType<TType> {
+    restrictedAreas?: RestrictedAreaPluginOptions;
+  }
+}
+
+export const HATCH_SPACING = 6;
+
+// Colours used when the options leave them out
+export const RESTRICTED_AREA_COLORS = {
+  fill: 'rgba(239, 68, 68, 0.6)',   // hatch stripes
+  stroke: 'rgba(239, 68, 68, 0.9)', // dashed zone outline
+  border: 'rgba(59, 130, 246, 0.9)' // world border
+};
+
+// Diagonal stripes, cached per colour
+const hatchPatterns = new Map<string, CanvasPattern | null>();
+
+function hatchPattern(ctx: CanvasRenderingContext2D, color: string): CanvasPattern | string {
+  if (!hatchPatterns.has(color)) {
+    const tile = document.createElement('canvas');
+    tile.width = HATCH_SPACING;
+    tile.height = HATCH_SPACING;
+    const tileCtx = tile.getContext('2d');
+    if (tileCtx) {
+      tileCtx.strokeStyle = color;
+      tileCtx.lineWidth = 1.5;
+      tileCtx.beginPath();
+      // The corner segments keep the stripes continuous across tiles
+      tileCtx.moveTo(0, HATCH_SPACING);
+      tileCtx.lineTo(HATCH_SPACING, 0);
+      tileCtx.moveTo(-1, 1);
+      tileCtx.lineTo(1, -1);
+      tileCtx.moveTo(HATCH_SPACING - 1, HATCH_SPACING + 1);
+      tileCtx.lineTo(HATCH_SPACING + 1, HATCH_SPACING - 1);
+      tileCtx.stroke();
+    }
+    hatchPatterns.set(color, tileCtx ? ctx.createPattern(tile, 'repeat') : null);
+  }
+  return hatchPatterns.get(color) ?? color;
+}
+
+// Canvas pixels of a polygon in chart units
+export const toPixels = (chart: Chart, points: ChartPoint[]): ChartPoint[] =>
+  points.map(point => ({ x: chart.scales.x.getPixelForValue(point.x), y: chart.scales.y.getPixelForValue(point.y) }));
+
+function tracePolygon(chart: Chart<'scatter'>, points: ChartPoint[]) {
+  const { ctx } = chart;
+  ctx.beginPath();
+  toPixels(chart, points).forEach(({ x, y }, index) => {
+    if (index === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  });
+  ctx.closePath();
+}
+
+const RestrictedAreaPlugin: Plugin<'scatter', RestrictedAreaPluginOptions> = {
+  id: 'restrictedAreas',
+  // Drawn under the markers so points near the edge stay visible
+  beforeDatasetsDraw(chart: Chart<'scatter'>, _args, options) {
+    const areas = options.areas ?? [];
+    const border = options.border ?? [];
+    if (areas.length === 0 && border.length < 3) return;
+    const { ctx, chartArea } = chart;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(chartArea.left, chartArea.top, chartArea.right - chartArea.left, chartArea.bottom - chartArea.top);
+    ctx.clip();
+
+    if (border.length >= 3) {
+      ctx.strokeStyle = options.borderColor ?? RESTRICTED_AREA_COLORS.border;
+      ctx.lineWidth = 2;
+      tracePolygon(chart, border);
+      ctx.stroke();
+    }
+
+    ctx.fillStyle = hatchPattern(ctx, options.fillColor ?? RESTRICTED_AREA_COLORS.fill);
+    ctx.strokeStyle = options.strokeColor ?? RESTRICTED_AREA_COLORS.stroke;
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 3]);
+    for (const area of areas) {
+      if (area.points.length < 3) continue;
+      tracePolygon(chart, area.points);
+      ctx.fill();
+      ctx.stroke();
+    }
+
+    ctx.restore();
+  }
+};
+
+export default RestrictedAreaPlugin;
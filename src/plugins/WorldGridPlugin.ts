@@ -0,0 +1,270 @@
+// src/plugins/WorldGridPlugin.ts
+// Chart.js plugin that draws block, chunk and region gridlines in world
+// coordinates, rulers along the top and left edges and a crosshair at the
+// world origin. Everything goes through the world → chart matrix, so the
+// overlay follows zoom, pan, rotation, mirroring and calibration. The
+// Chart.js axes stay off because they can only show the rotated chart units.
+// The geometry is computed apart from drawing so the SVG export can reuse it.
+
+import { Plugin, Chart } from 'chart.js';
+import { AffineMatrix } from '../types';
+import { applyAffine, invertAffine } from '../utils/calibration';
+import { CHUNK_SIZE } from '../utils/worldProfile';
+
+export interface WorldGridPluginOptions {
+  enabled?: boolean;
+  matrix?: AffineMatrix; // world → chart units
+  showBlocks?: boolean;
+  showChunks?: boolean;
+  showRegions?: boolean;
+  showRulers?: boolean;
+  showOrigin?: boolean;
+  origin?: { x: number; z: number };
+  color?: string;        // gridline colour (hex)
+  opacity?: number;      // 0..1, applied to gridlines
+  isDarkMode?: boolean;
+  fontSize?: number;     // ruler labels
+  xAxisLabel?: string;
+  zAxisLabel?: string;
+}
+
+declare module 'chart.js' {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface PluginOptionsByType<TType> {
+    worldGrid?: WorldGridPluginOptions;
+  }
+}
+
+const REGION_SIZE = 512;
+// Finer levels are hidden once their lines would be closer than this
+const MIN_LINE_SPACING_PX = 6;
+const MIN_LABEL_SPACING_PX = 56;
+const RULER_PADDING_PX = 4;
+
+export type Pixel = { x: number; y: number };
+
+const withAlpha = (hex: string, alpha: number): string => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+};
+
+const GRID_LEVELS: Array<{ size: number; option: 'showBlocks' | 'showChunks' | 'showRegions'; width: number; alpha: number }> = [
+  { size: 1, option: 'showBlocks', width: 0.5, alpha: 0.35 },
+  { size: CHUNK_SIZE, option: 'showChunks', width: 1, alpha: 0.6 },
+  { size: REGION_SIZE, option: 'showRegions', width: 2, alpha: 1 }
+];
+
+// One stroked path of the overlay, in canvas pixels
+export interface GridStroke {
+  color: string;
+  width: number;
+  dash?: number[];
+  segments: Array<[Pixel, Pixel]>;
+}
+
+export interface GridRulers {
+  bands: Array<{ x: number; y: number; width: number; height: number }>;
+  background: string;
+  color: string;
+  fontSize: number;
+  ticks: Array<[Pixel, Pixel]>;
+  labels: Array<{ x: number; y: number; text: string; vertical: boolean }>; // centred; vertical reads bottom-up
+}
+
+// Everything the overlay draws, so the canvas and the SVG export draw the same thing
+export interface WorldGridGeometry {
+  strokes: GridStroke[]; // gridlines, then the origin crosshair
+  rulers: GridRulers | null;
+}
+
+export const RULER_FONT_FAMILY = 'system-ui, -apple-system, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif';
+
+export function worldGridGeometry(chart: Chart, options: WorldGridPluginOptions): WorldGridGeometry | null {
+  if (!options.enabled || !options.matrix) return null;
+  const toWorldMatrix = invertAffine(options.matrix);
+  if (!toWorldMatrix) return null;
+  const { chartArea, scales } = chart;
+  const worldMatrix = options.matrix;
+
+  const toPixel = (x: number, z: number): Pixel => {
+    const chartPoint = applyAffine(worldMatrix, x, z);
+    return { x: scales.x.getPixelForValue(chartPoint.x), y: scales.y.getPixelForValue(chartPoint.y) };
+  };
+  const toWorld = (px: number, py: number) => {
+    const world = applyAffine(toWorldMatrix, scales.x.getValueForPixel(px) ?? 0, scales.y.getValueForPixel(py) ?? 0);
+    return { x: world.x, z: world.y };
+  };
+
+  // World extent of the visible area (its corners, since it may be rotated)
+  const corners = [
+    toWorld(chartArea.left, chartArea.top),
+    toWorld(chartArea.right, chartArea.top),
+    toWorld(chartArea.right, chartArea.bottom),
+    toWorld(chartArea.left, chartArea.bottom)
+  ];
+  const xMin = Math.min(...corners.map(c => c.x));
+  const xMax = Math.max(...corners.map(c => c.x));
+  const zMin = Math.min(...corners.map(c => c.z));
+  const zMax = Math.max(...corners.map(c => c.z));
+
+  // On-screen length of one block along the shorter axis
+  const origin = toPixel(0, 0);
+  const unitX = toPixel(1, 0);
+  const unitZ = toPixel(0, 1);
+  const pxPerBlock = Math.min(
+    Math.hypot(unitX.x - origin.x, unitX.y - origin.y),
+    Math.hypot(unitZ.x - origin.x, unitZ.y - origin.y)
+  );
+
+  const baseColor = options.color ?? (options.isDarkMode ? '#FFFFFF' : '#000000');
+  const opacity = options.opacity ?? 0.5;
+  const strokes: GridStroke[] = [];
+
+  for (const level of GRID_LEVELS) {
+    if (!options[level.option] || level.size * pxPerBlock < MIN_LINE_SPACING_PX) continue;
+    const segments: Array<[Pixel, Pixel]> = [];
+    for (let x = Math.ceil(xMin / level.size) * level.size; x <= xMax; x += level.size) {
+      segments.push([toPixel(x, zMin), toPixel(x, zMax)]);
+    }
+    for (let z = Math.ceil(zMin / level.size) * level.size; z <= zMax; z += level.size) {
+      segments.push([toPixel(xMin, z), toPixel(xMax, z)]);
+    }
+    strokes.push({ color: withAlpha(baseColor, opacity * level.alpha), width: level.width, segments });
+  }
+
+  if (options.showOrigin) {
+    const centre = options.origin ?? { x: 0, z: 0 };
+    const segments: Array<[Pixel, Pixel]> = [
+      [toPixel(centre.x, zMin), toPixel(centre.x, zMax)],
+      [toPixel(xMin, centre.z), toPixel(xMax, centre.z)]
+    ];
+    // Dark halo under the amber line keeps it visible on any map
+    strokes.push(
+      { color: 'rgba(0, 0, 0, 0.6)', width: 3, dash: [6, 4], segments },
+      { color: '#F59E0B', width: 1.5, dash: [6, 4], segments }
+    );
+  }
+
+  return { strokes, rulers: options.showRulers ? rulerGeometry(chart, options, toWorld) : null };
+}
+
+const WorldGridPlugin: Plugin<'scatter', WorldGridPluginOptions> = {
+  id: 'worldGrid',
+  // Under the markers, over the background image
+  beforeDatasetsDraw(chart: Chart<'scatter'>, _args, options) {
+    const geometry = worldGridGeometry(chart, options);
+    if (!geometry) return;
+    const { ctx, chartArea } = chart;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(chartArea.left, chartArea.top, chartArea.right - chartArea.left, chartArea.bottom - chartArea.top);
+    ctx.clip();
+
+    const strokeSegments = (segments: Array<[Pixel, Pixel]>) => {
+      ctx.beginPath();
+      for (const [from, to] of segments) {
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(to.x, to.y);
+      }
+      ctx.stroke();
+    };
+
+    for (const stroke of geometry.strokes) {
+      ctx.strokeStyle = stroke.color;
+      ctx.lineWidth = stroke.width;
+      ctx.setLineDash(stroke.dash ?? []);
+      strokeSegments(stroke.segments);
+    }
+    ctx.setLineDash([]);
+
+    const rulers = geometry.rulers;
+    if (rulers) {
+      ctx.fillStyle = rulers.background;
+      for (const band of rulers.bands) ctx.fillRect(band.x, band.y, band.width, band.height);
+      ctx.font = `${rulers.fontSize}px ${RULER_FONT_FAMILY}`;
+      ctx.fillStyle = rulers.color;
+      ctx.strokeStyle = rulers.color;
+      ctx.lineWidth = 1;
+      strokeSegments(rulers.ticks);
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      for (const label of rulers.labels) {
+        ctx.save();
+        ctx.translate(label.x, label.y);
+        if (label.vertical) ctx.rotate(-Math.PI / 2);
+        ctx.fillText(label.text, 0, 0);
+        ctx.restore();
+      }
+    }
+
+    ctx.restore();
+  }
+};
+
+// Smallest power of two (in blocks) whose labels are far enough apart
+function labelStep(blocksPerPx: number): number {
+  let step = 1;
+  while (step / blocksPerPx < MIN_LABEL_SPACING_PX && step < 1 << 20) step *= 2;
+  return step;
+}
+
+function rulerGeometry(
+  chart: Chart,
+  options: WorldGridPluginOptions,
+  toWorld: (px: number, py: number) => { x: number; z: number }
+): GridRulers {
+  const { chartArea } = chart;
+  const fontSize = options.fontSize ?? 11;
+  const band = fontSize + RULER_PADDING_PX * 2;
+  const rulers: GridRulers = {
+    bands: [
+      { x: chartArea.left, y: chartArea.top, width: chartArea.right - chartArea.left, height: band },
+      { x: chartArea.left, y: chartArea.top + band, width: band, height: chartArea.bottom - chartArea.top - band }
+    ],
+    background: options.isDarkMode ? 'rgba(17, 24, 39, 0.8)' : 'rgba(255, 255, 255, 0.8)',
+    color: options.isDarkMode ? '#F3F4F6' : '#111827',
+    fontSize,
+    ticks: [],
+    labels: []
+  };
+
+  const edges = [
+    { start: { x: chartArea.left + band, y: chartArea.top }, end: { x: chartArea.right, y: chartArea.top }, vertical: false },
+    { start: { x: chartArea.left, y: chartArea.top + band }, end: { x: chartArea.left, y: chartArea.bottom }, vertical: true }
+  ];
+
+  for (const edge of edges) {
+    const length = edge.vertical ? edge.end.y - edge.start.y : edge.end.x - edge.start.x;
+    const a = toWorld(edge.start.x, edge.start.y);
+    const b = toWorld(edge.end.x, edge.end.y);
+    // A rotated view crosses lines of both axes along one edge
+    const axes = (['x', 'z'] as const).filter(axis => Math.abs(b[axis] - a[axis]) / length > 1e-6);
+
+    for (const axis of axes) {
+      const from = a[axis];
+      const to = b[axis];
+      const step = labelStep(Math.abs(to - from) / length);
+      const name = axis === 'x' ? options.xAxisLabel || 'X' : options.zAxisLabel || 'Z';
+      const prefix = axes.length > 1 ? `${name.charAt(0).toUpperCase()} ` : '';
+      const first = Math.ceil(Math.min(from, to) / step) * step;
+
+      for (let value = first; value <= Math.max(from, to); value += step) {
+        const offset = ((value - from) / (to - from)) * length;
+        const text = `${prefix}${value}`;
+        if (edge.vertical) {
+          const y = edge.start.y + offset;
+          rulers.ticks.push([{ x: chartArea.left + band - RULER_PADDING_PX, y }, { x: chartArea.left + band, y }]);
+          rulers.labels.push({ x: chartArea.left + band / 2, y, text, vertical: true });
+        } else {
+          const x = edge.start.x + offset;
+          rulers.ticks.push([{ x, y: chartArea.top + band - RULER_PADDING_PX }, { x, y: chartArea.top + band }]);
+          rulers.labels.push({ x, y: chartArea.top + band / 2, text, vertical: false });
+        }
+      }
+    }
+  }
+  return rulers;
+}
+
+export default WorldGridPlugin;
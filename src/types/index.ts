@@ -4,6 +4,7 @@ export interface DataPoint {
   x: number;
   z: number;
   series: SeriesType;
+  tags?: string[]; // free-form groups set through bulk actions
 }
 
 export type SeriesType = 
@@ -27,12 +28,41 @@ export const SERIES_COLORS: Record<SeriesType, string> = {
   Black: '#000000'
 };
 
+// World → image pixels: px = a·x + c·z + e, py = b·x + d·z + f
+export type AffineMatrix = [number, number, number, number, number, number];
+
+// A landmark clicked on the map image together with its known world position
+export interface CalibrationPoint {
+  imageX: number; // image pixels
+  imageY: number;
+  worldX: number;
+  worldZ: number;
+}
+
+// Fitted placement of the map image in the world, kept with the map
+export interface MapCalibration {
+  points: CalibrationPoint[];
+  matrix: AffineMatrix;
+  rmsError: number; // blocks, over the landmarks
+  maxError: number;
+}
+
+// North (-Z) or south (+Z) at the top of the map image
+export type MapOrientation = 'north-up' | 'south-up';
+
+// Fast greedy label placement, or greedy followed by a global optimisation pass
+export type LabelPlacement = 'greedy' | 'anneal';
+
 export interface ChartConfig {
   backgroundImage?: string;
   backgroundImageOpacity?: number;
   backgroundImageScale?: number;
   showDataLabels?: boolean;
   dataLabelFontSize?: number;
+  labelPlacement?: LabelPlacement;
+  labelTimeBudgetMs?: number; // how long the optimisation pass may take per layout
+  labelCallouts?: boolean; // labels that fit nowhere go to a column along the map edge (default on)
+  labelRotation?: boolean; // allow diagonal and vertical labels in crowded spots
   onImageUpdate?: (imageData: string) => void;
   forceShowLabels?: boolean;
   xAxisDomain?: [number, number];
@@ -43,5 +73,59 @@ export interface ChartConfig {
   xAxisLabel?: string;
   zAxisLabel?: string;
   axisTickFontSize?: number; // Added for axis tick font size configuration
+  mirrorX?: boolean; // flip the map west/east
+  mirrorZ?: boolean; // flip the map north/south
+  orientation?: MapOrientation;
+  calibration?: MapCalibration; // replaces stretching the world border over the image
+  gridBlocks?: boolean; // every block, only drawn when zoomed in far enough
+  gridChunks?: boolean; // every 16 blocks (default on)
+  gridRegions?: boolean; // every 512 blocks (default on)
+  showRulers?: boolean; // world coordinates along the top and left edges (default on)
+  showOrigin?: boolean; // crosshair at the world profile origin (default on)
+  gridColor?: string; // hex; follows the theme when unset
+  gridOpacity?: number;
   title?: string;
-}
\ No newline at end of file
+}
+
+// Map overlays switched from the toolbar. Plain view state: toggling one is
+// not an undo step and is not saved with the session or in project files
+export interface MapOverlays {
+  showGrid: boolean; // world grid with the settings above
+  showCrosshair: boolean; // cursor crosshair that snaps to the nearest pearl
+  labelDebug: boolean; // scored label candidates, for tuning placement penalties
+}
+
+// Edge of the playable world, centred on the profile origin
+export type WorldBorder =
+  | { shape: 'square'; halfWidth: number; halfDepth: number } // blocks from the origin along X and Z
+  | { shape: 'circle'; radius: number };
+
+// Rectangle where pearls cannot be placed, in world coordinates
+export interface ExclusionZone {
+  name: string;
+  xMin: number;
+  xMax: number;
+  zMin: number;
+  zMax: number;
+}
+
+// The rules of one server's world that every point must satisfy
+export interface WorldProfile {
+  origin: { x: number; z: number };
+  border: WorldBorder;
+  exclusions: ExclusionZone[];
+}
+
+// Everything needed to restore a hunt after a page refresh
+export interface HuntSession {
+  data: DataPoint[];
+  chartConfig: ChartConfig;
+  visibleSeries: SeriesType[];
+  rotation: number;
+  worldProfile: WorldProfile;
+  isDarkMode: boolean;
+}
+
+export interface SavedSession extends HuntSession {
+  savedAt: number; // epoch milliseconds of the last autosave
+}
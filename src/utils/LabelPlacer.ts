@@ -1,39 +1,82 @@
 // src/utils/LabelPlacer.ts
 import Rbush from "rbush";
-import { LabelBox, ChartSize, RTreeBox, DebugInfo } from "./types";
+import { LabelBox, ChartSize, RTreeBox, DebugInfo, PlacementMode } from "./types";
+import { AnnealCandidate, annealLabels } from "./labelAnnealer";
+import { Segment, labelLeader, leaderFor, leaderTo, segmentBounds, segmentCrossesBox } from "./leaderLines";
+import { OrientedBox, boxesOverlap, closestPoint, containsPoint, orientedBounds } from "./orientedBox";
+
+// Default score given to a candidate for every label it overlaps
+const OVERLAP_PENALTY = 100000;
+// Gap between the callout column and the chart edge
+const CALLOUT_MARGIN = 4;
+// Small cost of a turned label, so level text wins whenever it fits as well
+const ROTATION_PENALTY = 100;
+// Directions around the point tried for each non-zero rotation
+const ROTATED_DIRECTIONS = 16;
+// Point size plus the 1px boundary labels keep from it
+const POINT_EXCLUSION_RADIUS = 7;
+
+// Angles tried when rotated labels are allowed: level, both diagonals, and
+// vertical reading bottom to top
+export const ROTATED_LABEL_ANGLES = [0, -Math.PI / 4, Math.PI / 4, -Math.PI / 2];
 
 // Helper: convert a LabelBox into an RTree‐compatible box with padding
 function toRTreeBox(label: LabelBox, padding: number = 2): RTreeBox {
   return {
-    minX: label.x - padding,
-    minY: label.y - padding,
-    maxX: label.x + label.width + padding,
-    maxY: label.y + label.height + padding,
+    ...orientedBounds(label, padding),
     __ref: label,
   };
 }
 
-// Simple rectangle interface for point-in-rect check
-interface Rect {
+interface Point {
+  id?: string;
   x: number;
   y: number;
+  text: string;
   width: number;
   height: number;
 }
 
-// Check if a point sits inside a rectangle
-function pointInRect(px: number, py: number, rect: Rect): boolean {
-  return px >= rect.x && px <= rect.x + rect.width && 
-         py >= rect.y && py <= rect.y + rect.height;
+// Leader line stored in the leader index, with the label it belongs to
+interface LeaderBox {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  segment: Segment;
+  label: LabelBox;
 }
 
-interface Point {
-  x: number;
-  y: number;
-  text: string;
-  width: number;
-  height: number;
-  allPoints?: Point[]; // Reference to all points for point-in-rect checks
+// Data point stored in the point index, so covering checks only look nearby
+interface PointBox {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  point: Point;
+}
+
+// Points drawn at the same pixel share one label, e.g. "(1, 2), (1, 2)";
+// the combined point keeps the ids of all its members
+export function groupOverlappingPoints<T extends Point>(points: T[]): T[] {
+  const pointGroups = new Map<string, T[]>();
+  points
+    .filter(pt => pt.text && pt.text.trim() !== '')
+    .forEach(pt => {
+      const key = `${Math.round(pt.x)},${Math.round(pt.y)}`;
+      if (!pointGroups.has(key)) {
+        pointGroups.set(key, []);
+      }
+      pointGroups.get(key)!.push(pt);
+    });
+
+  return Array.from(pointGroups.values()).map(groupPoints => groupPoints.length === 1 ? groupPoints[0] : {
+    ...groupPoints[0],
+    id: groupPoints.map(p => p.id).join('+'),
+    text: groupPoints.map(p => p.text).join(', '),
+    width: Math.max(...groupPoints.map(p => p.width)),
+    height: Math.max(...groupPoints.map(p => p.height))
+  });
 }
 
 interface Candidate {
@@ -52,31 +95,71 @@ export interface LabelPlacerOptions {
   pointPenalty?: number;   // penalty for covering a point
   outOfBoundsPenalty?: number; 
   idealAngleBonus?: number; // bonus for matching "preferred" angles
+  mode?: PlacementMode;     // 'greedy' (fast) or 'anneal' (greedy, then globally optimised)
+  timeBudgetMs?: number;    // longest the optimiser may run; also sets its (deterministic) move count
+  seed?: number;            // optimiser random seed; the same seed gives the same layout
+  iterationsPerLabel?: number; // optimiser moves per label, unless the time budget allows fewer
+  dropPenalty?: number;     // optimiser cost of leaving a label out
+  leaderCrossingPenalty?: number; // penalty for each label a leader line passes through
+  callouts?: boolean;       // labels that fit nowhere go to a column along the nearest side edge
+  rotations?: number[];     // label angles (radians) to try; [0] keeps every label level
 }
 
-const DEFAULT_OPTIONS: Required<LabelPlacerOptions & { debug: boolean }> = {
+export const DEFAULT_LABEL_PLACER_OPTIONS: Required<LabelPlacerOptions & { debug: boolean }> = {
   radius: 10,            // Reduced base radius to place labels closer (will be adjusted to respect 2px boundary)
   rings: 5,              // Increased rings for more placement options when crowded
   anglesPerRing: 32,     // 32 angles per ring → every 11.25�� for denser coverage
   padding: 4,
-  overlapPenalty: 1000,
+  overlapPenalty: OVERLAP_PENALTY,
   pointPenalty: 500,
   outOfBoundsPenalty: 300,
   idealAngleBonus: 0,    // Removed angle bias to ensure equal consideration of all directions
+  mode: 'greedy',
+  timeBudgetMs: 200,
+  seed: 1,
+  iterationsPerLabel: 500,
+  dropPenalty: 5000,     // below any overlap, so dropping still beats overlapping
+  leaderCrossingPenalty: OVERLAP_PENALTY, // a crossed label reads as badly as an overlapped one
+  callouts: true,
+  rotations: [0],
   debug: false,          // enable debug logging and visualization
 };
 
+/**
+ * Farthest any part of a label of this size can sit from its point, over
+ * every candidate generateCandidates() makes (callout slots aside, which go
+ * to the chart edge).
+ */
+export function candidateReach(size: { width: number; height: number }, options: LabelPlacerOptions = {}): number {
+  const { radius, rings } = { ...DEFAULT_LABEL_PLACER_OPTIONS, ...options };
+  const halfDiagonal = Math.hypot(size.width, size.height) / 2;
+  // Distance from the point to the farthest candidate centre
+  const centre = Math.max(
+    POINT_EXCLUSION_RADIUS * (1 + (rings - 1) * 0.5) + halfDiagonal, // rings place the top-left corner
+    POINT_EXCLUSION_RADIUS + rings * 5,                             // fallback rings
+    radius * rings,                                                 // intermediate angles
+    halfDiagonal + POINT_EXCLUSION_RADIUS + 10                      // turned labels
+  );
+  return centre + halfDiagonal;
+}
+
 export class LabelPlacer {
   private tree: Rbush<RTreeBox>;
+  private pointTree: Rbush<PointBox>;
+  private leaderTree: Rbush<LeaderBox>;
   private placedLabels: LabelBox[] = [];
   private options: Required<LabelPlacerOptions & { debug: boolean }>;
   private debugInfo: DebugInfo[] = [];
+  // Candidates scored by the greedy pass, reused by the optimiser
+  private candidateSets = new Map<Point, AnnealCandidate[]>();
   constructor(
     private chartSize: ChartSize,
     options: Partial<LabelPlacerOptions & { debug?: boolean }> = {}
   ) {
     this.tree = new Rbush<RTreeBox>();
-    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.pointTree = new Rbush<PointBox>();
+    this.leaderTree = new Rbush<LeaderBox>();
+    this.options = { ...DEFAULT_LABEL_PLACER_OPTIONS, ...options };
   }
 
   // Get debug information for all placed labels
@@ -91,241 +174,232 @@ export class LabelPlacer {
 
   // Public: call this with all points; returns placed label boxes
   placeAll(points: Point[]): LabelBox[] {
-    this.tree.clear();
-    this.placedLabels = [];
-    this.debugInfo = [];
+    return this.placeAround(groupOverlappingPoints(points), [], points);
+  }
 
-    // Process points with labels
-    const pointsWithLabels = points.filter(pt => pt.text && pt.text.trim() !== '');
-    
-    // Group points by position to handle overlapping points
-    const pointGroups = new Map<string, Point[]>();
-    pointsWithLabels.forEach(pt => {
-      const key = `${Math.round(pt.x)},${Math.round(pt.y)}`;
-      if (!pointGroups.has(key)) {
-        pointGroups.set(key, []);
+  // Place labels for `points` (already grouped) around labels that stay where
+  // they are; `allPoints` are the markers labels should not cover. Returns the
+  // fixed labels followed by the new ones.
+  placeAround(points: Point[], fixedLabels: LabelBox[], allPoints: Point[]): LabelBox[] {
+    this.pointTree.clear();
+    this.placedLabels = [...fixedLabels];
+    this.debugInfo = [];
+    this.candidateSets.clear();
+
+    this.pointTree.load(allPoints.map(point => ({ minX: point.x, minY: point.y, maxX: point.x, maxY: point.y, point })));
+    this.reindex(fixedLabels);
+
+    // Place labels one by one, top to bottom
+    const sorted = [...points].sort((a, b) => a.y - b.y);
+    let labels = sorted.map(point => {
+      const label = this.placeLabelForPoint(point);
+      if (label) {
+        this.index(label);
+        this.placedLabels.push(label);
       }
-      pointGroups.get(key)!.push(pt);
+      return label;
     });
-    
-    // Sort groups by y-position, then process
-    const sortedGroups = Array.from(pointGroups.entries())
-      .sort(([, a], [, b]) => a[0].y - b[0].y);
-
-    // Place labels one by one
-    for (const [, groupPoints] of sortedGroups) {
-      // For overlapping points, combine their labels
-      if (groupPoints.length > 1) {
-        const combinedText = groupPoints.map(p => p.text).join(', ');
-        const firstPoint = groupPoints[0];
-        const combinedPoint = {
-          ...firstPoint,
-          text: combinedText,
-          width: Math.max(...groupPoints.map(p => p.width)),
-          height: Math.max(...groupPoints.map(p => p.height))
+
+    if (this.options.mode === 'anneal') {
+      labels = this.optimize(sorted, labels, fixedLabels);
+      this.reindex([...fixedLabels, ...labels.filter((label): label is LabelBox => label !== null)]);
+    }
+    if (this.options.callouts) {
+      labels = labels.map((label, index) => label ?? this.placeCallout(sorted[index]));
+    }
+    this.placedLabels = [...fixedLabels, ...labels.filter((label): label is LabelBox => label !== null)];
+
+    labels.forEach((label, index) => {
+      if (!label && this.options.debug) console.warn(`Could not place label "${sorted[index].text}" without overlap`);
+    });
+    return this.placedLabels;
+  }
+
+  // Improve the greedy result by annealing over the same candidate positions;
+  // `labels[i]` is the greedy label for `points[i]`, null where it was dropped
+  private optimize(points: Point[], labels: (LabelBox | null)[], fixedLabels: LabelBox[]): (LabelBox | null)[] {
+    const chosen = annealLabels(
+      points.map((point, index) => {
+        const candidates = this.candidateSets.get(point) ?? [];
+        const label = labels[index];
+        return {
+          width: point.width,
+          height: point.height,
+          candidates,
+          initial: label ? candidates.findIndex(c => c.x === label.x && c.y === label.y) : -1
         };
-        const label = this.placeLabelForPoint(combinedPoint);
-        if (label) {
-          this.tree.insert(toRTreeBox(label));
-          this.placedLabels.push(label);
-        }
-      } else {
-        const label = this.placeLabelForPoint(groupPoints[0]);
-        if (label) {
-          this.tree.insert(toRTreeBox(label));
-          this.placedLabels.push(label);
-        }
+      }),
+      fixedLabels.map(label => ({ ...label, leader: labelLeader(label) })),
+      {
+        seed: this.options.seed,
+        timeBudgetMs: this.options.timeBudgetMs,
+        iterationsPerLabel: this.options.iterationsPerLabel,
+        overlapPenalty: this.options.overlapPenalty,
+        leaderCrossingPenalty: this.options.leaderCrossingPenalty,
+        dropPenalty: this.options.dropPenalty,
+        padding: 2
+      }
+    );
+
+    return points.map((point, index) => {
+      const candidate = this.candidateSets.get(point)?.[chosen[index]];
+      return candidate ? this.toLabel(point, candidate) : null;
+    });
+  }
+
+  // Last resort for a label that fits nowhere near its point: a slot in a
+  // column along the nearer side edge, as close to the point's height as
+  // possible, joined to the point by a leader
+  private placeCallout(pt: Point): LabelBox | null {
+    const left = CALLOUT_MARGIN;
+    const right = this.chartSize.width - CALLOUT_MARGIN - pt.width;
+    const columns = pt.x < this.chartSize.width / 2 ? [left, right] : [right, left];
+    const step = pt.height + 2;
+    const startY = pt.y - pt.height / 2;
+    const slots = Math.ceil(this.chartSize.height / step);
+
+    for (const x of columns) {
+      for (let k = 0; k <= 2 * slots; k++) {
+        // 0, +1, -1, +2, -2, ... rows away from the point
+        const y = startY + (k % 2 === 0 ? -k / 2 : (k + 1) / 2) * step;
+        if (y < 1 || y + pt.height > this.chartSize.height - 1) continue;
+        const box = { x, y, width: pt.width, height: pt.height };
+        if (this.overlapping(box).length > 0) continue;
+        const leader = leaderTo(pt, box);
+        if (this.leaderCrossings(box, leader) > 0) continue;
+
+        const label: LabelBox = { ...box, rotation: 0, text: pt.text, forPoint: pt, leader: { x: leader.x2, y: leader.y2 }, callout: true };
+        this.index(label);
+        return label;
       }
     }
+    return null;
+  }
 
-    return this.placedLabels;
+  private toLabel(pt: Point, position: { x: number; y: number; rotation: number }): LabelBox {
+    const box = { x: position.x, y: position.y, width: pt.width, height: pt.height, rotation: position.rotation };
+    const leader = leaderFor(pt, box);
+    return {
+      ...box,
+      text: pt.text,
+      forPoint: pt,
+      ...(leader ? { leader: { x: leader.x2, y: leader.y2 } } : {})
+    };
+  }
+
+  // Add a placed label, and its leader, to the collision indexes
+  private index(label: LabelBox): void {
+    this.tree.insert(toRTreeBox(label));
+    const segment = labelLeader(label);
+    if (segment) this.leaderTree.insert({ ...segmentBounds(segment), segment, label });
+  }
+
+  private reindex(labels: LabelBox[]): void {
+    this.tree.clear();
+    this.leaderTree.clear();
+    labels.forEach(label => this.index(label));
+  }
+
+  // Placed labels closer than the 2px label gap to `box`. The R-tree bounds
+  // are exact for level labels; turned ones get the oriented test as well.
+  private overlapping(box: OrientedBox): RTreeBox[] {
+    const labelPadding = 2;
+    return this.tree.search(orientedBounds(box, labelPadding)).filter(entry =>
+      (!box.rotation && !entry.__ref.rotation) || boxesOverlap(box, entry.__ref, labelPadding)
+    );
+  }
+
+  // How many placed labels `leader` passes through, plus how many placed
+  // leaders pass through `box`
+  private leaderCrossings(box: OrientedBox, leader: Segment | null): number {
+    const crossed = leader
+      ? this.tree.search(segmentBounds(leader)).filter(entry => segmentCrossesBox(leader, entry.__ref)).length
+      : 0;
+    const crossing = this.leaderTree
+      .search(orientedBounds(box))
+      .filter(entry => segmentCrossesBox(entry.segment, box)).length;
+    return crossed + crossing;
   }
 
   // Place a single label for `pt`, given already‐placed labels and all data points
   private placeLabelForPoint(pt: Point): LabelBox | null {
     const candidates = this.generateCandidates(pt);
-    const debugCandidates: DebugInfo['candidates'] = [];
     
     // Score each candidate
-    const scored: Candidate[] = candidates.map(c => {
+    type ScoredCandidate = Candidate & { positionScore: number; scoreBreakdown: Record<string, number> };
+    const scored: ScoredCandidate[] = candidates.map(c => {
       let score = 0;
       const scoreBreakdown: Record<string, number> = {};
 
       // 1) Overlap with existing labels → heavy penalty
       // Add 2px padding around labels to prevent them from touching
-      const labelPadding = 2;
-      const collisions = this.tree.search({
-        minX: c.x - labelPadding,
-        minY: c.y - labelPadding,
-        maxX: c.x + pt.width + labelPadding,
-        maxY: c.y + pt.height + labelPadding,
-      });
+      const box = { x: c.x, y: c.y, width: pt.width, height: pt.height, rotation: c.rotation };
+      const collisions = this.overlapping(box);
       if (collisions.length > 0) {
         // Massive penalty for any overlap
-        const penalty = 100000 * collisions.length; // Increased from 1000 to 100000
+        const penalty = this.options.overlapPenalty * collisions.length;
         score -= penalty;
         scoreBreakdown.overlapPenalty = -penalty;
       }
 
-      // 2) Covering other data points → medium penalty
-      let pointPenalty = 0;
-      if (pt.allPoints) {
-        for (const otherPt of pt.allPoints) {
-          if (otherPt === pt) continue; // skip self
-          if (pointInRect(otherPt.x, otherPt.y, {
-            x: c.x, 
-            y: c.y, 
-            width: pt.width, 
-            height: pt.height
-          })) {
-            pointPenalty += this.options.pointPenalty;
-          }
-        }
-        if (pointPenalty > 0) {
-          score -= pointPenalty;
-          scoreBreakdown.pointPenalty = -pointPenalty;
-        }
-      }
-
-      // Calculate label center position once
-      const labelCenterX = c.x + pt.width / 2;
-      const labelCenterY = c.y + pt.height / 2;
-      
-      // 2.5) Border proximity penalty (strongly discourage being near edges)
-      const borderDistances = {
-        left: labelCenterX,
-        right: this.chartSize.width - labelCenterX,
-        top: labelCenterY,
-        bottom: this.chartSize.height - labelCenterY
-      };
-      
-      // Calculate minimum distance to any border
-      const minBorderDistance = Math.min(
-        borderDistances.left,
-        borderDistances.right,
-        borderDistances.top,
-        borderDistances.bottom
-      );
-      
-      // Strong penalty for being too close to any border
-      const borderThreshold = 10; // pixels
-      if (minBorderDistance < borderThreshold) {
-        // Quadratic penalty that gets much worse as we get closer to the edge
-        const borderPenalty = Math.pow((borderThreshold - minBorderDistance) / borderThreshold, 2) * 100;
-        score -= borderPenalty;
-        scoreBreakdown.borderPenalty = -borderPenalty;
-      }
-      
-      // 2.6) Prefer positions that are more centered in the chart
-      const centerX = this.chartSize.width / 2;
-      const centerY = this.chartSize.height / 2;
-      
-      // Calculate distance from center (normalized to 0-1)
-      const dx = (labelCenterX - centerX) / (this.chartSize.width / 2);
-      const dy = (labelCenterY - centerY) / (this.chartSize.height / 2);
-      const distanceFromCenter = Math.sqrt(dx * dx + dy * dy) / Math.SQRT2; // Normalized to 0-1
-      
-      // Add a bonus for being more centered (helps with edge cases)
-      const centerBonus = (1 - distanceFromCenter) * 10; // Up to 10 points for being centered
-      score += centerBonus;
-      scoreBreakdown.centerBonus = centerBonus;
-
-      // 3) Out-of-bounds penalty (if any part of the label is outside the chart)
-      if (this.isOutOfBounds({ x: c.x, y: c.y, width: pt.width, height: pt.height })) {
-        score -= this.options.outOfBoundsPenalty;
-        scoreBreakdown.outOfBoundsPenalty = -this.options.outOfBoundsPenalty;
+      // 1.5) Leader line (for labels away from their point) passing through
+      // other labels, or this label sitting on another label's leader
+      const crossings = this.leaderCrossings(box, leaderFor(pt, box));
+      if (crossings > 0) {
+        const penalty = crossings * this.options.leaderCrossingPenalty;
+        score -= penalty;
+        scoreBreakdown.leaderCrossingPenalty = -penalty;
       }
 
-      // 4) Distance from point - STRONGLY prefer closer positions
-      const distance = Math.sqrt(
-        Math.pow(labelCenterX - pt.x, 2) + 
-        Math.pow(labelCenterY - pt.y, 2)
-      );
-      // Strong penalty for distance - the further away, the worse the score
-      // This ensures labels are placed as close as possible without violating boundaries
-      const distancePenalty = distance * 10; // 10 points penalty per pixel of distance
-      score -= distancePenalty;
-      scoreBreakdown.distancePenalty = -distancePenalty;
-
-      // Store debug info for this candidate
-      debugCandidates.push({
-        ...c,
-        score,
-        scoreBreakdown: Object.keys(scoreBreakdown).length > 0 ? scoreBreakdown : undefined
-      });
+      const positionScore = this.scorePosition(pt, c, scoreBreakdown);
+      score += positionScore;
 
-      return { ...c, score };
+      return { ...c, score, positionScore, scoreBreakdown };
     });
 
-    // Apply distance and overlap penalties
-    for (let cand of scored) {
-      // Calculate label center position (commented out as not currently used)
-      // const labelCenterX = cand.x + pt.width / 2;
-      // const labelCenterY = cand.y + pt.height / 2;
-      
-      // Distance calculation (commented out as not currently used)
-      // const distance = Math.sqrt(
-      //   Math.pow(labelCenterX - pt.x, 2) + 
-      //   Math.pow(labelCenterY - pt.y, 2)
-      // );
-      
-      // Minimum distance requirement (point radius + 1px boundary)
-      const pointRadius = 6; // Assuming default point size
-      const boundaryBuffer = 1; // 1px boundary around the point
-      const exclusionRadius = pointRadius + boundaryBuffer; // Total exclusion zone (7px)
-      
-      // Check if any corner of the label box is within the exclusion zone
-      const labelCorners = [
-        { x: cand.x, y: cand.y },                          // top-left
-        { x: cand.x + pt.width, y: cand.y },              // top-right
-        { x: cand.x, y: cand.y + pt.height },              // bottom-left
-        { x: cand.x + pt.width, y: cand.y + pt.height }    // bottom-right
-      ];
-      
-      let violatesBoundary = false;
-      for (const corner of labelCorners) {
-        const cornerDistance = Math.sqrt(
-          Math.pow(corner.x - pt.x, 2) + 
-          Math.pow(corner.y - pt.y, 2)
-        );
-        if (cornerDistance < exclusionRadius) {
-          violatesBoundary = true;
-          break;
-        }
-      }
-      
-      // Also check if the label box overlaps with the exclusion zone
-      const labelLeft = cand.x;
-      const labelRight = cand.x + pt.width;
-      const labelTop = cand.y;
-      const labelBottom = cand.y + pt.height;
-      
-      // Point exclusion zone bounds
-      const exclusionLeft = pt.x - exclusionRadius;
-      const exclusionRight = pt.x + exclusionRadius;
-      const exclusionTop = pt.y - exclusionRadius;
-      const exclusionBottom = pt.y + exclusionRadius;
-      
-      // Check for overlap with exclusion zone
-      const overlapsHorizontally = labelLeft < exclusionRight && labelRight > exclusionLeft;
-      const overlapsVertically = labelTop < exclusionBottom && labelBottom > exclusionTop;
-      
-      if ((overlapsHorizontally && overlapsVertically) || violatesBoundary) {
+    // Labels must keep clear of their own point
+    const clear: typeof scored = [];
+    for (const cand of scored) {
+      if (this.violatesBoundary(pt, cand)) {
         cand.score -= 100000; // massive penalty for violating the 1px boundary
+        cand.scoreBreakdown.boundaryPenalty = -100000;
+      } else {
+        clear.push(cand);
       }
     }
 
+    if (this.options.mode === 'anneal') {
+      this.candidateSets.set(pt, clear.map(c => ({
+        x: c.x,
+        y: c.y,
+        rotation: c.rotation,
+        cost: -c.positionScore,
+        leader: leaderFor(pt, { x: c.x, y: c.y, width: pt.width, height: pt.height, rotation: c.rotation })
+      })));
+    }
+
     // Pick candidate with max score
-    scored.sort((a, b) => b.score - a.score);
-    const chosen = scored[0];
+    const chosen = [...scored].sort((a, b) => b.score - a.score)[0];
+    const dropped = chosen.score <= -this.options.overlapPenalty;
+
+    // Record every candidate for the debug overlay, dropped labels included
+    if (this.options.debug) {
+      this.debugInfo.push({
+        point: pt,
+        candidates: scored.map(({ x, y, rotation, score, scoreBreakdown }) => ({ x, y, rotation, score, scoreBreakdown })),
+        selectedCandidateIndex: dropped ? -1 : scored.indexOf(chosen),
+        placedLabels: this.placedLabels.map(l => ({
+          x: l.x,
+          y: l.y,
+          text: l.text
+        }))
+      });
+    }
     
     // If the best candidate still has overlap penalty, skip this label
-    if (chosen.score <= -100000) {
-      console.warn(`Could not place label "${pt.text}" without overlap`);
+    if (dropped) {
       return null;
     }
-    
-    const selectedCandidateIndex = scored.findIndex(c => c === chosen);
 
     // Label center position (commented out as not currently used)
     // const labelCenterX = chosen.x + pt.width / 2;
@@ -336,51 +410,171 @@ export class LabelPlacer {
     //   Math.pow(labelCenterY - pt.y, 2)
     // );
 
-    // Add debug info for this point
-    this.debugInfo.push({
-      point: pt,
-      candidates: debugCandidates,
-      selectedCandidateIndex,
-      placedLabels: this.placedLabels.map(l => ({
-        x: l.x,
-        y: l.y,
-        text: l.text
-      }))
-    });
-
     // Double-check for overlaps before returning
-    const labelPadding = 2;
-    const finalCheck = this.tree.search({
-      minX: chosen.x - labelPadding,
-      minY: chosen.y - labelPadding,
-      maxX: chosen.x + pt.width + labelPadding,
-      maxY: chosen.y + pt.height + labelPadding,
-    });
+    const finalCheck = this.overlapping({ x: chosen.x, y: chosen.y, width: pt.width, height: pt.height, rotation: chosen.rotation });
     
-    if (finalCheck.length > 0) {
+    if (finalCheck.length > 0 && this.options.debug) {
       console.warn(`Label "${pt.text}" would overlap with ${finalCheck.length} existing labels`);
     }
 
-    return {
-      x: chosen.x,
-      y: chosen.y,
-      width: pt.width,
-      height: pt.height,
-      rotation: chosen.rotation,
-      text: pt.text,
-      forPoint: pt,
+    return this.toLabel(pt, chosen);
+  }
+
+  // Score of a label position on its own: covered points, edges, centring and
+  // distance to its point. Overlaps with other labels are scored separately.
+  private scorePosition(
+    pt: Point,
+    c: { x: number; y: number; rotation: number },
+    scoreBreakdown: Record<string, number> = {}
+  ): number {
+    let score = 0;
+    const labelBox = { x: c.x, y: c.y, width: pt.width, height: pt.height, rotation: c.rotation };
+
+    // 2) Covering other data points → medium penalty
+    const covered = this.pointTree.search(orientedBounds(labelBox))
+      .filter(box => box.point !== pt) // skip self
+      .filter(box => !c.rotation || containsPoint(labelBox, box.point));
+    if (covered.length > 0) {
+      const pointPenalty = covered.length * this.options.pointPenalty;
+      score -= pointPenalty;
+      scoreBreakdown.pointPenalty = -pointPenalty;
+    }
+
+    // Calculate label center position once
+    const labelCenterX = c.x + pt.width / 2;
+    const labelCenterY = c.y + pt.height / 2;
+    
+    // 2.5) Border proximity penalty (strongly discourage being near edges)
+    const borderDistances = {
+      left: labelCenterX,
+      right: this.chartSize.width - labelCenterX,
+      top: labelCenterY,
+      bottom: this.chartSize.height - labelCenterY
     };
+    
+    // Calculate minimum distance to any border
+    const minBorderDistance = Math.min(
+      borderDistances.left,
+      borderDistances.right,
+      borderDistances.top,
+      borderDistances.bottom
+    );
+    
+    // Strong penalty for being too close to any border
+    const borderThreshold = 10; // pixels
+    if (minBorderDistance < borderThreshold) {
+      // Quadratic penalty that gets much worse as we get closer to the edge
+      const borderPenalty = Math.pow((borderThreshold - minBorderDistance) / borderThreshold, 2) * 100;
+      score -= borderPenalty;
+      scoreBreakdown.borderPenalty = -borderPenalty;
+    }
+    
+    // 2.6) Prefer positions that are more centered in the chart
+    const centerX = this.chartSize.width / 2;
+    const centerY = this.chartSize.height / 2;
+    
+    // Calculate distance from center (normalized to 0-1)
+    const dx = (labelCenterX - centerX) / (this.chartSize.width / 2);
+    const dy = (labelCenterY - centerY) / (this.chartSize.height / 2);
+    const distanceFromCenter = Math.sqrt(dx * dx + dy * dy) / Math.SQRT2; // Normalized to 0-1
+    
+    // Add a bonus for being more centered (helps with edge cases)
+    const centerBonus = (1 - distanceFromCenter) * 10; // Up to 10 points for being centered
+    score += centerBonus;
+    scoreBreakdown.centerBonus = centerBonus;
+
+    // 3) Out-of-bounds penalty (if any part of the label is outside the chart)
+    if (this.isOutOfBounds(labelBox)) {
+      score -= this.options.outOfBoundsPenalty;
+      scoreBreakdown.outOfBoundsPenalty = -this.options.outOfBoundsPenalty;
+    }
+
+    // 4) Distance from point - STRONGLY prefer closer positions
+    // A turned label points at its marker, so it is measured from its near end
+    // (plus half its height, as a level label beside the point would be)
+    const nearest = c.rotation !== 0 ? closestPoint(labelBox, pt) : null;
+    const distance = nearest
+      ? Math.hypot(nearest.x - pt.x, nearest.y - pt.y) + pt.height / 2
+      : Math.sqrt(
+        Math.pow(labelCenterX - pt.x, 2) + 
+        Math.pow(labelCenterY - pt.y, 2)
+      );
+    // Strong penalty for distance - the further away, the worse the score
+    // This ensures labels are placed as close as possible without violating boundaries
+    const distancePenalty = distance * 10; // 10 points penalty per pixel of distance
+    score -= distancePenalty;
+    scoreBreakdown.distancePenalty = -distancePenalty;
+
+    // 5) Level text reads best; turn labels only when that buys something
+    if (c.rotation !== 0) {
+      score -= ROTATION_PENALTY;
+      scoreBreakdown.rotationPenalty = -ROTATION_PENALTY;
+    }
+
+    return score;
+  }
+
+  // Whether a label at `c` would touch the exclusion zone around its own point
+  private violatesBoundary(pt: Point, c: { x: number; y: number; rotation: number }): boolean {
+    // Minimum distance requirement (point radius + 1px boundary)
+    const pointRadius = 6; // Assuming default point size
+    const boundaryBuffer = 1; // 1px boundary around the point
+    const exclusionRadius = pointRadius + boundaryBuffer; // Total exclusion zone (7px)
+
+    // A turned label keeps the same clearance from the point, measured in its own frame
+    if (c.rotation !== 0) {
+      const nearest = closestPoint({ x: c.x, y: c.y, width: pt.width, height: pt.height, rotation: c.rotation }, pt);
+      return Math.hypot(nearest.x - pt.x, nearest.y - pt.y) < exclusionRadius;
+    }
+    
+    // Check if any corner of the label box is within the exclusion zone
+    const labelCorners = [
+      { x: c.x, y: c.y },                          // top-left
+      { x: c.x + pt.width, y: c.y },              // top-right
+      { x: c.x, y: c.y + pt.height },              // bottom-left
+      { x: c.x + pt.width, y: c.y + pt.height }    // bottom-right
+    ];
+    
+    let violatesBoundary = false;
+    for (const corner of labelCorners) {
+      const cornerDistance = Math.sqrt(
+        Math.pow(corner.x - pt.x, 2) + 
+        Math.pow(corner.y - pt.y, 2)
+      );
+      if (cornerDistance < exclusionRadius) {
+        violatesBoundary = true;
+        break;
+      }
+    }
+    
+    // Also check if the label box overlaps with the exclusion zone
+    const labelLeft = c.x;
+    const labelRight = c.x + pt.width;
+    const labelTop = c.y;
+    const labelBottom = c.y + pt.height;
+    
+    // Point exclusion zone bounds
+    const exclusionLeft = pt.x - exclusionRadius;
+    const exclusionRight = pt.x + exclusionRadius;
+    const exclusionTop = pt.y - exclusionRadius;
+    const exclusionBottom = pt.y + exclusionRadius;
+    
+    // Check for overlap with exclusion zone
+    const overlapsHorizontally = labelLeft < exclusionRight && labelRight > exclusionLeft;
+    const overlapsVertically = labelTop < exclusionBottom && labelBottom > exclusionTop;
+    return (overlapsHorizontally && overlapsVertically) || violatesBoundary;
   }
 
   // Check if a label box is out of bounds of the chart area
-  private isOutOfBounds(box: { x: number; y: number; width: number; height: number }): boolean {
+  private isOutOfBounds(box: OrientedBox): boolean {
     // Add a small margin (1px) to ensure labels don't touch the very edge
     const margin = 1;
+    const bounds = orientedBounds(box);
     return (
-      box.x < margin ||
-      box.y < margin ||
-      box.x + box.width > this.chartSize.width - margin ||
-      box.y + box.height > this.chartSize.height - margin
+      bounds.minX < margin ||
+      bounds.minY < margin ||
+      bounds.maxX > this.chartSize.width - margin ||
+      bounds.maxY > this.chartSize.height - margin
     );
   }
 
@@ -390,9 +584,7 @@ export class LabelPlacer {
     const { radius, rings, anglesPerRing } = this.options;
     
     // Calculate minimum safe radius considering point size and 1px boundary
-    const pointRadius = 6; // Default point size
-    const boundaryBuffer = 1; // 1px boundary
-    const exclusionRadius = pointRadius + boundaryBuffer; // 7px total
+    const exclusionRadius = POINT_EXCLUSION_RADIUS;
     
     // Get chart boundaries with margin
     const margin = 1;
@@ -554,6 +746,29 @@ export class LabelPlacer {
       }
     }
 
+    // Turned labels: the centre sits out along each direction, just far enough
+    // that the turned box clears the point's exclusion zone by `gap`
+    for (const rotation of this.options.rotations) {
+      if (rotation === 0) continue;
+      const cos = Math.cos(rotation);
+      const sin = Math.sin(rotation);
+      for (let i = 0; i < ROTATED_DIRECTIONS; i++) {
+        const angle = (i / ROTATED_DIRECTIONS) * Math.PI * 2;
+        const ux = Math.cos(angle);
+        const uy = Math.sin(angle);
+        // How far the turned box reaches from its centre along the direction
+        const halfExtent = Math.abs(ux * cos + uy * sin) * pt.width / 2 + Math.abs(-ux * sin + uy * cos) * pt.height / 2;
+        for (const gap of [exclusionRadius, exclusionRadius + 5, exclusionRadius + 10]) {
+          candidates.push({
+            x: pt.x + ux * (halfExtent + gap) - pt.width / 2,
+            y: pt.y + uy * (halfExtent + gap) - pt.height / 2,
+            rotation,
+            score: 0
+          });
+        }
+      }
+    }
+
     return candidates;
   }
 
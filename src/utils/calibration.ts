@@ -0,0 +1,112 @@
+// src/utils/calibration.ts
+// Fits where a map image sits in the world from landmarks whose pixel position
+// and world coordinates are both known. Two landmarks give a per-axis scale
+// and offset; three or more give a full affine fit by least squares, which
+// also absorbs a rotated or sheared render.
+
+import { AffineMatrix, CalibrationPoint, MapCalibration } from '../types';
+
+export const MIN_CALIBRATION_POINTS = 2;
+
+export type CalibrationResult =
+  | { ok: true; calibration: MapCalibration }
+  | { ok: false; error: string };
+
+const EPSILON = 1e-9;
+
+export const applyAffine = ([a, b, c, d, e, f]: AffineMatrix, x: number, z: number): { x: number; y: number } => ({
+  x: a * x + c * z + e,
+  y: b * x + d * z + f
+});
+
+// Inverse mapping, or null when the matrix collapses the plane
+export function invertAffine([a, b, c, d, e, f]: AffineMatrix): AffineMatrix | null {
+  const det = a * d - b * c;
+  if (Math.abs(det) < EPSILON) return null;
+  return [d / det, -b / det, -c / det, a / det, (c * f - d * e) / det, (b * e - a * f) / det];
+}
+
+// a·b for affine maps applied right to left
+export function composeAffine(
+  [a1, b1, c1, d1, e1, f1]: AffineMatrix,
+  [a2, b2, c2, d2, e2, f2]: AffineMatrix
+): AffineMatrix {
+  return [
+    a1 * a2 + c1 * b2,
+    b1 * a2 + d1 * b2,
+    a1 * c2 + c1 * d2,
+    b1 * c2 + d1 * d2,
+    a1 * e2 + c1 * f2 + e1,
+    b1 * e2 + d1 * f2 + f1
+  ];
+}
+
+function fitAxisAligned([p, q]: CalibrationPoint[]): AffineMatrix | string {
+  const dx = q.worldX - p.worldX;
+  const dz = q.worldZ - p.worldZ;
+  if (Math.abs(dx) < EPSILON || Math.abs(dz) < EPSILON) {
+    return 'The two landmarks must differ in both X and Z';
+  }
+  const a = (q.imageX - p.imageX) / dx;
+  const d = (q.imageY - p.imageY) / dz;
+  return [a, 0, 0, d, p.imageX - a * p.worldX, p.imageY - d * p.worldZ];
+}
+
+// Solve the 3×3 system m·v = rhs by Cramer's rule
+function solve3(m: number[][], rhs: number[]): number[] | null {
+  const det = (k: number[][]) =>
+    k[0][0] * (k[1][1] * k[2][2] - k[1][2] * k[2][1]) -
+    k[0][1] * (k[1][0] * k[2][2] - k[1][2] * k[2][0]) +
+    k[0][2] * (k[1][0] * k[2][1] - k[1][1] * k[2][0]);
+  const base = det(m);
+  if (Math.abs(base) < EPSILON) return null;
+  return [0, 1, 2].map(col => det(m.map((row, i) => row.map((value, j) => (j === col ? rhs[i] : value)))) / base);
+}
+
+function fitAffine(points: CalibrationPoint[]): AffineMatrix | string {
+  // Normal equations for px and py against the design rows [x, z, 1]
+  const normal = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  const rhsX = [0, 0, 0];
+  const rhsY = [0, 0, 0];
+  for (const point of points) {
+    const row = [point.worldX, point.worldZ, 1];
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) normal[i][j] += row[i] * row[j];
+      rhsX[i] += row[i] * point.imageX;
+      rhsY[i] += row[i] * point.imageY;
+    }
+  }
+  const px = solve3(normal, rhsX);
+  const py = solve3(normal, rhsY);
+  if (!px || !py) return 'The landmarks must not all lie on one line';
+  return [px[0], py[0], px[1], py[1], px[2], py[2]];
+}
+
+// Fit the landmarks and measure how far each one lands from its typed world position
+export function fitCalibration(points: CalibrationPoint[]): CalibrationResult {
+  if (points.length < MIN_CALIBRATION_POINTS) {
+    return { ok: false, error: `Place at least ${MIN_CALIBRATION_POINTS} landmarks` };
+  }
+  const matrix = points.length === 2 ? fitAxisAligned(points) : fitAffine(points);
+  if (typeof matrix === 'string') return { ok: false, error: matrix };
+  const inverse = invertAffine(matrix);
+  if (!inverse) return { ok: false, error: 'The landmarks do not span the map' };
+
+  const errors = points.map(point => {
+    const world = applyAffine(inverse, point.imageX, point.imageY);
+    return Math.hypot(world.x - point.worldX, world.y - point.worldZ);
+  });
+  return {
+    ok: true,
+    calibration: {
+      points,
+      matrix,
+      rmsError: Math.sqrt(errors.reduce((sum, e) => sum + e * e, 0) / errors.length),
+      maxError: Math.max(...errors)
+    }
+  };
+}
+
+// Landmarks beyond the minimum needed for an exact fit; without spare ones a
+// zero error says nothing about the fit's quality
+export const spareLandmarks = (count: number): number => count - (count === 2 ? 2 : 3);
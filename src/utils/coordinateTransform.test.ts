@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { TransformOptions, createCoordinateTransform } from './coordinateTransform';
+
+// 101×101 pixel image over -50..50 in both axes: one pixel per block, world
+// origin on the centre pixel (50, 50)
+const base: TransformOptions = {
+  imageWidth: 101,
+  imageHeight: 101,
+  bounds: { xMin: -50, xMax: 50, zMin: -50, zMax: 50 }
+};
+
+const chartOf = (options: TransformOptions, x: number, z: number) => {
+  const [point] = createCoordinateTransform({ ...base, ...options }).worldPathToChart([{ x, z }]);
+  return point;
+};
+
+const expectClose = (actual: { x: number; y: number }, expected: { x: number; y: number }) => {
+  expect(actual.x).toBeCloseTo(expected.x, 9);
+  expect(actual.y).toBeCloseTo(expected.y, 9);
+};
+
+describe('createCoordinateTransform', () => {
+  it('puts east to the right and south down at 0°', () => {
+    expectClose(chartOf({}, 0, 0), { x: 50, y: 50 });
+    expectClose(chartOf({}, 10, 0), { x: 60, y: 50 });
+    expectClose(chartOf({}, 0, 10), { x: 50, y: 60 });
+    expectClose(chartOf({}, -50, -50), { x: 0, y: 0 });
+  });
+
+  it('stretches the default bounds edge pixel to edge pixel', () => {
+    const transform = createCoordinateTransform({ imageWidth: 321, imageHeight: 321 });
+    expect(transform.worldToChart(-160, -160)).toEqual({ x: 0, y: 0 });
+    expect(transform.worldToChart(160, 160)).toEqual({ x: 320, y: 320 });
+  });
+
+  it('rotates clockwise about the image centre at 90°', () => {
+    expectClose(chartOf({ rotation: 90 }, 0, 0), { x: 50, y: 50 });
+    expectClose(chartOf({ rotation: 90 }, 10, 0), { x: 50, y: 60 }); // east points down
+    expectClose(chartOf({ rotation: 90 }, 0, -10), { x: 60, y: 50 }); // north points right
+  });
+
+  it('rotates by arbitrary angles without changing distances', () => {
+    const rad = (30 * Math.PI) / 180;
+    expectClose(chartOf({ rotation: 30 }, 10, 0), { x: 50 + 10 * Math.cos(rad), y: 50 + 10 * Math.sin(rad) });
+    const point = chartOf({ rotation: 137 }, 12, -31);
+    expect(Math.hypot(point.x - 50, point.y - 50)).toBeCloseTo(Math.hypot(12, -31), 9);
+  });
+
+  it('mirrors each axis on its own', () => {
+    expectClose(chartOf({ mirrorX: true }, 10, 5), { x: 40, y: 55 });
+    expectClose(chartOf({ mirrorZ: true }, 10, 5), { x: 60, y: 45 });
+  });
+
+  it('shows south-up as a half turn of north-up', () => {
+    expectClose(chartOf({ orientation: 'south-up' }, 10, -20), { x: 40, y: 70 });
+    expectClose(chartOf({ orientation: 'south-up', rotation: 90 }, 10, 0), chartOf({ rotation: 270 }, 10, 0));
+  });
+
+  it('keeps imageMatrix in step with the points', () => {
+    const [a, b, c, d] = createCoordinateTransform({ ...base, rotation: 90, mirrorX: true }).imageMatrix;
+    expectClose({ x: a * 10, y: b * 10 }, { x: 0, y: -10 }); // mirrored east, then turned
+    expectClose({ x: c * 10, y: d * 10 }, { x: -10, y: 0 });
+  });
+
+  describe('chartToWorld(worldToChart(p))', () => {
+    const cases: Array<[string, TransformOptions]> = [
+      ['0°', {}],
+      ['90°', { rotation: 90 }],
+      ['180°', { rotation: 180 }],
+      ['arbitrary angle', { rotation: 37.5 }],
+      ['mirrored', { mirrorX: true, mirrorZ: true, rotation: 270 }],
+      ['south-up', { orientation: 'south-up', rotation: 12 }],
+      ['calibrated', { calibration: [0.5, 0.1, -0.1, 0.5, 50, 50], rotation: 45 }]
+    ];
+    const points = [{ x: 0, z: 0 }, { x: 17, z: -42 }, { x: -50, z: 50 }, { x: 33, z: 8 }];
+
+    it.each(cases)('returns the original point (%s)', (_name, options) => {
+      const transform = createCoordinateTransform({ ...base, ...options });
+      for (const point of points) {
+        const [chart] = transform.worldPathToChart([point]);
+        const world = transform.chartToWorld(chart.x, chart.y);
+        expect(world.x).toBeCloseTo(point.x, 9);
+        expect(world.z).toBeCloseTo(point.z, 9);
+      }
+    });
+
+    it.each(cases)('lands back on the same pixel after rounding (%s)', (_name, options) => {
+      const transform = createCoordinateTransform({ ...base, ...options });
+      for (const point of points) {
+        const chart = transform.worldToChart(point.x, point.z);
+        const world = transform.chartToWorld(chart.x, chart.y);
+        expect(transform.worldToChart(world.x, world.z)).toEqual(chart);
+      }
+    });
+  });
+});
@@ -0,0 +1,130 @@
+// src/utils/coordinateTransform.ts
+// The single world ↔ chart conversion. Chart units are image pixels with y
+// growing downwards. World coordinates first land on the unrotated map image,
+// either through its calibration or by stretching the world bounds over it;
+// the view can then rotate by any angle, mirror either axis and show the map
+// north-up or south-up. Points, the background image, tooltips and labels all
+// go through the same matrix so they stay lined up.
+
+import type { Chart as ChartJS } from 'chart.js';
+import { AffineMatrix, MapOrientation } from '../types';
+import { applyAffine, composeAffine, invertAffine } from './calibration';
+
+export interface WorldBounds {
+  xMin: number;
+  xMax: number;
+  zMin: number;
+  zMax: number;
+}
+
+export const DEFAULT_WORLD_BOUNDS: WorldBounds = { xMin: -160, xMax: 160, zMin: -160, zMax: 160 };
+
+export interface TransformOptions {
+  imageWidth?: number;  // defaults to one pixel per block
+  imageHeight?: number;
+  rotation?: number;    // degrees, clockwise on screen
+  mirrorX?: boolean;    // flip the image left/right
+  mirrorZ?: boolean;    // flip the image top/bottom
+  orientation?: MapOrientation;
+  bounds?: WorldBounds; // stretched over the image when there is no calibration
+  calibration?: AffineMatrix; // world → image pixels
+}
+
+// 2×2 matrix [a, b, c, d] acting as x' = a·x + c·y, y' = b·x + d·y (CSS/canvas order)
+export type Matrix2D = [number, number, number, number];
+
+export interface CoordinateTransform {
+  width: number;  // chart extent in image pixels
+  height: number;
+  matrix: AffineMatrix; // world → chart, for code that must not hold functions (plugin options)
+  worldToChart(x: number, z: number): { x: number; y: number };
+  chartToWorld(x: number, y: number): { x: number; z: number };
+  // Unrounded chart positions of a world outline
+  worldPathToChart(path: Array<{ x: number; z: number }>): Array<{ x: number; y: number }>;
+  // Corners of a world-aligned rectangle, which is any quadrilateral once rotated
+  worldRectToChart(rect: WorldBounds): Array<{ x: number; y: number }>;
+  // How the unrotated map image must be transformed around its centre
+  imageMatrix: Matrix2D;
+}
+
+// Orientation and mirroring first, then the view rotation
+function orientationMatrix(options: TransformOptions): Matrix2D {
+  const degrees = (options.rotation ?? 0) + (options.orientation === 'south-up' ? 180 : 0);
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const sx = options.mirrorX ? -1 : 1;
+  const sz = options.mirrorZ ? -1 : 1;
+  return [cos * sx, sin * sx, -sin * sz, cos * sz];
+}
+
+// Stretch the bounds over the whole image, edge pixel to edge pixel
+function boundsToImage(bounds: WorldBounds, width: number, height: number): AffineMatrix {
+  const scaleX = (width - 1) / (bounds.xMax - bounds.xMin);
+  const scaleY = (height - 1) / (bounds.zMax - bounds.zMin);
+  return [scaleX, 0, 0, scaleY, -bounds.xMin * scaleX, -bounds.zMin * scaleY];
+}
+
+export function createCoordinateTransform(options: TransformOptions = {}): CoordinateTransform {
+  const bounds = options.bounds ?? DEFAULT_WORLD_BOUNDS;
+  const width = options.imageWidth || bounds.xMax - bounds.xMin;
+  const height = options.imageHeight || bounds.zMax - bounds.zMin;
+  const toImage = options.calibration ?? boundsToImage(bounds, width, height);
+
+  // Orient the image about its centre pixel
+  const [a, b, c, d] = orientationMatrix(options);
+  const cx = (width - 1) / 2;
+  const cy = (height - 1) / 2;
+  const orient: AffineMatrix = [a, b, c, d, cx - a * cx - c * cy, cy - b * cx - d * cy];
+
+  const toChart = composeAffine(orient, toImage);
+  // A degenerate calibration would already have been rejected by the fit
+  const toWorld = invertAffine(toChart) ?? [1, 0, 0, 1, 0, 0];
+  const pathToChart = (path: Array<{ x: number; z: number }>) =>
+    path.map(point => applyAffine(toChart, point.x, point.z));
+
+  return {
+    width,
+    height,
+    matrix: toChart,
+    worldToChart(x, z) {
+      const chart = applyAffine(toChart, x, z);
+      return { x: Math.round(chart.x), y: Math.round(chart.y) };
+    },
+    chartToWorld(x, y) {
+      const world = applyAffine(toWorld, x, y);
+      return { x: world.x, z: world.y };
+    },
+    worldPathToChart: pathToChart,
+    worldRectToChart(rect) {
+      return pathToChart([
+        { x: rect.xMin, z: rect.zMin },
+        { x: rect.xMax, z: rect.zMin },
+        { x: rect.xMax, z: rect.zMax },
+        { x: rect.xMin, z: rect.zMax }
+      ]);
+    },
+    imageMatrix: [a, b, c, d]
+  };
+}
+
+// Viewport position of a world coordinate on a rendered chart, through the
+// chart's current scales and any CSS scaling of its canvas
+export function worldToClient(
+  chart: ChartJS<'scatter'>,
+  transform: CoordinateTransform,
+  x: number,
+  z: number
+): { clientX: number; clientY: number } {
+  const rect = chart.canvas.getBoundingClientRect();
+  const position = transform.worldToChart(x, z);
+  return {
+    clientX: rect.left + chart.scales.x.getPixelForValue(position.x) * (rect.width / chart.width),
+    clientY: rect.top + chart.scales.y.getPixelForValue(position.y) * (rect.height / chart.height)
+  };
+}
+
+// CSS transform (with `transform-origin: 0 0`) that orients an element
+// showing the whole map image around its centre
+export const imageTransformCss = ([a, b, c, d]: Matrix2D): string =>
+  `translate(50%, 50%) matrix(${a}, ${b}, ${c}, ${d}, 0, 0) translate(-50%, -50%)`;
@@ -1,37 +1,44 @@
-import { DataPoint, SeriesType } from '../types';
-import Papa from 'papaparse';
+import { DataPoint, SeriesType, WorldProfile } from '../types';
+import { importCSVText } from './importPipeline';
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
 
-export const parseCSV = (csvContent: string): DataPoint[] => {
-  const results = Papa.parse(csvContent, { header: false });
-  
-  if (results.errors.length > 0) {
-    console.error('CSV parse errors:', results.errors);
-    return [];
-  }
+// A generated text file, addressed by its path inside an archive
+export interface ExportFile {
+  path: string;
+  content: string;
+}
 
-  const validSeries: SeriesType[] = ['Cyan', 'Blue', 'White', 'Red', 'Magenta', 'Green', 'Yellow', 'Black'];
-  
-  const rows = results.data as Array<[string, string, SeriesType]>;
-  return rows
-    .filter(([xStr, zStr, series]) => {
-      const x = Number(xStr);
-      const z = Number(zStr);
-      return !isNaN(x) && 
-             !isNaN(z) &&
-             validSeries.includes(series) &&
-             x >= -159 &&
-             x <= 159 &&
-             z >= -160 &&
-             z <= 160 &&
-             !(x >= -3 && x <= 3 && z >= -3 && z <= 3); // Area from (0,0) to (-3,-3) and (3,3)
-    })
-    .map(([xStr, zStr, series], index) => ({
-      id: `point-${Date.now()}-${index}`,
-      label: `${series} (${xStr}, ${zStr})`,
-      x: Number(xStr),
-      z: Number(zStr),
-      series
-    }));
+// Label given to points that have no custom name, e.g. "Red (12, -40)"
+export const autoLabel = (series: SeriesType, x: number, z: number): string => `${series} (${x}, ${z})`;
+
+// How a coordinate is copied: plain `x, z` or a teleport command that keeps the current height
+export type CoordinateFormat = 'plain' | 'teleport';
+
+export const formatCoordinate = (x: number, z: number, format: CoordinateFormat): string =>
+  format === 'teleport' ? `/tp @s ${x} ~ ${z}` : `${x}, ${z}`;
+
+// Move a point, keeping a custom label but regenerating an automatic one
+export const movePoint = (point: DataPoint, x: number, z: number): DataPoint => ({
+  ...point,
+  x,
+  z,
+  label: point.label === autoLabel(point.series, point.x, point.z) ? autoLabel(point.series, x, z) : point.label
+});
+
+// Change a point's series, regenerating an automatic label like `movePoint`
+export const recolorPoint = (point: DataPoint, series: SeriesType): DataPoint => ({
+  ...point,
+  series,
+  label: point.label === autoLabel(point.series, point.x, point.z) ? autoLabel(series, point.x, point.z) : point.label
+});
+
+// Add a tag to a point unless it already has it
+export const tagPoint = (point: DataPoint, tag: string): DataPoint =>
+  point.tags?.includes(tag) ? point : { ...point, tags: [...(point.tags ?? []), tag] };
+
+// Parse CSV text through the shared import pipeline, keeping only accepted rows
+export const parseCSV = (csvContent: string, profile?: WorldProfile): DataPoint[] => {
+  return importCSVText(csvContent, undefined, undefined, profile).accepted;
 };
 
 export const generateSampleData = (count: number = 10): DataPoint[] => {
@@ -55,22 +62,56 @@ export const generateSampleData = (count: number = 10): DataPoint[] => {
   return sampleData;
 };
 
-export const saveDataToCSV = (data: DataPoint[]): void => {
-  // Convert data to CSV format
-  const csvContent = data.map(point => `${point.x},${point.z},${point.series}`).join('\n');
-  
-  // Create a blob and download link
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+export const downloadBlob = (blob: Blob, filename: string): void => {
   const link = document.createElement('a');
   const url = URL.createObjectURL(blob);
   
   // Set up the download
   link.setAttribute('href', url);
-  link.setAttribute('download', 'scatter_plot_data.csv');
+  link.setAttribute('download', filename);
   link.style.visibility = 'hidden';
   
   // Trigger download
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
-};
\ No newline at end of file
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const createZip = (files: ExportFile[]): Blob => {
+  const entries: Record<string, Uint8Array> = {};
+  files.forEach(file => {
+    entries[file.path] = strToU8(file.content);
+  });
+  return new Blob([zipSync(entries)], { type: 'application/zip' });
+};
+
+// Text entries of a zip archive; directories are skipped
+export const readZip = (data: Uint8Array): ExportFile[] =>
+  Object.entries(unzipSync(data))
+    .filter(([path]) => !path.endsWith('/'))
+    .map(([path, content]) => ({ path, content: strFromU8(content) }));
+
+export const saveDataToCSV = (data: DataPoint[]): void => {
+  // Convert data to CSV format
+  const csvContent = data.map(point => `${point.x},${point.z},${point.series}`).join('\n');
+  
+  // Create a blob and download it
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  downloadBlob(blob, 'scatter_plot_data.csv');
+};
+
+// Quote a CSV cell that holds a separator, a quote or a line break
+const csvCell = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Selected points with their labels and tags; the header lets the import
+// pipeline map the columns back when the file is loaded again
+export const saveSelectionToCSV = (points: DataPoint[]): void => {
+  const lines = [
+    'x,z,series,label,tags',
+    ...points.map(point =>
+      [point.x, point.z, point.series, csvCell(point.label), csvCell((point.tags ?? []).join('; '))].join(','))
+  ];
+  const blob = new Blob([lines.join('\n')], { type: 'text/csv;charset=utf-8;' });
+  downloadBlob(blob, `pearl-hunt-selection-${points.length}.csv`);
+};
@@ -0,0 +1,112 @@
+// src/utils/datapack.ts
+// Datapack that marks every pearl in-world: a place function summons a named,
+// series-coloured marker at each point and a cleanup function removes them.
+import { DataPoint, SeriesType, SERIES_COLORS } from '../types';
+import { ExportFile } from './dataUtils';
+
+export type DatapackMarker = 'armor_stand' | 'text_display';
+
+export const DATAPACK_MARKER_LABELS: Record<DatapackMarker, string> = {
+  armor_stand: 'Glowing armor stands',
+  text_display: 'Text displays'
+};
+
+export interface DatapackVersion {
+  id: string;
+  label: string;
+  packFormat: number;
+  supportsTextDisplay: boolean; // text_display entities exist from 1.19.4
+  singularFolders: boolean;     // 1.21 renamed functions/ to function/
+}
+
+// Newest first; the first entry is the default
+export const DATAPACK_VERSIONS: DatapackVersion[] = [
+  { id: '1.21.4', label: '1.21.4', packFormat: 61, supportsTextDisplay: true, singularFolders: true },
+  { id: '1.21.1', label: '1.21 – 1.21.1', packFormat: 48, supportsTextDisplay: true, singularFolders: true },
+  { id: '1.20.6', label: '1.20.5 – 1.20.6', packFormat: 41, supportsTextDisplay: true, singularFolders: false },
+  { id: '1.20.4', label: '1.20.3 – 1.20.4', packFormat: 26, supportsTextDisplay: true, singularFolders: false },
+  { id: '1.20.1', label: '1.20 – 1.20.1', packFormat: 15, supportsTextDisplay: true, singularFolders: false },
+  { id: '1.19.4', label: '1.19.4', packFormat: 12, supportsTextDisplay: true, singularFolders: false },
+  { id: '1.18.2', label: '1.18.2', packFormat: 9, supportsTextDisplay: false, singularFolders: false },
+  { id: '1.16.5', label: '1.16.2 – 1.16.5', packFormat: 6, supportsTextDisplay: false, singularFolders: false }
+];
+
+export interface DatapackOptions {
+  version: DatapackVersion;
+  marker: DatapackMarker;
+  y: number;
+}
+
+const NAMESPACE = 'pearlhunt';
+const TAG = 'pearlhunt';
+
+// Closest Minecraft chat/team colour for each series
+const SERIES_CHAT_COLORS: Record<SeriesType, string> = {
+  Cyan: 'aqua',
+  Blue: 'blue',
+  White: 'white',
+  Red: 'red',
+  Magenta: 'light_purple',
+  Green: 'green',
+  Yellow: 'yellow',
+  Black: 'black'
+};
+
+const seriesTag = (series: SeriesType) => `${TAG}_${series.toLowerCase()}`;
+
+// A JSON text component inside a single-quoted SNBT string
+const textComponent = (text: string, color: string) =>
+  `'${JSON.stringify({ text, color }).replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+// Summon at the centre of the block column
+const blockCentre = (value: number) => Math.round(value) + 0.5;
+
+function summonCommand(point: DataPoint, options: DatapackOptions): string {
+  const name = textComponent(point.label, SERIES_CHAT_COLORS[point.series]);
+  const tags = `Tags:["${TAG}","${seriesTag(point.series)}"]`;
+  const position = `${blockCentre(point.x)} ${options.y} ${blockCentre(point.z)}`;
+  if (options.marker === 'text_display') {
+    return `summon minecraft:text_display ${position} {text:${name},billboard:"center",see_through:1b,${tags}}`;
+  }
+  return `summon minecraft:armor_stand ${position} ` +
+    `{CustomName:${name},CustomNameVisible:1b,Glowing:1b,NoGravity:1b,Invulnerable:1b,${tags}}`;
+}
+
+export function generateDatapack(points: DataPoint[], options: DatapackOptions): ExportFile[] {
+  const series = (Object.keys(SERIES_COLORS) as SeriesType[]).filter(s => points.some(p => p.series === s));
+  const count = `${points.length} pearl${points.length !== 1 ? 's' : ''}`;
+  const functionDir = `data/${NAMESPACE}/${options.version.singularFolders ? 'function' : 'functions'}`;
+
+  const place = [
+    `# Summons a marker at each of ${count}.`,
+    '# Markers only appear in loaded chunks, so run this while standing near the pearls.',
+    `function ${NAMESPACE}:cleanup`,
+    // Teams give the glowing outline its series colour
+    ...series.flatMap(s => [
+      `team add ${seriesTag(s)}`,
+      `team modify ${seriesTag(s)} color ${SERIES_CHAT_COLORS[s]}`
+    ]),
+    ...points.map(point => summonCommand(point, options)),
+    ...series.map(s => `team join ${seriesTag(s)} @e[tag=${seriesTag(s)}]`),
+    `tellraw @s ${JSON.stringify({ text: `Placed markers for ${count}`, color: 'green' })}`
+  ];
+
+  const cleanup = [
+    '# Removes every PearlHunt marker and team.',
+    `kill @e[tag=${TAG}]`,
+    ...(Object.keys(SERIES_COLORS) as SeriesType[]).map(s => `team remove ${seriesTag(s)}`)
+  ];
+
+  const packMeta = {
+    pack: {
+      pack_format: options.version.packFormat,
+      description: `PearlHunt markers for ${count} (/function ${NAMESPACE}:place)`
+    }
+  };
+
+  return [
+    { path: 'pack.mcmeta', content: JSON.stringify(packMeta, null, 2) },
+    { path: `${functionDir}/place.mcfunction`, content: place.join('\n') + '\n' },
+    { path: `${functionDir}/cleanup.mcfunction`, content: cleanup.join('\n') + '\n' }
+  ];
+}
@@ -0,0 +1,179 @@
+// src/utils/exportImage.ts
+// Composites the background map, the Chart.js canvas (markers and placed
+// labels) and an optional title and legend into a single PNG.
+import { Chart } from 'chart.js';
+import { SeriesType, SERIES_COLORS } from '../types';
+import { downloadBlob } from './dataUtils';
+import { ViewWindow } from './mapView';
+import { Matrix2D } from './coordinateTransform';
+
+export type ExportBackground = 'transparent' | 'themed';
+
+// Options shared by the PNG and SVG exporters
+export interface ChartExportOptions {
+  background: ExportBackground;
+  includeTitle: boolean;
+  includeLegend: boolean;
+  isDarkMode: boolean;
+  title?: string;
+  backgroundImage?: string;
+  backgroundImageOpacity?: number;
+  backgroundImageScale?: number;
+  viewWindow?: ViewWindow; // zoomed part of the map; the whole map when omitted
+  imageMatrix?: Matrix2D;  // rotation/mirroring of the map image around its centre
+}
+
+export interface PngExportOptions extends ChartExportOptions {
+  scale: number; // resolution multiplier (1 = on-screen size)
+}
+
+export const FONT_FAMILY = 'system-ui, -apple-system, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif';
+export const TITLE_FONT_SIZE = 20;
+export const LEGEND_FONT_SIZE = 12;
+export const BAND_PADDING = 12;
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load image ${src.slice(0, 64)}`));
+    img.src = src;
+  });
+}
+
+export const themeColors = (isDarkMode: boolean) => ({
+  background: isDarkMode ? '#111827' : '#FFFFFF', // gray-900 / white, matching the graph page
+  text: isDarkMode ? '#FFFFFF' : '#111827'
+});
+
+/**
+ * Re-render the chart at `scale` times its device pixel ratio and hand back
+ * a copy of the canvas, then restore the on-screen rendering.
+ */
+export function renderChartAtScale(chart: Chart, scale: number): HTMLCanvasElement {
+  const originalRatio = chart.options.devicePixelRatio;
+  const baseRatio = originalRatio ?? window.devicePixelRatio ?? 1;
+  try {
+    chart.options.devicePixelRatio = baseRatio * scale;
+    chart.resize();
+    chart.update('none');
+
+    const copy = document.createElement('canvas');
+    copy.width = chart.canvas.width;
+    copy.height = chart.canvas.height;
+    copy.getContext('2d')!.drawImage(chart.canvas, 0, 0);
+    return copy;
+  } finally {
+    chart.options.devicePixelRatio = originalRatio;
+    chart.resize();
+    chart.update('none');
+  }
+}
+
+// Series shown in the chart, in dataset order
+export function chartSeries(chart: Chart): SeriesType[] {
+  return chart.data.datasets
+    .map(dataset => dataset.label as SeriesType)
+    .filter(series => series in SERIES_COLORS);
+}
+
+function drawLegend(ctx: CanvasRenderingContext2D, series: SeriesType[], top: number, width: number, textColor: string) {
+  const swatch = LEGEND_FONT_SIZE * 0.8;
+  const gap = 16;
+  ctx.font = `${LEGEND_FONT_SIZE}px ${FONT_FAMILY}`;
+  ctx.textBaseline = 'middle';
+  ctx.textAlign = 'left';
+
+  const itemWidths = series.map(s => swatch + 6 + ctx.measureText(s).width);
+  const totalWidth = itemWidths.reduce((sum, w) => sum + w, 0) + gap * Math.max(0, series.length - 1);
+  let x = Math.max(BAND_PADDING, (width - totalWidth) / 2);
+  const y = top + BAND_PADDING + LEGEND_FONT_SIZE / 2;
+
+  series.forEach((s, i) => {
+    ctx.beginPath();
+    ctx.arc(x + swatch / 2, y, swatch / 2, 0, Math.PI * 2);
+    ctx.fillStyle = SERIES_COLORS[s];
+    ctx.fill();
+    ctx.strokeStyle = '#888888';
+    ctx.lineWidth = 1;
+    ctx.stroke();
+    ctx.fillStyle = textColor;
+    ctx.fillText(s, x + swatch + 6, y);
+    x += itemWidths[i] + gap;
+  });
+}
+
+export async function exportChartPNG(chart: Chart, options: PngExportOptions): Promise<Blob> {
+  const { scale, isDarkMode } = options;
+  const theme = themeColors(isDarkMode);
+  const mapWidth = chart.width;
+  const mapHeight = chart.height;
+
+  const titleText = options.includeTitle ? options.title?.trim() : '';
+  const titleBand = titleText ? TITLE_FONT_SIZE + BAND_PADDING * 2 : 0;
+  const series = options.includeLegend ? chartSeries(chart) : [];
+  const legendBand = series.length > 0 ? LEGEND_FONT_SIZE + BAND_PADDING * 2 : 0;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(mapWidth * scale);
+  canvas.height = Math.round((mapHeight + titleBand + legendBand) * scale);
+  const ctx = canvas.getContext('2d')!;
+  ctx.scale(scale, scale);
+
+  if (options.background === 'themed') {
+    ctx.fillStyle = theme.background;
+    ctx.fillRect(0, 0, mapWidth, mapHeight + titleBand + legendBand);
+  }
+
+  if (titleText) {
+    ctx.fillStyle = theme.text;
+    ctx.font = `600 ${TITLE_FONT_SIZE}px ${FONT_FAMILY}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(titleText, mapWidth / 2, titleBand / 2);
+  }
+
+  // The map area: background image and chart share the same scale transform
+  // around the centre, exactly like the on-screen container
+  const chartCanvas = renderChartAtScale(chart, scale);
+  ctx.save();
+  ctx.translate(0, titleBand);
+  ctx.beginPath();
+  ctx.rect(0, 0, mapWidth, mapHeight);
+  ctx.clip();
+  const imageScale = options.backgroundImageScale ?? 1;
+  ctx.translate(mapWidth / 2, mapHeight / 2);
+  ctx.scale(imageScale, imageScale);
+  ctx.translate(-mapWidth / 2, -mapHeight / 2);
+
+  if (options.backgroundImage) {
+    const image = await loadImage(options.backgroundImage);
+    const crop = options.viewWindow ?? { x: 0, y: 0, width: 1, height: 1 };
+    const [a, b, c, d] = options.imageMatrix ?? [1, 0, 0, 1];
+    // Same order as the on-screen CSS: zoom window, then orientation about the centre
+    ctx.save();
+    ctx.scale(1 / crop.width, 1 / crop.height);
+    ctx.translate(-crop.x * mapWidth, -crop.y * mapHeight);
+    ctx.translate(mapWidth / 2, mapHeight / 2);
+    ctx.transform(a, b, c, d, 0, 0);
+    ctx.translate(-mapWidth / 2, -mapHeight / 2);
+    ctx.globalAlpha = options.backgroundImageOpacity ?? 1;
+    ctx.drawImage(image, 0, 0, mapWidth, mapHeight);
+    ctx.restore();
+  }
+  ctx.drawImage(chartCanvas, 0, 0, mapWidth, mapHeight);
+  ctx.restore();
+
+  if (legendBand > 0) {
+    drawLegend(ctx, series, titleBand + mapHeight, mapWidth, theme.text);
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas export failed'))), 'image/png');
+  });
+}
+
+export async function downloadChartPNG(chart: Chart, options: PngExportOptions, filename: string = 'pearl-hunt.png') {
+  const blob = await exportChartPNG(chart, options);
+  downloadBlob(blob, filename);
+}
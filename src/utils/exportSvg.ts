@@ -0,0 +1,232 @@
+// src/utils/exportSvg.ts
+// Vector export of the current view. Markers become circles, labels become
+// <text> elements at the LabelBox positions the label plugin placed, the map
+// is embedded as an <image> layer, and the exclusion zones, world border and
+// grid are drawn as shapes from the same geometry their chart plugins use.
+import { Chart } from 'chart.js';
+import { SERIES_COLORS } from '../types';
+import { getLabelLayout, labelColor } from '../plugins/ChartJsLabelPlugin';
+import { HATCH_SPACING, RESTRICTED_AREA_COLORS, RestrictedAreaPluginOptions, toPixels } from '../plugins/RestrictedAreaPlugin';
+import { Pixel, RULER_FONT_FAMILY, WorldGridPluginOptions, worldGridGeometry } from '../plugins/WorldGridPlugin';
+import { downloadBlob } from './dataUtils';
+import {
+  BAND_PADDING,
+  ChartExportOptions,
+  FONT_FAMILY,
+  LEGEND_FONT_SIZE,
+  TITLE_FONT_SIZE,
+  chartSeries,
+  themeColors
+} from './exportImage';
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Standalone SVGs cannot resolve app-relative paths; inline the image instead
+async function toDataUrl(src: string): Promise<string> {
+  if (src.startsWith('data:')) return src;
+  const blob = await (await fetch(src)).blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Circles for every point, styled like their dataset
+function markerElements(chart: Chart): string[] {
+  const elements: string[] = [];
+  chart.data.datasets.forEach((dataset, datasetIndex) => {
+    if (!chart.isDatasetVisible(datasetIndex)) return;
+    const meta = chart.getDatasetMeta(datasetIndex);
+    const style = dataset as unknown as {
+      backgroundColor?: string;
+      borderColor?: string;
+      borderWidth?: number;
+      pointRadius?: number;
+    };
+    meta.data.forEach(element => {
+      const { x, y } = element.getProps(['x', 'y'], true) as { x: number; y: number };
+      elements.push(
+        `<circle cx="${round(x)}" cy="${round(y)}" r="${style.pointRadius ?? 3}" ` +
+        `fill="${style.backgroundColor ?? '#000000'}" stroke="${style.borderColor ?? 'none'}" ` +
+        `stroke-width="${style.borderWidth ?? 1}"/>`
+      );
+    });
+  });
+  return elements;
+}
+
+const pathData = (segments: Array<[Pixel, Pixel]>): string =>
+  segments.map(([from, to]) => `M${round(from.x)} ${round(from.y)}L${round(to.x)} ${round(to.y)}`).join('');
+
+const polygonPoints = (points: Pixel[]): string => points.map(p => `${round(p.x)},${round(p.y)}`).join(' ');
+
+// World border and hatched exclusion zones, like RestrictedAreaPlugin
+function restrictedAreaElements(chart: Chart): string[] {
+  const options = chart.options.plugins?.restrictedAreas as RestrictedAreaPluginOptions | undefined;
+  const areas = (options?.areas ?? []).filter(area => area.points.length >= 3);
+  const border = options?.border ?? [];
+  const elements: string[] = [];
+  if (border.length >= 3) {
+    elements.push(
+      `<polygon points="${polygonPoints(toPixels(chart, border))}" fill="none" ` +
+      `stroke="${options?.borderColor ?? RESTRICTED_AREA_COLORS.border}" stroke-width="2"/>`
+    );
+  }
+  if (areas.length > 0) {
+    const s = HATCH_SPACING;
+    elements.push(
+      `<defs><pattern id="hatch" width="${s}" height="${s}" patternUnits="userSpaceOnUse">` +
+      `<path d="M0 ${s}L${s} 0M-1 1L1 -1M${s - 1} ${s + 1}L${s + 1} ${s - 1}" ` +
+      `stroke="${options?.fillColor ?? RESTRICTED_AREA_COLORS.fill}" stroke-width="1.5"/></pattern></defs>`
+    );
+    for (const area of areas) {
+      elements.push(
+        `<polygon points="${polygonPoints(toPixels(chart, area.points))}" fill="url(#hatch)" ` +
+        `stroke="${options?.strokeColor ?? RESTRICTED_AREA_COLORS.stroke}" stroke-dasharray="4 3"/>`
+      );
+    }
+  }
+  return elements;
+}
+
+// Gridlines, origin crosshair and rulers, like WorldGridPlugin
+function gridElements(chart: Chart): string[] {
+  const geometry = worldGridGeometry(chart, (chart.options.plugins?.worldGrid ?? {}) as WorldGridPluginOptions);
+  if (!geometry) return [];
+  const elements = geometry.strokes.map(stroke =>
+    `<path d="${pathData(stroke.segments)}" fill="none" stroke="${stroke.color}" stroke-width="${stroke.width}"` +
+    `${stroke.dash ? ` stroke-dasharray="${stroke.dash.join(' ')}"` : ''}/>`
+  );
+  const rulers = geometry.rulers;
+  if (rulers) {
+    elements.push(
+      ...rulers.bands.map(band =>
+        `<rect x="${round(band.x)}" y="${round(band.y)}" width="${round(band.width)}" height="${round(band.height)}" fill="${rulers.background}"/>`
+      ),
+      `<path d="${pathData(rulers.ticks)}" stroke="${rulers.color}" stroke-width="1"/>`,
+      `<g font-family="${escapeXml(RULER_FONT_FAMILY)}" font-size="${rulers.fontSize}" fill="${rulers.color}" ` +
+      `text-anchor="middle" dominant-baseline="central">`,
+      ...rulers.labels.map(label => {
+        const x = round(label.x);
+        const y = round(label.y);
+        const rotate = label.vertical ? ` transform="rotate(-90 ${x} ${y})"` : '';
+        return `<text x="${x}" y="${y}"${rotate}>${escapeXml(label.text)}</text>`;
+      }),
+      '</g>'
+    );
+  }
+  return elements;
+}
+
+export async function exportChartSVG(chart: Chart, options: ChartExportOptions): Promise<string> {
+  const theme = themeColors(options.isDarkMode);
+  const mapWidth = chart.width;
+  const mapHeight = chart.height;
+
+  const titleText = options.includeTitle ? options.title?.trim() : '';
+  const titleBand = titleText ? TITLE_FONT_SIZE + BAND_PADDING * 2 : 0;
+  const series = options.includeLegend ? chartSeries(chart) : [];
+  const legendBand = series.length > 0 ? LEGEND_FONT_SIZE + BAND_PADDING * 2 : 0;
+  const totalHeight = mapHeight + titleBand + legendBand;
+
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+    `width="${mapWidth}" height="${totalHeight}" viewBox="0 0 ${mapWidth} ${totalHeight}">`,
+    `<defs><clipPath id="map-area"><rect x="0" y="0" width="${mapWidth}" height="${mapHeight}"/></clipPath></defs>`
+  ];
+
+  if (options.background === 'themed') {
+    parts.push(`<rect id="background" x="0" y="0" width="${mapWidth}" height="${totalHeight}" fill="${theme.background}"/>`);
+  }
+
+  if (titleText) {
+    parts.push(
+      `<text id="title" x="${mapWidth / 2}" y="${titleBand / 2}" text-anchor="middle" dominant-baseline="central" ` +
+      `font-family="${escapeXml(FONT_FAMILY)}" font-size="${TITLE_FONT_SIZE}" font-weight="600" fill="${theme.text}">` +
+      `${escapeXml(titleText)}</text>`
+    );
+  }
+
+  // Map area, scaled around its centre like the on-screen container
+  const imageScale = options.backgroundImageScale ?? 1;
+  const cx = mapWidth / 2;
+  const cy = mapHeight / 2;
+  parts.push(`<g transform="translate(0 ${titleBand})" clip-path="url(#map-area)">`);
+  parts.push(`<g transform="translate(${cx} ${cy}) scale(${imageScale}) translate(${-cx} ${-cy})">`);
+
+  if (options.backgroundImage) {
+    const href = await toDataUrl(options.backgroundImage);
+    // Same order as the on-screen CSS: zoom window, then orientation about the centre
+    const crop = options.viewWindow ?? { x: 0, y: 0, width: 1, height: 1 };
+    const [a, b, c, d] = options.imageMatrix ?? [1, 0, 0, 1];
+    parts.push(
+      `<g transform="scale(${1 / crop.width} ${1 / crop.height}) translate(${round(-crop.x * mapWidth)} ${round(-crop.y * mapHeight)}) ` +
+      `translate(${cx} ${cy}) matrix(${a} ${b} ${c} ${d} 0 0) translate(${-cx} ${-cy})">`,
+      `<image id="map" x="0" y="0" width="${mapWidth}" height="${mapHeight}" preserveAspectRatio="none" ` +
+      `opacity="${options.backgroundImageOpacity ?? 1}" href="${href}" xlink:href="${href}"/>`,
+      '</g>'
+    );
+  }
+
+  // Same order as the canvas: plugin overlays under the markers
+  parts.push('<g id="restricted-areas">', ...restrictedAreaElements(chart), '</g>');
+  parts.push('<g id="grid">', ...gridElements(chart), '</g>');
+  parts.push('<g id="points">', ...markerElements(chart), '</g>');
+
+  const layout = getLabelLayout(chart);
+  parts.push(
+    `<g id="labels" font-family="${escapeXml(layout.fontFamily)}" font-size="${layout.fontSize}" ` +
+    `text-anchor="middle" dominant-baseline="central">`
+  );
+  for (const label of layout.boxes) {
+    if (!label.leader) continue;
+    parts.push(
+      `<line x1="${round(label.forPoint.x)}" y1="${round(label.forPoint.y)}" x2="${round(label.leader.x)}" y2="${round(label.leader.y)}" ` +
+      `stroke="${labelColor(label, theme.text)}" stroke-opacity="0.8"/>`
+    );
+  }
+  for (const label of layout.boxes) {
+    const x = round(label.x + label.width / 2);
+    const y = round(label.y + label.height / 2);
+    const rotate = label.rotation ? ` transform="rotate(${round((label.rotation * 180) / Math.PI)} ${x} ${y})"` : '';
+    parts.push(`<text x="${x}" y="${y}"${rotate} fill="${labelColor(label, theme.text)}">${escapeXml(label.text)}</text>`);
+  }
+  parts.push('</g>', '</g>', '</g>');
+
+  if (legendBand > 0) {
+    const swatch = LEGEND_FONT_SIZE * 0.8;
+    const y = titleBand + mapHeight + BAND_PADDING + LEGEND_FONT_SIZE / 2;
+    // Without canvas text metrics, approximate each name at 0.6em per character
+    const itemWidths = series.map(s => swatch + 6 + s.length * LEGEND_FONT_SIZE * 0.6);
+    const gap = 16;
+    const totalWidth = itemWidths.reduce((sum, w) => sum + w, 0) + gap * (series.length - 1);
+    let x = Math.max(BAND_PADDING, (mapWidth - totalWidth) / 2);
+    parts.push(`<g id="legend" font-family="${escapeXml(FONT_FAMILY)}" font-size="${LEGEND_FONT_SIZE}" dominant-baseline="central">`);
+    series.forEach((s, i) => {
+      parts.push(
+        `<circle cx="${round(x + swatch / 2)}" cy="${y}" r="${swatch / 2}" fill="${SERIES_COLORS[s]}" stroke="#888888"/>`,
+        `<text x="${round(x + swatch + 6)}" y="${y}" fill="${theme.text}">${s}</text>`
+      );
+      x += itemWidths[i] + gap;
+    });
+    parts.push('</g>');
+  }
+
+  parts.push('</svg>');
+  return parts.join('\n');
+}
+
+export async function downloadChartSVG(chart: Chart, options: ChartExportOptions, filename: string = 'pearl-hunt.svg') {
+  const svg = await exportChartSVG(chart, options);
+  downloadBlob(new Blob([svg], { type: 'image/svg+xml;charset=utf-8;' }), filename);
+}
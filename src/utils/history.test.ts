@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { DataPoint } from '../types';
+import { HistoryCommand, HistoryState, MAX_HISTORY_ENTRIES, executeCommand, redo, undo } from './history';
+
+const point = (id: string, x = 0): DataPoint => ({ id, label: id, x, z: 0, series: 'Red' });
+
+const initial: HistoryState = {
+  present: { data: [point('a'), point('b'), point('c'), point('d')], chartConfig: { pointSize: 6 } },
+  past: [],
+  future: []
+};
+
+const configChange = (from: number, to: number, timestamp: number, coalesceKey = 'pointSize'): HistoryCommand => ({
+  type: 'updateConfig',
+  label: 'Point size',
+  before: { pointSize: from },
+  after: { pointSize: to },
+  coalesceKey,
+  timestamp
+});
+
+const ids = (state: HistoryState) => state.present.data.map(p => p.id);
+
+describe('history', () => {
+  it('undoes and redoes added points', () => {
+    const added = executeCommand(initial, { type: 'addPoints', label: 'Add', points: [point('e')] });
+    expect(ids(added)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(ids(undo(added))).toEqual(['a', 'b', 'c', 'd']);
+    expect(ids(redo(undo(added)))).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('puts deleted points back where they were', () => {
+    const deleted = executeCommand(initial, {
+      type: 'deletePoints',
+      label: 'Delete',
+      removed: [{ index: 3, point: point('d') }, { index: 1, point: point('b') }]
+    });
+    expect(ids(deleted)).toEqual(['a', 'c']);
+    expect(ids(undo(deleted))).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('restores updated points', () => {
+    const moved = executeCommand(initial, {
+      type: 'updatePoints',
+      label: 'Move',
+      changes: [{ index: 2, before: point('c'), after: point('c', 40) }]
+    });
+    expect(moved.present.data[2].x).toBe(40);
+    expect(undo(moved).present.data[2].x).toBe(0);
+  });
+
+  it('clears the redo stack on a new edit', () => {
+    const added = executeCommand(initial, { type: 'addPoints', label: 'Add', points: [point('e')] });
+    const branched = executeCommand(undo(added), { type: 'addPoints', label: 'Add', points: [point('f')] });
+    expect(branched.future).toEqual([]);
+    expect(redo(branched)).toBe(branched);
+  });
+
+  it('coalesces quick edits of the same config fields', () => {
+    let state = executeCommand(initial, configChange(6, 7, 1000));
+    state = executeCommand(state, configChange(7, 8, 1500));
+    state = executeCommand(state, configChange(8, 9, 2400));
+    expect(state.past).toHaveLength(1);
+    expect(state.present.chartConfig).toEqual({ pointSize: 9 });
+    expect(undo(state).present.chartConfig).toEqual({ pointSize: 6 });
+  });
+
+  it('keeps separate entries for slow edits or other fields', () => {
+    let state = executeCommand(initial, configChange(6, 7, 1000));
+    state = executeCommand(state, configChange(7, 8, 2000));
+    state = executeCommand(state, configChange(8, 9, 2100, 'gridOpacity'));
+    expect(state.past).toHaveLength(3);
+  });
+
+  it(`keeps at most ${MAX_HISTORY_ENTRIES} entries, dropping the oldest`, () => {
+    let state = initial;
+    for (let i = 0; i < MAX_HISTORY_ENTRIES + 5; i++) {
+      state = executeCommand(state, { type: 'addPoints', label: `Add ${i}`, points: [point(`p${i}`)] });
+    }
+    expect(state.past).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(state.past[0].label).toBe('Add 5');
+    while (state.past.length > 0) state = undo(state);
+    expect(ids(state)).toEqual(['a', 'b', 'c', 'd', 'p0', 'p1', 'p2', 'p3', 'p4']);
+  });
+
+  it('does nothing when there is nothing to undo or redo', () => {
+    expect(undo(initial)).toBe(initial);
+    expect(redo(initial)).toBe(initial);
+  });
+});
@@ -0,0 +1,123 @@
+// src/utils/history.ts
+// Command-based undo/redo history for the hunt document (points + chart config).
+// Each command stores only what it changed, so history size scales with the
+// edits made rather than with the number of points.
+import { ChartConfig, DataPoint } from '../types';
+
+export interface HuntDocument {
+  data: DataPoint[];
+  chartConfig: ChartConfig;
+}
+
+export type HistoryCommand =
+  | { type: 'addPoints'; label: string; points: DataPoint[] }
+  | { type: 'deletePoints'; label: string; removed: Array<{ index: number; point: DataPoint }> }
+  | { type: 'updatePoints'; label: string; changes: Array<{ index: number; before: DataPoint; after: DataPoint }> }
+  | { type: 'updateConfig'; label: string; before: ChartConfig; after: ChartConfig; coalesceKey: string; timestamp: number }
+  | { type: 'replaceDocument'; label: string; before: HuntDocument; after: HuntDocument };
+
+export interface HistoryState {
+  present: HuntDocument;
+  past: HistoryCommand[];   // oldest first
+  future: HistoryCommand[]; // next redo first
+}
+
+export const MAX_HISTORY_ENTRIES = 100;
+
+// Consecutive edits of the same config fields within this window become one entry
+const COALESCE_WINDOW_MS = 1000;
+
+export function applyCommand(doc: HuntDocument, command: HistoryCommand): HuntDocument {
+  switch (command.type) {
+    case 'addPoints':
+      return { ...doc, data: [...doc.data, ...command.points] };
+    case 'deletePoints': {
+      const indices = new Set(command.removed.map(r => r.index));
+      return { ...doc, data: doc.data.filter((_, i) => !indices.has(i)) };
+    }
+    case 'updatePoints': {
+      const data = [...doc.data];
+      command.changes.forEach(({ index, after }) => { data[index] = after; });
+      return { ...doc, data };
+    }
+    case 'updateConfig':
+      return { ...doc, chartConfig: command.after };
+    case 'replaceDocument':
+      return command.after;
+  }
+}
+
+export function revertCommand(doc: HuntDocument, command: HistoryCommand): HuntDocument {
+  switch (command.type) {
+    case 'addPoints':
+      return { ...doc, data: doc.data.slice(0, doc.data.length - command.points.length) };
+    case 'deletePoints': {
+      // Re-insert in ascending index order so every point lands where it was
+      const data = [...doc.data];
+      [...command.removed]
+        .sort((a, b) => a.index - b.index)
+        .forEach(({ index, point }) => data.splice(index, 0, point));
+      return { ...doc, data };
+    }
+    case 'updatePoints': {
+      const data = [...doc.data];
+      command.changes.forEach(({ index, before }) => { data[index] = before; });
+      return { ...doc, data };
+    }
+    case 'updateConfig':
+      return { ...doc, chartConfig: command.before };
+    case 'replaceDocument':
+      return command.before;
+  }
+}
+
+// Keys whose values differ between two configs
+export function changedConfigKeys(before: ChartConfig, after: ChartConfig): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof ChartConfig>;
+  return Array.from(keys).filter(key => before[key] !== after[key]).sort();
+}
+
+function canCoalesce(previous: HistoryCommand | undefined, next: HistoryCommand): boolean {
+  return previous?.type === 'updateConfig' &&
+    next.type === 'updateConfig' &&
+    previous.coalesceKey === next.coalesceKey &&
+    next.timestamp - previous.timestamp < COALESCE_WINDOW_MS;
+}
+
+// Apply a new command, clearing the redo stack and trimming the oldest entries
+export function executeCommand(state: HistoryState, command: HistoryCommand): HistoryState {
+  const present = applyCommand(state.present, command);
+  const previous = state.past[state.past.length - 1];
+
+  let past: HistoryCommand[];
+  if (canCoalesce(previous, command) && previous.type === 'updateConfig' && command.type === 'updateConfig') {
+    past = [...state.past.slice(0, -1), { ...command, before: previous.before }];
+  } else {
+    past = [...state.past, command];
+  }
+  if (past.length > MAX_HISTORY_ENTRIES) {
+    past = past.slice(past.length - MAX_HISTORY_ENTRIES);
+  }
+
+  return { present, past, future: [] };
+}
+
+export function undo(state: HistoryState): HistoryState {
+  const command = state.past[state.past.length - 1];
+  if (!command) return state;
+  return {
+    present: revertCommand(state.present, command),
+    past: state.past.slice(0, -1),
+    future: [command, ...state.future]
+  };
+}
+
+export function redo(state: HistoryState): HistoryState {
+  const [command, ...future] = state.future;
+  if (!command) return state;
+  return {
+    present: applyCommand(state.present, command),
+    past: [...state.past, command],
+    future
+  };
+}
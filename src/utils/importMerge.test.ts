@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { DataPoint, SeriesType } from '../types';
+import { classifyIncoming, countByStatus, mergeImport } from './importMerge';
+
+const point = (id: string, x: number, z: number, series: SeriesType = 'Red'): DataPoint =>
+  ({ id, label: id, x, z, series });
+
+const existing = [point('e1', 10, 10), point('e2', 50, 50, 'Blue'), point('e3', -80, 20, 'Green')];
+
+describe('classifyIncoming', () => {
+  it('sorts incoming points into new, duplicate, near-duplicate and conflict', () => {
+    const classified = classifyIncoming(existing, [
+      point('i1', 10, 10),
+      point('i2', 11, 11),
+      point('i3', 51, 50),
+      point('i4', 100, -100)
+    ], 2);
+    expect(classified.map(c => [c.point.id, c.status, c.match?.id])).toEqual([
+      ['i1', 'duplicate', 'e1'],
+      ['i2', 'near-duplicate', 'e1'],
+      ['i3', 'conflict', 'e2'],
+      ['i4', 'new', undefined]
+    ]);
+    expect(classified[1].distance).toBeCloseTo(Math.SQRT2, 9);
+  });
+
+  it('follows the tolerance', () => {
+    expect(classifyIncoming(existing, [point('i', 13, 10)], 2)[0].status).toBe('new');
+    expect(classifyIncoming(existing, [point('i', 13, 10)], 3)[0].status).toBe('near-duplicate');
+  });
+
+  it('catches repeats within the incoming batch', () => {
+    const classified = classifyIncoming([], [point('a', 5, 5), point('b', 5, 5), point('c', 6, 5), point('d', 5, 6, 'Cyan')], 2);
+    expect(classified.map(c => [c.status, c.match?.id])).toEqual([
+      ['new', undefined],
+      ['duplicate', 'a'],
+      ['near-duplicate', 'a'],
+      ['conflict', 'a']
+    ]);
+  });
+
+  it('only matches later points against ones that would be kept', () => {
+    // b is dropped as a duplicate of a, so c (near b, far from a) is new
+    const classified = classifyIncoming([], [point('a', 0, 0), point('b', 2, 0), point('c', 4, 0)], 2);
+    expect(classified.map(c => c.status)).toEqual(['new', 'near-duplicate', 'new']);
+  });
+});
+
+describe('mergeImport', () => {
+  const incoming = [point('i1', 10, 10), point('i2', 100, -100), point('i3', 51, 50)];
+  const classified = classifyIncoming(existing, incoming, 2);
+  const ids = (points: DataPoint[]) => points.map(p => p.id);
+
+  it('appends everything', () => {
+    expect(ids(mergeImport(existing, classified, 'append'))).toEqual(['e1', 'e2', 'e3', 'i1', 'i2', 'i3']);
+  });
+
+  it('skips duplicates and near-duplicates but keeps conflicts', () => {
+    expect(ids(mergeImport(existing, classified, 'skipDuplicates'))).toEqual(['e1', 'e2', 'e3', 'i2', 'i3']);
+  });
+
+  it('replaces only the imported series', () => {
+    expect(ids(mergeImport(existing, classified, 'replaceSeries'))).toEqual(['e2', 'e3', 'i1', 'i2', 'i3']);
+  });
+
+  it('replaces everything', () => {
+    expect(ids(mergeImport(existing, classified, 'replaceAll'))).toEqual(['i1', 'i2', 'i3']);
+  });
+
+  it('counts each status', () => {
+    expect(countByStatus(classified)).toEqual({ 'new': 1, 'duplicate': 1, 'near-duplicate': 0, 'conflict': 1 });
+  });
+});
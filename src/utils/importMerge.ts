@@ -0,0 +1,112 @@
+// src/utils/importMerge.ts
+// Diffs incoming points against the current data and merges them according
+// to the strategy picked in the import preview.
+import { DataPoint, SeriesType } from '../types';
+
+export type IncomingStatus = 'new' | 'duplicate' | 'near-duplicate' | 'conflict';
+
+export interface ClassifiedPoint {
+  point: DataPoint;
+  status: IncomingStatus;
+  match?: DataPoint;  // existing or earlier incoming point that caused the classification
+  distance?: number;  // blocks between the incoming point and `match`
+}
+
+// Blocks within which a same-series point counts as a near-duplicate
+export const DEFAULT_DUPLICATE_TOLERANCE = 2;
+
+export type MergeStrategy = 'append' | 'replaceAll' | 'replaceSeries' | 'skipDuplicates';
+
+export const MERGE_STRATEGY_LABELS: Record<MergeStrategy, string> = {
+  append: 'Append everything',
+  skipDuplicates: 'Skip duplicates and near-duplicates',
+  replaceSeries: 'Replace the imported series',
+  replaceAll: 'Replace all points'
+};
+
+// Bucket points on a grid so each lookup only checks nearby cells
+function buildGrid(points: DataPoint[], cellSize: number) {
+  const grid = new Map<string, DataPoint[]>();
+  const keyFor = (x: number, z: number) => `${Math.floor(x / cellSize)},${Math.floor(z / cellSize)}`;
+  const add = (point: DataPoint) => {
+    const key = keyFor(point.x, point.z);
+    if (!grid.has(key)) grid.set(key, []);
+    grid.get(key)!.push(point);
+  };
+  points.forEach(add);
+
+  const neighbours = (x: number, z: number): DataPoint[] => {
+    const cx = Math.floor(x / cellSize);
+    const cz = Math.floor(z / cellSize);
+    const result: DataPoint[] = [];
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dz = -1; dz <= 1; dz++) {
+        const cell = grid.get(`${cx + dx},${cz + dz}`);
+        if (cell) result.push(...cell);
+      }
+    }
+    return result;
+  };
+
+  return { add, neighbours };
+}
+
+/**
+ * Classify each incoming point against `existing` and the incoming points
+ * before it that would be kept, so repeats within one file are caught too:
+ * - duplicate: same series at the exact same coordinate
+ * - near-duplicate: same series within `tolerance` blocks
+ * - conflict: a different series within `tolerance` blocks (or at the same spot)
+ * - new: nothing nearby
+ */
+export function classifyIncoming(existing: DataPoint[], incoming: DataPoint[], tolerance: number): ClassifiedPoint[] {
+  const grid = buildGrid(existing, Math.max(1, tolerance));
+
+  return incoming.map((point): ClassifiedPoint => {
+    let nearestSame: { match: DataPoint; distance: number } | null = null;
+    let nearestOther: { match: DataPoint; distance: number } | null = null;
+
+    for (const candidate of grid.neighbours(point.x, point.z)) {
+      const distance = Math.hypot(candidate.x - point.x, candidate.z - point.z);
+      if (distance > tolerance) continue;
+      if (candidate.series === point.series) {
+        if (!nearestSame || distance < nearestSame.distance) nearestSame = { match: candidate, distance };
+      } else if (!nearestOther || distance < nearestOther.distance) {
+        nearestOther = { match: candidate, distance };
+      }
+    }
+
+    if (nearestSame && nearestSame.distance === 0) return { point, status: 'duplicate', ...nearestSame };
+    if (nearestSame) return { point, status: 'near-duplicate', ...nearestSame };
+    // Points that "skip duplicates" keeps become matches for later ones
+    grid.add(point);
+    if (nearestOther) return { point, status: 'conflict', ...nearestOther };
+    return { point, status: 'new' };
+  });
+}
+
+export function countByStatus(classified: ClassifiedPoint[]): Record<IncomingStatus, number> {
+  const counts: Record<IncomingStatus, number> = { 'new': 0, 'duplicate': 0, 'near-duplicate': 0, 'conflict': 0 };
+  classified.forEach(c => counts[c.status]++);
+  return counts;
+}
+
+// The data set that results from applying `strategy`
+export function mergeImport(existing: DataPoint[], classified: ClassifiedPoint[], strategy: MergeStrategy): DataPoint[] {
+  const incoming = classified.map(c => c.point);
+  switch (strategy) {
+    case 'append':
+      return [...existing, ...incoming];
+    case 'skipDuplicates':
+      return [
+        ...existing,
+        ...classified.filter(c => c.status === 'new' || c.status === 'conflict').map(c => c.point)
+      ];
+    case 'replaceSeries': {
+      const importedSeries = new Set<SeriesType>(incoming.map(p => p.series));
+      return [...existing.filter(p => !importedSeries.has(p.series)), ...incoming];
+    }
+    case 'replaceAll':
+      return incoming;
+  }
+}
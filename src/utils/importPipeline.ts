@@ -0,0 +1,299 @@
+// src/utils/importPipeline.ts
+// Single import path for tabular point data. Every entry point (file upload,
+// bulk paste, parseCSV, the import worker) goes through the same header
+// detection, column mapping, series parsing and validation, and produces a
+// per-row accept/reject report the user can review before anything is
+// committed.
+import Papa from 'papaparse';
+import { DataPoint, SeriesType, SERIES_COLORS, WorldProfile } from '../types';
+import { DEFAULT_WORLD_PROFILE, validateCoordinates } from './worldProfile';
+
+export interface ColumnMapping {
+  x: number;
+  z: number;
+  series: number;
+  label: number | null; // optional column holding a custom label
+}
+
+export interface ImportRowResult {
+  line: number;          // 1-based line number in the source file
+  source?: string;       // the file the row came from, when importing several
+  raw: string[];
+  status: 'accepted' | 'rejected';
+  reason?: string;       // why the row was rejected
+  point?: DataPoint;
+}
+
+export interface ImportReport {
+  rows: ImportRowResult[];
+  accepted: DataPoint[];
+  rejectedCount: number;
+}
+
+export interface ImportPreview {
+  rows: string[][];      // first rows of the file, header included
+  hasHeader: boolean;
+  columnCount: number;
+  mapping: ColumnMapping;
+}
+
+const PREVIEW_ROWS = 10;
+
+const SERIES_BY_NAME = new Map<string, SeriesType>(
+  (Object.keys(SERIES_COLORS) as SeriesType[]).map(series => [series.toLowerCase(), series])
+);
+
+// Case-insensitive series lookup ("red", " RED ", "Red" → "Red")
+export function parseSeriesName(value: string): SeriesType | null {
+  return SERIES_BY_NAME.get(value.trim().toLowerCase()) ?? null;
+}
+
+// Line breaks inside quoted cells, which make a row span several source lines
+const lineBreaksIn = (raw: string[]): number =>
+  raw.reduce((sum, cell) => sum + (cell.match(/\r\n|\r|\n/g)?.length ?? 0), 0);
+
+const isNumeric = (value: string | undefined): boolean =>
+  value !== undefined && value.trim() !== '' && !isNaN(Number(value));
+
+// A first row counts as a header when it has no numeric cell at all
+export function detectHeader(firstRow: string[]): boolean {
+  return firstRow.length > 0 && !firstRow.some(isNumeric);
+}
+
+// Guess which column holds what, from header names or from the data itself
+export function guessMapping(rows: string[][], hasHeader: boolean): ColumnMapping {
+  const columnCount = Math.max(0, ...rows.map(r => r.length));
+  const mapping: ColumnMapping = { x: 0, z: 1, series: 2, label: columnCount > 3 ? 3 : null };
+
+  if (hasHeader && rows.length > 0) {
+    const headers = rows[0].map(h => h.trim().toLowerCase());
+    const find = (pattern: RegExp) => headers.findIndex(h => pattern.test(h));
+    const x = find(/^x(\s|_|$)|x.?coord/);
+    const z = find(/^z(\s|_|$)|z.?coord/);
+    const series = find(/series|colou?r|type|team/);
+    const label = find(/label|name|note/);
+    if (x >= 0) mapping.x = x;
+    if (z >= 0) mapping.z = z;
+    if (series >= 0) mapping.series = series;
+    mapping.label = label >= 0 ? label : null;
+    return mapping;
+  }
+
+  // Headerless: the series column is the first one that parses as a series name
+  const sample = rows[0] ?? [];
+  const seriesIndex = sample.findIndex(cell => parseSeriesName(cell) !== null);
+  if (seriesIndex >= 0) {
+    const numeric = sample.map((cell, i) => (isNumeric(cell) ? i : -1)).filter(i => i >= 0);
+    mapping.series = seriesIndex;
+    if (numeric.length >= 2) {
+      mapping.x = numeric[0];
+      mapping.z = numeric[1];
+    }
+    const rest = sample.findIndex((cell, i) =>
+      i !== mapping.x && i !== mapping.z && i !== seriesIndex && cell.trim() !== '');
+    mapping.label = rest >= 0 ? rest : null;
+  }
+  return mapping;
+}
+
+export function previewCSV(text: string): ImportPreview {
+  const results = Papa.parse<string[]>(text, { header: false, skipEmptyLines: 'greedy', preview: PREVIEW_ROWS + 1 });
+  const rows = results.data;
+  const hasHeader = rows.length > 0 && detectHeader(rows[0]);
+  return {
+    rows,
+    hasHeader,
+    columnCount: Math.max(0, ...rows.map(r => r.length)),
+    mapping: guessMapping(rows, hasHeader)
+  };
+}
+
+/**
+ * Incremental row processor, so the same logic can run over a whole string
+ * or over chunks streamed from a worker. Expects every parsed row, blank ones
+ * included, so report line numbers match the source file.
+ */
+export function createRowProcessor(
+  mapping: ColumnMapping,
+  hasHeader: boolean,
+  profile: WorldProfile = DEFAULT_WORLD_PROFILE
+) {
+  const rows: ImportRowResult[] = [];
+  const accepted: DataPoint[] = [];
+  const batchId = Date.now();
+  let line = 0;     // source lines consumed so far
+  let nonBlank = 0; // rows with content, header included
+
+  let rowLine = 0;
+
+  let rowSource: string | undefined;
+
+  const reject = (raw: string[], reason: string) => {
+    rows.push({ line: rowLine, source: rowSource, raw, status: 'rejected', reason });
+  };
+
+  // `sourceLine` overrides the running count when rows are not one per line;
+  // `source` names the file when one report covers several
+  const process = (raw: string[], sourceLine?: number, source?: string) => {
+    rowLine = sourceLine ?? line + 1;
+    rowSource = source;
+    line = rowLine + lineBreaksIn(raw);
+    if (raw.every(cell => cell.trim() === '')) return;
+    nonBlank++;
+    if (hasHeader && nonBlank === 1) return;
+
+    const xStr = raw[mapping.x]?.trim() ?? '';
+    const zStr = raw[mapping.z]?.trim() ?? '';
+    const seriesStr = raw[mapping.series]?.trim() ?? '';
+
+    if (!isNumeric(xStr)) return reject(raw, `X "${xStr}" is not a number`);
+    if (!isNumeric(zStr)) return reject(raw, `Z "${zStr}" is not a number`);
+    const series = parseSeriesName(seriesStr);
+    if (!series) return reject(raw, seriesStr ? `unknown series "${seriesStr}"` : 'missing series');
+
+    const x = Number(xStr);
+    const z = Number(zStr);
+    const invalid = validateCoordinates(x, z, profile);
+    if (invalid) return reject(raw, invalid);
+
+    const customLabel = mapping.label !== null ? raw[mapping.label]?.trim() : '';
+    const point: DataPoint = {
+      id: `import-${batchId}-${accepted.length}`,
+      label: customLabel || `${series} (${x}, ${z})`,
+      x,
+      z,
+      series
+    };
+    accepted.push(point);
+    rows.push({ line: rowLine, source: rowSource, raw, status: 'accepted', point });
+  };
+
+  const report = (): ImportReport => ({
+    rows,
+    accepted,
+    rejectedCount: rows.length - accepted.length
+  });
+
+  return { process, report, get processedLines() { return line; } };
+}
+
+// Synchronous import of an in-memory CSV string
+export function importCSVText(
+  text: string,
+  mapping?: ColumnMapping,
+  hasHeader?: boolean,
+  profile?: WorldProfile
+): ImportReport {
+  const preview = previewCSV(text);
+  const processor = createRowProcessor(mapping ?? preview.mapping, hasHeader ?? preview.hasHeader, profile);
+  const results = Papa.parse<string[]>(text, { header: false });
+  results.data.forEach(row => processor.process(row));
+  return processor.report();
+}
+
+// Emoji markers used in chat posts, next to plain and :name: series names
+const SERIES_EMOJI: Record<string, SeriesType> = {
+  '🔴': 'Red',
+  '🟢': 'Green',
+  '🔵': 'Cyan',
+  '⚪': 'White',
+  '🟣': 'Magenta',
+  '🟡': 'Yellow',
+  '⚫': 'Black'
+};
+
+const parseSeriesMarker = (value: string): SeriesType | null =>
+  SERIES_EMOJI[value.trim()] ?? parseSeriesName(value.replace(/^\s*:|:\s*$/g, ''));
+
+// Cells of one pasted list line: "(100, 42) cyan", "100 42 Red north tower",
+// "123.-114". Parenthesised notes are dropped, and a lone "x.z" pair is split
+// on the dot the way hunters often type it.
+const pastedLineCells = (line: string): string[] => {
+  const tokens = line
+    .replace(/\([^)]*[^\d\s,.()-][^)]*\)/g, ' ')
+    .split(/[\s,;()]+/)
+    .filter(Boolean);
+  if (tokens.length === 1 && /^-?\d+\.-?\d+$/.test(tokens[0])) {
+    return tokens[0].split(/\.(?=-?\d)/);
+  }
+  return tokens;
+};
+
+/**
+ * Import text pasted into the bulk add box. Spreadsheet rows (tab separated,
+ * or with a header) go through the CSV path unchanged; anything else is read
+ * as a chat-style list where a line holding only a series name or marker
+ * ("Red", "🔴", ":blue:") sets the series for the coordinate lines below it.
+ */
+export function importPastedText(text: string, profile?: WorldProfile): ImportReport {
+  const lines = text.split(/\r\n|\r|\n/);
+  const first = lines.find(line => line.trim() !== '') ?? '';
+  const firstCells = Papa.parse<string[]>(first, { header: false }).data[0] ?? [];
+  const isTable = first.includes('\t') ||
+    (firstCells.filter(cell => cell.trim() !== '').length >= 2 && detectHeader(firstCells));
+  if (isTable) return importCSVText(text, undefined, undefined, profile);
+
+  const processor = createRowProcessor({ x: 0, z: 1, series: 2, label: 3 }, false, profile);
+  let currentSeries: SeriesType | null = null;
+  lines.forEach((line, index) => {
+    if (line.trim() === '') return;
+    if (!/\d/.test(line)) {
+      const heading = parseSeriesMarker(line.trim().split(/\s+/)[0].replace(/:$/, ''));
+      if (heading) {
+        currentSeries = heading;
+        return;
+      }
+    }
+    const [x = '', z = '', marker, ...rest] = pastedLineCells(line);
+    const series = marker !== undefined ? parseSeriesMarker(marker) : null;
+    if (series) currentSeries = series;
+    processor.process(
+      [x, z, series ?? (marker === undefined ? currentSeries ?? '' : marker), rest.join(' ')],
+      index + 1
+    );
+  });
+  return processor.report();
+}
+
+// Messages exchanged with the import worker
+export type ImportWorkerRequest = { file: File; mapping: ColumnMapping; hasHeader: boolean; profile: WorldProfile };
+export type ImportWorkerResponse =
+  | { type: 'progress'; processedLines: number; fraction: number }
+  | { type: 'done'; report: ImportReport }
+  | { type: 'error'; message: string };
+
+/**
+ * Parse a whole file off the main thread. Falls back to parsing on the main
+ * thread when workers are unavailable.
+ */
+export function importCSVFile(
+  file: File,
+  mapping: ColumnMapping,
+  hasHeader: boolean,
+  profile: WorldProfile,
+  onProgress?: (fraction: number) => void
+): Promise<ImportReport> {
+  if (typeof Worker === 'undefined') {
+    return file.text().then(text => importCSVText(text, mapping, hasHeader, profile));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/importWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<ImportWorkerResponse>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.fraction);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') resolve(message.report);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Import worker failed'));
+    };
+    const request: ImportWorkerRequest = { file, mapping, hasHeader, profile };
+    worker.postMessage(request);
+  });
+}
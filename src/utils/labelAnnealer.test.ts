@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { AnnealCandidate, AnnealLabel, AnnealOptions, annealLabels, createRandom } from './labelAnnealer';
+
+const options: AnnealOptions = {
+  seed: 1,
+  timeBudgetMs: 10000, // generous, so the move count rather than the deadline ends the run
+  iterationsPerLabel: 200,
+  overlapPenalty: 100000,
+  leaderCrossingPenalty: 100000,
+  dropPenalty: 5000,
+  padding: 2
+};
+
+const candidate = (x: number, y: number, cost: number): AnnealCandidate =>
+  ({ x, y, rotation: 0, cost, leader: null });
+
+// A row of labels that each prefer the same spot to the right of their
+// point, which overlaps the next label's favourite
+const crowdedRow = (count: number): AnnealLabel[] =>
+  Array.from({ length: count }, (_, i) => ({
+    width: 40,
+    height: 10,
+    candidates: [
+      candidate(i * 30 + 5, 0, 1),
+      candidate(i * 30 + 5, 20, 5),
+      candidate(i * 30 + 5, -20, 5),
+      candidate(i * 30 + 5, 40, 20)
+    ],
+    initial: 0
+  }));
+
+describe('createRandom', () => {
+  it('repeats its sequence for a seed', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const first = Array.from({ length: 5 }, a);
+    expect(Array.from({ length: 5 }, b)).toEqual(first);
+    expect(first.every(value => value >= 0 && value < 1)).toBe(true);
+    expect(Array.from({ length: 5 }, createRandom(43))).not.toEqual(first);
+  });
+});
+
+describe('annealLabels', () => {
+  it('gives the same layout for the same input, seed and budget', () => {
+    const first = annealLabels(crowdedRow(12), [], options);
+    expect(annealLabels(crowdedRow(12), [], options)).toEqual(first);
+  });
+
+  it('separates labels that start out overlapping', () => {
+    const labels = crowdedRow(6);
+    const chosen = annealLabels(labels, [], options);
+    expect(chosen.every(choice => choice >= 0)).toBe(true);
+    for (let i = 1; i < labels.length; i++) {
+      const left = labels[i - 1].candidates[chosen[i - 1]];
+      const right = labels[i].candidates[chosen[i]];
+      expect(left.y !== right.y).toBe(true);
+    }
+  });
+
+  it('keeps clear of obstacles', () => {
+    const labels = crowdedRow(1);
+    const chosen = annealLabels(labels, [{ x: 0, y: -5, width: 60, height: 20, rotation: 0, leader: null }], options);
+    expect(labels[0].candidates[chosen[0]].y).not.toBe(0);
+  });
+});
@@ -0,0 +1,212 @@
+// src/utils/labelAnnealer.ts
+// Global label optimisation by simulated annealing. Starting from the greedy
+// placement, labels are moved between their candidate positions (or dropped)
+// to lower the total cost of overlaps, crossed leader lines, distance and
+// left-out labels. The generator is seeded and the time budget is turned into
+// a number of moves up front, so the same input, seed and budget give the same
+// layout. A wall-clock deadline still caps the run on devices too slow to make
+// those moves in time; the result is then the best layout found so far.
+import Rbush from "rbush";
+import { Segment, segmentBounds, segmentCrossesBox } from "./leaderLines";
+import { OrientedBox, boxesOverlap, orientedBounds } from "./orientedBox";
+
+// A position a label may take, with the cost of the position on its own
+export interface AnnealCandidate {
+  x: number;    // top-left corner before rotation
+  y: number;
+  rotation: number; // radians about the label centre
+  cost: number; // distance, covered points, edges; lower is better
+  leader: Segment | null; // line back to the point when the label sits far from it
+}
+
+export interface AnnealLabel {
+  width: number;
+  height: number;
+  candidates: AnnealCandidate[];
+  initial: number; // index into `candidates`, -1 when the label starts dropped
+}
+
+export interface AnnealOptions {
+  seed: number;
+  timeBudgetMs: number;
+  iterationsPerLabel: number;
+  overlapPenalty: number; // per pair of overlapping labels
+  leaderCrossingPenalty: number; // per label a leader line passes through
+  dropPenalty: number;    // per label left out
+  padding: number;        // gap labels keep from each other
+}
+
+interface Entry {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  index: number; // label index, -1 for obstacles
+  rect: OrientedBox; // the label itself, without padding
+}
+
+interface LeaderEntry {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  index: number;
+  segment: Segment;
+}
+
+// The temperature falls from this share of the drop penalty...
+const START_TEMPERATURE_RATIO = 0.2;
+// ...down to this, where only improvements are still accepted in practice
+const END_TEMPERATURE = 0.5;
+// Moves between best-state snapshots and deadline checks
+const CHECK_INTERVAL = 256;
+// Moves per millisecond of budget, measured on a slow single core; faster
+// devices finish well within the budget, slower ones stop at the deadline
+const MOVES_PER_MS = 20;
+
+// Small seeded generator (mulberry32), returns numbers in [0, 1)
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const toEntry = (rect: OrientedBox, padding: number, index: number): Entry => ({
+  ...orientedBounds(rect, padding),
+  index,
+  rect
+});
+
+const toLeaderEntry = (segment: Segment | null, index: number): LeaderEntry | null =>
+  segment ? { ...segmentBounds(segment), index, segment } : null;
+
+const isPresent = <T>(entry: T | null): entry is T => entry !== null;
+
+// Returns the chosen candidate index for every label, -1 where it is dropped;
+// `obstacles` are labels (and their leaders) that stay where they are
+export function annealLabels(
+  labels: AnnealLabel[],
+  obstacles: (OrientedBox & { leader: Segment | null })[],
+  options: AnnealOptions
+): number[] {
+  const state = labels.map(label => label.initial);
+  const random = createRandom(options.seed);
+  const tree = new Rbush<Entry>();
+  const leaderTree = new Rbush<LeaderEntry>();
+  const entries: (Entry | null)[] = [];
+  const leaderEntries: (LeaderEntry | null)[] = [];
+
+  const entryFor = (index: number, choice: number): Entry | null => {
+    const candidate = labels[index].candidates[choice];
+    return candidate
+      ? toEntry(
+          { x: candidate.x, y: candidate.y, width: labels[index].width, height: labels[index].height, rotation: candidate.rotation },
+          options.padding,
+          index
+        )
+      : null;
+  };
+
+  // Cost of label `index` at `choice`, including its overlaps and leader
+  // crossings with everything else
+  const costOf = (index: number, choice: number): number => {
+    const entry = entryFor(index, choice);
+    if (!entry) return options.dropPenalty;
+    const { cost, leader } = labels[index].candidates[choice];
+    // Bounds are exact for unrotated pairs; rotated ones need the oriented test
+    const overlaps = tree.search(entry).filter(other =>
+      other.index !== index &&
+      ((!entry.rect.rotation && !other.rect.rotation) || boxesOverlap(entry.rect, other.rect, options.padding))
+    ).length;
+    const crossed = leader
+      ? tree.search(segmentBounds(leader)).filter(other => other.index !== index && segmentCrossesBox(leader, other.rect)).length
+      : 0;
+    const crossing = leaderTree
+      .search(orientedBounds(entry.rect))
+      .filter(other => other.index !== index && segmentCrossesBox(other.segment, entry.rect)).length;
+    return cost + overlaps * options.overlapPenalty + (crossed + crossing) * options.leaderCrossingPenalty;
+  };
+
+  state.forEach((choice, index) => {
+    entries.push(entryFor(index, choice));
+    leaderEntries.push(toLeaderEntry(labels[index].candidates[choice]?.leader ?? null, index));
+  });
+  tree.load([...obstacles.map(rect => toEntry(rect, options.padding, -1)), ...entries.filter(isPresent)]);
+  leaderTree.load([...obstacles.map(rect => toLeaderEntry(rect.leader, -1)), ...leaderEntries].filter(isPresent));
+
+  const move = (index: number, next: number) => {
+    const previous = entries[index];
+    if (previous) tree.remove(previous);
+    const entry = entryFor(index, next);
+    if (entry) tree.insert(entry);
+    entries[index] = entry;
+
+    const previousLeader = leaderEntries[index];
+    if (previousLeader) leaderTree.remove(previousLeader);
+    const leader = toLeaderEntry(labels[index].candidates[next]?.leader ?? null, index);
+    if (leader) leaderTree.insert(leader);
+    leaderEntries[index] = leader;
+    state[index] = next;
+  };
+
+  let energy = state.reduce((sum, choice, index) => sum + costOf(index, choice), 0);
+  let best = [...state];
+  let bestEnergy = energy;
+
+  const iterations = Math.min(
+    labels.length * options.iterationsPerLabel,
+    Math.round(options.timeBudgetMs * MOVES_PER_MS)
+  );
+  const startTemperature = options.dropPenalty * START_TEMPERATURE_RATIO;
+  const deadline = performance.now() + options.timeBudgetMs;
+
+  for (let step = 0; step < iterations; step++) {
+    if (step % CHECK_INTERVAL === 0) {
+      if (energy < bestEnergy) {
+        best = [...state];
+        bestEnergy = energy;
+      }
+      if (step > 0 && performance.now() > deadline) return best;
+    }
+
+    const index = Math.floor(random() * labels.length);
+    const { candidates } = labels[index];
+    // One extra slot stands for dropping the label
+    const pick = Math.floor(random() * (candidates.length + 1));
+    const next = pick === candidates.length ? -1 : pick;
+    const current = state[index];
+    const accept = random(); // drawn on every move so each step uses the same numbers
+    if (next === current) continue;
+
+    const delta = costOf(index, next) - costOf(index, current);
+    const temperature = startTemperature * Math.pow(END_TEMPERATURE / startTemperature, step / iterations);
+    if (delta > 0 && accept >= Math.exp(-delta / temperature)) continue;
+
+    move(index, next);
+    energy += delta;
+  }
+
+  // Random moves rarely hit the single best spot, so finish by moving every
+  // label to its cheapest position given where the others ended up
+  for (let index = 0; index < labels.length; index++) {
+    let cheapest = state[index];
+    let cheapestCost = costOf(index, cheapest);
+    labels[index].candidates.forEach((_, choice) => {
+      const cost = costOf(index, choice);
+      if (cost < cheapestCost) {
+        cheapest = choice;
+        cheapestCost = cost;
+      }
+    });
+    if (cheapest === state[index]) continue;
+    energy += cheapestCost - costOf(index, state[index]);
+    move(index, cheapest);
+  }
+
+  return energy < bestEnergy ? state : best;
+}
@@ -0,0 +1,328 @@
+// src/utils/labelLayoutCache.ts
+// Incremental label placement. Keeps the last layout and, when only a few
+// points were added, moved or removed, re-places just the labels near those
+// changes while every other label stays where it was. A pan moves the kept
+// layout along with the points. Runs in the label worker, or on the main
+// thread where workers are unavailable.
+
+import {
+  DEFAULT_LABEL_PLACER_OPTIONS,
+  LabelPlacer,
+  LabelPlacerOptions,
+  ROTATED_LABEL_ANGLES,
+  candidateReach,
+  groupOverlappingPoints
+} from './LabelPlacer';
+import { orientedBounds } from './orientedBox';
+import { LabelBox, PlacementMode } from './types';
+
+// Placement settings shared by every layout: the placer defaults, with labels
+// allowed right up to the chart edges
+export const LABEL_PLACER_OPTIONS: Required<LabelPlacerOptions> & { debug: boolean } = {
+  ...DEFAULT_LABEL_PLACER_OPTIONS,
+  padding: 0,
+  outOfBoundsPenalty: 0
+};
+
+// Above this share of changed points a full placement is just as cheap
+const FULL_LAYOUT_RATIO = 0.5;
+// Pixel movement below which a point counts as unchanged
+const MOVE_TOLERANCE_PX = 0.5;
+
+// A labelled point in canvas pixels, with its measured text size
+export interface LabelPoint {
+  id: string;
+  x: number;
+  y: number;
+  text: string;
+  width: number;
+  height: number;
+}
+
+export interface LabelLayoutRequest {
+  width: number;  // chart area
+  height: number;
+  font: string;   // labels are measured in this font; a change invalidates the cache
+  mode: PlacementMode;
+  timeBudgetMs: number; // optimiser budget, only used in 'anneal' mode
+  callouts: boolean;    // labels that fit nowhere go to a column along the side edge
+  rotate: boolean;      // also try diagonal and vertical labels
+  debug: boolean;       // also return every scored candidate
+  points: LabelPoint[];
+}
+
+// Top-left corner of a placed label; `anchorId` is the point it is drawn next to
+export interface PlacedLabel {
+  id: string;
+  anchorId: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number; // radians about the label centre
+  text: string;
+  leader?: { x: number; y: number }; // leader line end on the label edge, from the anchor point
+  callout?: boolean;
+}
+
+// A candidate position the placer scored, top-left corner like PlacedLabel
+export interface LabelDebugCandidate {
+  x: number;
+  y: number;
+  rotation: number;
+  score: number;
+  scoreBreakdown: Record<string, number>;
+}
+
+// Every candidate scored for one label; `chosen` is the greedy pick, -1 when
+// none was free (the optimiser or the callout column may still place it)
+export interface LabelDebugEntry {
+  id: string;
+  anchorId: string;
+  text: string;
+  width: number;
+  height: number;
+  candidates: LabelDebugCandidate[];
+  chosen: number;
+  placed: boolean; // the label is in the final layout
+}
+
+export interface LabelLayoutResult {
+  labels: PlacedLabel[];
+  recomputed: number; // labels placed by this run
+  reused: number;     // labels kept from the previous layout
+  debug?: LabelDebugEntry[]; // only for debug requests
+}
+
+// Messages exchanged with the label worker; `channel` identifies the chart
+export type LabelWorkerRequest =
+  | { type: 'layout'; channel: number; requestId: number; request: LabelLayoutRequest }
+  | { type: 'dispose'; channel: number };
+export type LabelWorkerResponse = { channel: number; requestId: number; result: LabelLayoutResult };
+
+interface Region {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Everything a label for `point` could touch, grown by `margin`
+const reachOf = (point: LabelPoint, margin: number): Region => {
+  const reach = candidateReach(point, LABEL_PLACER_OPTIONS) + margin;
+  return { minX: point.x - reach, minY: point.y - reach, maxX: point.x + reach, maxY: point.y + reach };
+};
+
+const intersects = (a: Region, b: Region) =>
+  a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+
+const samePoint = (a: LabelPoint, b: LabelPoint) =>
+  Math.abs(a.x - b.x) <= MOVE_TOLERANCE_PX &&
+  Math.abs(a.y - b.y) <= MOVE_TOLERANCE_PX &&
+  a.text === b.text &&
+  a.width === b.width &&
+  a.height === b.height;
+
+const pixelKey = (point: { x: number; y: number }) => `${Math.round(point.x)},${Math.round(point.y)}`;
+
+interface Shift {
+  dx: number;
+  dy: number;
+}
+
+// The offset most points moved by since the last layout. A pan moves every
+// point by the same amount, so the old layout can move along with them.
+const commonShift = (before: Map<string, LabelPoint>, after: LabelPoint[]): Shift => {
+  const buckets = new Map<string, { dx: number; dy: number; count: number }>();
+  let matched = 0;
+  for (const point of after) {
+    const previous = before.get(point.id);
+    if (!previous) continue;
+    matched++;
+    const dx = point.x - previous.x;
+    const dy = point.y - previous.y;
+    const key = `${Math.round(dx)},${Math.round(dy)}`;
+    const bucket = buckets.get(key) ?? { dx: 0, dy: 0, count: 0 };
+    bucket.dx += dx;
+    bucket.dy += dy;
+    bucket.count++;
+    buckets.set(key, bucket);
+  }
+  const largest = Array.from(buckets.values()).sort((a, b) => b.count - a.count)[0];
+  return largest && largest.count > matched / 2
+    ? { dx: largest.dx / largest.count, dy: largest.dy / largest.count }
+    : { dx: 0, dy: 0 };
+};
+
+const shiftPoint = <T extends { x: number; y: number }>(point: T, { dx, dy }: Shift): T =>
+  ({ ...point, x: point.x + dx, y: point.y + dy });
+
+export class IncrementalLabelLayout {
+  private previous: {
+    request: LabelLayoutRequest;
+    groups: Map<string, LabelPoint>;
+    labels: Map<string, PlacedLabel>;
+    debug: Map<string, LabelDebugEntry>;
+  } | null = null;
+
+  update(request: LabelLayoutRequest): LabelLayoutResult {
+    const groups = groupOverlappingPoints(request.points);
+    // A shared label is drawn next to the first of the points it describes
+    const anchors = new Map<string, string>();
+    for (const point of request.points) {
+      if (!anchors.has(pixelKey(point))) anchors.set(pixelKey(point), point.id);
+    }
+    const placer = new LabelPlacer(
+      { width: request.width, height: request.height },
+      {
+        ...LABEL_PLACER_OPTIONS,
+        mode: request.mode,
+        timeBudgetMs: request.timeBudgetMs,
+        callouts: request.callouts,
+        rotations: request.rotate ? ROTATED_LABEL_ANGLES : [0],
+        debug: request.debug
+      }
+    );
+    const previous = this.previous;
+
+    let toPlace = groups;
+    let fixed: LabelBox[] = [];
+    let shift: Shift = { dx: 0, dy: 0 };
+
+    const reusable = previous &&
+      previous.request.width === request.width &&
+      previous.request.height === request.height &&
+      previous.request.font === request.font &&
+      previous.request.mode === request.mode &&
+      previous.request.timeBudgetMs === request.timeBudgetMs &&
+      previous.request.callouts === request.callouts &&
+      previous.request.rotate === request.rotate &&
+      previous.request.debug === request.debug;
+
+    if (previous && reusable) {
+      // Compare against the previous layout moved along with a pan
+      shift = commonShift(previous.groups, groups);
+      const before = new Map(Array.from(previous.groups, ([id, group]) => [id, shiftPoint(group, shift)]));
+      const oldLabels = new Map(Array.from(previous.labels, ([id, label]) => [id, {
+        ...shiftPoint(label, shift),
+        ...(label.leader ? { leader: shiftPoint(label.leader, shift) } : {})
+      }]));
+      // Callout slots belong to the chart edge, and a label pushed past an
+      // edge has to be placed again
+      const stranded = (label: PlacedLabel | undefined) => {
+        if (!label) return false;
+        const bounds = orientedBounds(label);
+        return (!!label.callout && (shift.dx !== 0 || shift.dy !== 0)) ||
+          bounds.minX < 0 || bounds.minY < 0 || bounds.maxX > request.width || bounds.maxY > request.height;
+      };
+
+      const ids = new Set(groups.map(group => group.id));
+      const changed = groups.filter(group => {
+        const old = before.get(group.id);
+        return !old || !samePoint(old, group) || stranded(oldLabels.get(group.id));
+      });
+      const removed = Array.from(before.values()).filter(group => !ids.has(group.id));
+
+      if (changed.length + removed.length <= groups.length * FULL_LAYOUT_RATIO) {
+        // A neighbour is affected when any of its candidates can reach any
+        // candidate of a change, or the space a changed label gave up
+        const longest = Math.max(0, ...groups.map(group => candidateReach(group, LABEL_PLACER_OPTIONS)));
+        const vacated = (group: LabelPoint): Region[] => {
+          const label = oldLabels.get(group.id);
+          return [reachOf(group, longest), ...(label ? [orientedBounds(label, longest)] : [])];
+        };
+        const dirty: Region[] = [
+          ...changed.map(group => reachOf(group, longest)),
+          ...changed.flatMap(group => {
+            const old = before.get(group.id);
+            return old ? vacated(old) : [];
+          }),
+          ...removed.flatMap(vacated)
+        ];
+        const changedIds = new Set(changed.map(group => group.id));
+        const isAffected = (group: LabelPoint) => {
+          if (changedIds.has(group.id)) return true;
+          const label = oldLabels.get(group.id);
+          const point: Region = { minX: group.x, minY: group.y, maxX: group.x, maxY: group.y };
+          const box: Region | null = label ? orientedBounds(label) : null;
+          return dirty.some(region => intersects(region, point) || (box !== null && intersects(region, box)));
+        };
+
+        toPlace = groups.filter(isAffected);
+        fixed = groups
+          .filter(group => !isAffected(group))
+          .flatMap(group => {
+            const label = oldLabels.get(group.id);
+            return label
+              ? [{
+                  x: label.x,
+                  y: label.y,
+                  width: label.width,
+                  height: label.height,
+                  rotation: label.rotation,
+                  text: label.text,
+                  forPoint: group,
+                  leader: label.leader,
+                  callout: label.callout
+                }]
+              : [];
+          });
+      }
+    }
+
+    const labels = placer.placeAround(toPlace, fixed, request.points).map((box): PlacedLabel => ({
+      id: box.forPoint.id ?? '',
+      anchorId: anchors.get(pixelKey(box.forPoint)) ?? box.forPoint.id ?? '',
+      x: box.x,
+      y: box.y,
+      width: box.width,
+      height: box.height,
+      rotation: box.rotation,
+      text: box.text,
+      ...(box.leader ? { leader: box.leader } : {}),
+      ...(box.callout ? { callout: true } : {})
+    }));
+
+    const placed = new Set(labels.map(label => label.id));
+    const debug = new Map<string, LabelDebugEntry>();
+    if (request.debug) {
+      // Labels kept from the previous layout keep the candidates they were scored with
+      for (const box of fixed) {
+        const entry = previous?.debug.get(box.forPoint.id ?? '');
+        if (entry) {
+          debug.set(entry.id, {
+            ...entry,
+            anchorId: anchors.get(pixelKey(box.forPoint)) ?? entry.anchorId,
+            candidates: entry.candidates.map(candidate => shiftPoint(candidate, shift))
+          });
+        }
+      }
+      for (const info of placer.getDebugInfo()) {
+        const id = info.point.id ?? '';
+        debug.set(id, {
+          id,
+          anchorId: anchors.get(pixelKey(info.point)) ?? id,
+          text: info.point.text,
+          width: info.point.width,
+          height: info.point.height,
+          candidates: info.candidates.map(candidate => ({ ...candidate, scoreBreakdown: { ...candidate.scoreBreakdown } })),
+          chosen: info.selectedCandidateIndex,
+          placed: placed.has(id)
+        });
+      }
+    }
+
+    this.previous = {
+      request,
+      groups: new Map(groups.map(group => [group.id, group])),
+      labels: new Map(labels.map(label => [label.id, label])),
+      debug
+    };
+    return {
+      labels,
+      recomputed: labels.length - fixed.length,
+      reused: fixed.length,
+      ...(request.debug ? { debug: Array.from(debug.values()) } : {})
+    };
+  }
+}
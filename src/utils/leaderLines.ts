@@ -0,0 +1,67 @@
+// src/utils/leaderLines.ts
+// Leader lines join a label that sits away from its point back to the point.
+// A leader runs from the point to the nearest spot on the label's edge.
+import { LabelBox } from "./types";
+import { OrientedBox, closestPoint, toLocal } from "./orientedBox";
+
+export interface Segment {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+// Labels whose nearest edge is farther than this from their point get a leader
+export const LEADER_THRESHOLD_PX = 12;
+
+// Line from `point` to the closest point of `box`
+export function leaderTo(point: { x: number; y: number }, box: OrientedBox): Segment {
+  const end = closestPoint(box, point);
+  return { x1: point.x, y1: point.y, x2: end.x, y2: end.y };
+}
+
+// The leader a label at `box` needs, or null when it sits close enough to `point`
+export function leaderFor(point: { x: number; y: number }, box: OrientedBox, threshold = LEADER_THRESHOLD_PX): Segment | null {
+  const leader = leaderTo(point, box);
+  return Math.hypot(leader.x2 - leader.x1, leader.y2 - leader.y1) > threshold ? leader : null;
+}
+
+// The leader of a placed label, if it has one
+export const labelLeader = (label: LabelBox): Segment | null =>
+  label.leader ? { x1: label.forPoint.x, y1: label.forPoint.y, x2: label.leader.x, y2: label.leader.y } : null;
+
+export const segmentBounds = (segment: Segment) => ({
+  minX: Math.min(segment.x1, segment.x2),
+  minY: Math.min(segment.y1, segment.y2),
+  maxX: Math.max(segment.x1, segment.x2),
+  maxY: Math.max(segment.y1, segment.y2)
+});
+
+// Whether the segment passes through the inside of `box` (Liang–Barsky clipping
+// in the box's own frame); merely touching an edge does not count, so a leader
+// never crosses its own label
+export function segmentCrossesBox(segment: Segment, box: OrientedBox): boolean {
+  const start = toLocal(box, { x: segment.x1, y: segment.y1 });
+  const end = toLocal(box, { x: segment.x2, y: segment.y2 });
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  let enter = 0;
+  let exit = 1;
+  const edges: Array<[number, number]> = [
+    [-dx, start.x],
+    [dx, box.width - start.x],
+    [-dy, start.y],
+    [dy, box.height - start.y]
+  ];
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q <= 0) return false; // parallel and outside (or on the edge)
+      continue;
+    }
+    const t = q / p;
+    if (p < 0) enter = Math.max(enter, t);
+    else exit = Math.min(exit, t);
+    if (enter >= exit) return false;
+  }
+  return true;
+}
@@ -0,0 +1,79 @@
+// src/utils/mapView.ts
+// The visible window of the map in chart units (image pixels, y growing
+// downwards like the image), plus the zoom and pan maths shared by the wheel,
+// pinch, drag and button controls.
+
+export interface MapView {
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+}
+
+// Visible part of the map as fractions of the whole image (0..1)
+export interface ViewWindow {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const MAX_ZOOM = 32;
+
+export const fullView = (width: number, height: number): MapView => ({
+  xMin: 0,
+  xMax: width - 1,
+  yMin: 0,
+  yMax: height - 1
+});
+
+export const zoomLevel = (view: MapView, full: MapView): number =>
+  (full.xMax - full.xMin) / (view.xMax - view.xMin);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Shift a [min, max] span back inside [lo, hi] without changing its size
+function clampSpan(min: number, max: number, lo: number, hi: number): [number, number] {
+  const size = max - min;
+  if (size >= hi - lo) return [lo, hi];
+  const start = clamp(min, lo, hi - size);
+  return [start, start + size];
+}
+
+function clampToMap(view: MapView, full: MapView): MapView {
+  const [xMin, xMax] = clampSpan(view.xMin, view.xMax, full.xMin, full.xMax);
+  const [yMin, yMax] = clampSpan(view.yMin, view.yMax, full.yMin, full.yMax);
+  return { xMin, xMax, yMin, yMax };
+}
+
+/**
+ * Zoom by `factor` (> 1 zooms in) keeping the chart point (anchorX, anchorY)
+ * under the cursor. The zoom level is clamped to 1..MAX_ZOOM.
+ */
+export function zoomAt(view: MapView, full: MapView, factor: number, anchorX: number, anchorY: number): MapView {
+  const current = zoomLevel(view, full);
+  const ratio = current / clamp(current * factor, 1, MAX_ZOOM); // new span / old span
+  return clampToMap({
+    xMin: anchorX - (anchorX - view.xMin) * ratio,
+    xMax: anchorX + (view.xMax - anchorX) * ratio,
+    yMin: anchorY - (anchorY - view.yMin) * ratio,
+    yMax: anchorY + (view.yMax - anchorY) * ratio
+  }, full);
+}
+
+export const zoomAtCentre = (view: MapView, full: MapView, factor: number): MapView =>
+  zoomAt(view, full, factor, (view.xMin + view.xMax) / 2, (view.yMin + view.yMax) / 2);
+
+export const panBy = (view: MapView, full: MapView, dx: number, dy: number): MapView =>
+  clampToMap({ xMin: view.xMin + dx, xMax: view.xMax + dx, yMin: view.yMin + dy, yMax: view.yMax + dy }, full);
+
+export const toViewWindow = (view: MapView, full: MapView): ViewWindow => {
+  const width = full.xMax - full.xMin;
+  const height = full.yMax - full.yMin;
+  return {
+    x: (view.xMin - full.xMin) / width,
+    y: (view.yMin - full.yMin) / height,
+    width: (view.xMax - view.xMin) / width,
+    height: (view.yMax - view.yMin) / height
+  };
+};
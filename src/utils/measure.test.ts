@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { facingFromYaw, measureLeg, measurePath, yawBetween } from './measure';
+
+const origin = { x: 0, z: 0 };
+
+describe('yawBetween', () => {
+  it('uses the game convention: south 0, west 90, north 180, east -90', () => {
+    expect(yawBetween(origin, { x: 0, z: 10 })).toBe(0);
+    expect(yawBetween(origin, { x: -10, z: 0 })).toBe(90);
+    expect(yawBetween(origin, { x: 0, z: -10 })).toBe(180);
+    expect(yawBetween(origin, { x: 10, z: 0 })).toBe(-90);
+  });
+
+  it('gives diagonals halfway between', () => {
+    expect(yawBetween(origin, { x: -5, z: 5 })).toBeCloseTo(45, 9);
+    expect(yawBetween(origin, { x: 5, z: -5 })).toBeCloseTo(-135, 9);
+  });
+
+  it('never returns -0 or -180', () => {
+    expect(Object.is(yawBetween({ x: 3, z: 0 }, { x: 3, z: 4 }), -0)).toBe(false);
+    expect(yawBetween({ x: 3, z: 4 }, { x: 3, z: 0 })).toBe(180);
+  });
+});
+
+describe('facingFromYaw', () => {
+  it('covers 90° around each direction', () => {
+    expect(facingFromYaw(0)).toBe('south');
+    expect(facingFromYaw(44.9)).toBe('south');
+    expect(facingFromYaw(45)).toBe('west');
+    expect(facingFromYaw(180)).toBe('north');
+    expect(facingFromYaw(-135.1)).toBe('north');
+    expect(facingFromYaw(-135)).toBe('east');
+    expect(facingFromYaw(-90)).toBe('east');
+    expect(facingFromYaw(-45.1)).toBe('east');
+  });
+});
+
+describe('measurePath', () => {
+  it('measures each leg and the running totals', () => {
+    const path = measurePath([origin, { x: 3, z: 4 }, { x: 3, z: -6 }]);
+    expect(path.legs.map(leg => [leg.euclidean, leg.manhattan, leg.facing])).toEqual([
+      [5, 7, 'south'],
+      [10, 10, 'north']
+    ]);
+    expect(path.euclidean).toBe(15);
+    expect(path.manhattan).toBe(17);
+  });
+
+  it('has no legs for a single point', () => {
+    expect(measurePath([origin])).toEqual({ legs: [], euclidean: 0, manhattan: 0 });
+    expect(measureLeg(origin, origin).euclidean).toBe(0);
+  });
+});
@@ -0,0 +1,57 @@
+// src/utils/measure.ts
+// Distances and bearings between world positions for the ruler tool. Bearings
+// use the game's yaw convention: 0° faces south (+Z), 90° west, ±180° north
+// and -90° east, so a player can type the yaw straight into /tp.
+
+type WorldPoint = { x: number; z: number };
+
+export type Facing = 'north' | 'east' | 'south' | 'west';
+
+export interface MeasuredLeg {
+  euclidean: number; // blocks, straight line
+  manhattan: number; // blocks along X plus blocks along Z
+  yaw: number;       // degrees in -180..180
+  facing: Facing;
+}
+
+export interface MeasuredPath {
+  legs: MeasuredLeg[];
+  euclidean: number;
+  manhattan: number;
+}
+
+export function yawBetween(from: WorldPoint, to: WorldPoint): number {
+  const yaw = (Math.atan2(-(to.x - from.x), to.z - from.z) * 180) / Math.PI;
+  // Keep one form for due north and turn -0 (due south) into 0
+  return yaw === -180 ? 180 : yaw + 0;
+}
+
+// The F3 facing for a yaw: each direction covers 90° centred on it
+export function facingFromYaw(yaw: number): Facing {
+  const normalized = ((yaw % 360) + 360) % 360;
+  if (normalized < 45 || normalized >= 315) return 'south';
+  if (normalized < 135) return 'west';
+  if (normalized < 225) return 'north';
+  return 'east';
+}
+
+export function measureLeg(from: WorldPoint, to: WorldPoint): MeasuredLeg {
+  const dx = to.x - from.x;
+  const dz = to.z - from.z;
+  const yaw = yawBetween(from, to);
+  return {
+    euclidean: Math.hypot(dx, dz),
+    manhattan: Math.abs(dx) + Math.abs(dz),
+    yaw,
+    facing: facingFromYaw(yaw)
+  };
+}
+
+export function measurePath(points: WorldPoint[]): MeasuredPath {
+  const legs = points.slice(1).map((point, index) => measureLeg(points[index], point));
+  return {
+    legs,
+    euclidean: legs.reduce((sum, leg) => sum + leg.euclidean, 0),
+    manhattan: legs.reduce((sum, leg) => sum + leg.manhattan, 0)
+  };
+}
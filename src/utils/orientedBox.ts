@@ -0,0 +1,102 @@
+// src/utils/orientedBox.ts
+// Geometry for label boxes that may be rotated. A box is given by its
+// unrotated top-left corner and size, and turns by `rotation` radians about
+// its centre, the way labels are drawn. The R-tree indexes the axis-aligned
+// bounds; these exact tests then run on what the broad phase returns.
+
+export interface OrientedBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation?: number;
+}
+
+type Vec = { x: number; y: number };
+
+const centerOf = (box: OrientedBox): Vec => ({ x: box.x + box.width / 2, y: box.y + box.height / 2 });
+
+// The four corners, clockwise from the (rotated) top-left
+export function corners(box: OrientedBox): Vec[] {
+  const { x: cx, y: cy } = centerOf(box);
+  const cos = Math.cos(box.rotation ?? 0);
+  const sin = Math.sin(box.rotation ?? 0);
+  const hw = box.width / 2;
+  const hh = box.height / 2;
+  return [[-hw, -hh], [hw, -hh], [hw, hh], [-hw, hh]].map(([dx, dy]) => ({
+    x: cx + dx * cos - dy * sin,
+    y: cy + dx * sin + dy * cos
+  }));
+}
+
+// Axis-aligned bounds, grown by `padding` on every side
+export function orientedBounds(box: OrientedBox, padding = 0) {
+  if (!box.rotation) {
+    return { minX: box.x - padding, minY: box.y - padding, maxX: box.x + box.width + padding, maxY: box.y + box.height + padding };
+  }
+  const points = corners(box);
+  return {
+    minX: Math.min(...points.map(p => p.x)) - padding,
+    minY: Math.min(...points.map(p => p.y)) - padding,
+    maxX: Math.max(...points.map(p => p.x)) + padding,
+    maxY: Math.max(...points.map(p => p.y)) + padding
+  };
+}
+
+// A world position in the box's own frame, where the box is axis-aligned
+// with its top-left corner at (0, 0)
+export function toLocal(box: OrientedBox, point: Vec): Vec {
+  const { x: cx, y: cy } = centerOf(box);
+  const cos = Math.cos(-(box.rotation ?? 0));
+  const sin = Math.sin(-(box.rotation ?? 0));
+  const dx = point.x - cx;
+  const dy = point.y - cy;
+  return { x: dx * cos - dy * sin + box.width / 2, y: dx * sin + dy * cos + box.height / 2 };
+}
+
+export function fromLocal(box: OrientedBox, point: Vec): Vec {
+  const { x: cx, y: cy } = centerOf(box);
+  const cos = Math.cos(box.rotation ?? 0);
+  const sin = Math.sin(box.rotation ?? 0);
+  const dx = point.x - box.width / 2;
+  const dy = point.y - box.height / 2;
+  return { x: cx + dx * cos - dy * sin, y: cy + dx * sin + dy * cos };
+}
+
+// Whether two boxes, each grown by `padding`, overlap (separating axis theorem)
+export function boxesOverlap(a: OrientedBox, b: OrientedBox, padding = 0): boolean {
+  const grow = (box: OrientedBox): OrientedBox => ({
+    x: box.x - padding,
+    y: box.y - padding,
+    width: box.width + 2 * padding,
+    height: box.height + 2 * padding,
+    rotation: box.rotation
+  });
+  const pa = corners(grow(a));
+  const pb = corners(grow(b));
+  // Each box contributes its two edge directions as candidate separating axes
+  const axes = [pa[1], pa[3], pb[1], pb[3]].map((corner, i) => {
+    const origin = i < 2 ? pa[0] : pb[0];
+    return { x: corner.x - origin.x, y: corner.y - origin.y };
+  });
+  return axes.every(axis => {
+    const project = (points: Vec[]) => points.map(p => p.x * axis.x + p.y * axis.y);
+    const ra = project(pa);
+    const rb = project(pb);
+    return Math.max(...ra) > Math.min(...rb) && Math.max(...rb) > Math.min(...ra);
+  });
+}
+
+export function containsPoint(box: OrientedBox, point: Vec): boolean {
+  const local = toLocal(box, point);
+  return local.x >= 0 && local.x <= box.width && local.y >= 0 && local.y <= box.height;
+}
+
+// Closest point of the box to `point`
+export function closestPoint(box: OrientedBox, point: Vec): Vec {
+  const local = toLocal(box, point);
+  return fromLocal(box, {
+    x: Math.min(Math.max(local.x, 0), box.width),
+    y: Math.min(Math.max(local.y, 0), box.height)
+  });
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { PROJECT_SCHEMA_VERSION, parseProjectFile, serializeProject, HuntProject } from './projectFile';
+import { DEFAULT_WORLD_PROFILE } from './worldProfile';
+
+const project: HuntProject = {
+  data: [
+    { id: 'a', label: 'Red (10, 20)', x: 10, z: 20, series: 'Red' },
+    { id: 'b', label: 'Tower', x: -40, z: 90, series: 'Cyan', tags: ['north'] }
+  ],
+  chartConfig: { showDataLabels: true, pointSize: 6, backgroundImage: 'data:image/png;base64,AAAA' },
+  visibleSeries: ['Red', 'Cyan'],
+  rotation: 90,
+  worldProfile: DEFAULT_WORLD_PROFILE
+};
+
+// A file as the first release wrote it: no world profile
+const v1File = (data: unknown[]) => JSON.stringify({
+  app: 'pearlhunt',
+  schemaVersion: 1,
+  savedAt: '2024-01-01T00:00:00.000Z',
+  data,
+  chartConfig: { showDataLabels: false },
+  visibleSeries: ['Red'],
+  rotation: 0,
+  map: { kind: 'reference', src: '/maps/world.png' }
+});
+
+const withData = (data: unknown[]) => JSON.stringify({ ...serializeProject(project), data });
+
+describe('parseProjectFile', () => {
+  it('reads back what serializeProject writes', () => {
+    const result = parseProjectFile(JSON.stringify(serializeProject(project)));
+    expect(result).toEqual({ ok: true, project });
+  });
+
+  it('migrates a v1 file to the original world profile', () => {
+    const result = parseProjectFile(v1File([{ id: 'a', label: 'a', x: 100, z: -100, series: 'Red' }]));
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.project.worldProfile).toEqual(DEFAULT_WORLD_PROFILE);
+    expect(result.project.data).toHaveLength(1);
+    expect(result.project.chartConfig.backgroundImage).toBe('/maps/world.png');
+  });
+
+  it('rejects files newer than the app', () => {
+    const text = JSON.stringify({ ...serializeProject(project), schemaVersion: PROJECT_SCHEMA_VERSION + 1 });
+    expect(parseProjectFile(text)).toEqual({
+      ok: false,
+      errors: [{
+        path: 'schemaVersion',
+        message: `file version ${PROJECT_SCHEMA_VERSION + 1} is newer than this app supports (${PROJECT_SCHEMA_VERSION})`
+      }]
+    });
+  });
+
+  it('reports every bad field by path', () => {
+    const result = parseProjectFile(withData([
+      { id: 'a', label: 'a', x: 'ten', z: 0, series: 'Red' },
+      { id: 'b', label: 'b', x: 10, z: 10, series: 'Purple' }
+    ]));
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors.map(error => error.path)).toEqual(['data[0].x', 'data[1].series']);
+  });
+
+  it('rejects points outside the border or inside an exclusion zone', () => {
+    const result = parseProjectFile(withData([
+      { id: 'a', label: 'a', x: 10, z: 10, series: 'Red' },
+      { id: 'b', label: 'b', x: 500, z: 10, series: 'Red' },
+      { id: 'c', label: 'c', x: 1, z: -2, series: 'Red' }
+    ]));
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors).toEqual([
+      { path: 'data[1]', message: 'X 500 is outside -159..159' },
+      { path: 'data[2]', message: '(1, -2) is inside the Spawn exclusion (-3..3, -3..3)' }
+    ]);
+  });
+
+  it('checks v1 points against the profile they migrate to', () => {
+    const result = parseProjectFile(v1File([{ id: 'a', label: 'a', x: 0, z: 0, series: 'Red' }]));
+    expect(result.ok).toBe(false);
+  });
+
+  it('rejects duplicate point ids', () => {
+    const result = parseProjectFile(withData([
+      { id: 'a', label: 'a', x: 10, z: 10, series: 'Red' },
+      { id: 'b', label: 'b', x: 20, z: 10, series: 'Red' },
+      { id: 'a', label: 'c', x: 30, z: 10, series: 'Red' }
+    ]));
+    expect(result).toEqual({
+      ok: false,
+      errors: [{ path: 'data[2].id', message: '"a" is already used by data[0]' }]
+    });
+  });
+});
@@ -0,0 +1,417 @@
+// src/utils/projectFile.ts
+// Portable `.pearlhunt` project files: a versioned JSON document holding the
+// points, chart configuration, visible series, rotation, world profile and
+// background map.
+import {
+  CalibrationPoint,
+  ChartConfig,
+  DataPoint,
+  HuntSession,
+  MapCalibration,
+  SeriesType,
+  SERIES_COLORS,
+  WorldBorder,
+  WorldProfile
+} from '../types';
+import { downloadBlob } from './dataUtils';
+import { fitCalibration } from './calibration';
+import { DEFAULT_WORLD_PROFILE, findProfileProblem, validateCoordinates } from './worldProfile';
+
+export const PROJECT_FILE_EXTENSION = '.pearlhunt';
+export const PROJECT_SCHEMA_VERSION = 2;
+
+export type ProjectMap =
+  | { kind: 'embedded'; dataUrl: string }  // uploaded image, stored inline
+  | { kind: 'reference'; src: string };    // preset map or external URL
+
+export interface ProjectFile {
+  app: 'pearlhunt';
+  schemaVersion: number;
+  savedAt: string; // ISO timestamp
+  data: DataPoint[];
+  chartConfig: ChartConfig; // without backgroundImage, which lives in `map`
+  visibleSeries: SeriesType[];
+  rotation: number;
+  worldProfile: WorldProfile;
+  map: ProjectMap | null;
+}
+
+// The part of a session a project file carries (theme stays a local preference)
+export type HuntProject = Omit<HuntSession, 'isDarkMode'>;
+
+export interface ProjectFieldError {
+  path: string;    // e.g. "data[3].series"
+  message: string;
+}
+
+export type ProjectParseResult =
+  | { ok: true; project: HuntProject }
+  | { ok: false; errors: ProjectFieldError[] };
+
+type RawProject = Record<string, unknown>;
+
+/**
+ * Migrations upgrade a raw document from version N to N + 1. When the
+ * DataPoint or ChartConfig shape changes, bump PROJECT_SCHEMA_VERSION and
+ * register the step from the previous version here; never edit old steps.
+ */
+const MIGRATIONS: Record<number, (raw: RawProject) => RawProject> = {
+  // v1 files were made for the original world before profiles existed
+  1: (raw) => ({ ...raw, worldProfile: DEFAULT_WORLD_PROFILE })
+};
+
+export function serializeProject(project: HuntProject): ProjectFile {
+  const { backgroundImage, ...chartConfig } = project.chartConfig;
+  delete chartConfig.onImageUpdate;
+
+  let map: ProjectMap | null = null;
+  if (backgroundImage) {
+    map = backgroundImage.startsWith('data:')
+      ? { kind: 'embedded', dataUrl: backgroundImage }
+      : { kind: 'reference', src: backgroundImage };
+  }
+
+  return {
+    app: 'pearlhunt',
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    data: project.data,
+    chartConfig,
+    visibleSeries: project.visibleSeries,
+    rotation: project.rotation,
+    worldProfile: project.worldProfile,
+    map
+  };
+}
+
+export function downloadProject(project: HuntProject, filename: string = 'pearl-hunt'): void {
+  const json = JSON.stringify(serializeProject(project), null, 2);
+  const blob = new Blob([json], { type: 'application/json;charset=utf-8;' });
+  downloadBlob(blob, `${filename}${PROJECT_FILE_EXTENSION}`);
+}
+
+// Run every migration between the file's version and the current one
+function migrate(raw: RawProject, errors: ProjectFieldError[]): RawProject | null {
+  const version = raw.schemaVersion;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    errors.push({ path: 'schemaVersion', message: 'must be a positive integer' });
+    return null;
+  }
+  if (version > PROJECT_SCHEMA_VERSION) {
+    errors.push({
+      path: 'schemaVersion',
+      message: `file version ${version} is newer than this app supports (${PROJECT_SCHEMA_VERSION})`
+    });
+    return null;
+  }
+
+  let current = raw;
+  for (let v = version; v < PROJECT_SCHEMA_VERSION; v++) {
+    const step = MIGRATIONS[v];
+    if (!step) {
+      errors.push({ path: 'schemaVersion', message: `no migration from version ${v} to ${v + 1}` });
+      return null;
+    }
+    current = { ...step(current), schemaVersion: v + 1 };
+  }
+  return current;
+}
+
+const isRecord = (value: unknown): value is RawProject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isSeries = (value: unknown): value is SeriesType =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(SERIES_COLORS, value);
+
+function validateDataPoint(raw: unknown, path: string, errors: ProjectFieldError[]): DataPoint | null {
+  if (!isRecord(raw)) {
+    errors.push({ path, message: 'must be an object' });
+    return null;
+  }
+  const before = errors.length;
+  if (typeof raw.id !== 'string' || raw.id === '') errors.push({ path: `${path}.id`, message: 'must be a non-empty string' });
+  if (typeof raw.label !== 'string') errors.push({ path: `${path}.label`, message: 'must be a string' });
+  if (!isFiniteNumber(raw.x)) errors.push({ path: `${path}.x`, message: 'must be a number' });
+  if (!isFiniteNumber(raw.z)) errors.push({ path: `${path}.z`, message: 'must be a number' });
+  if (!isSeries(raw.series)) errors.push({ path: `${path}.series`, message: `unknown series "${String(raw.series)}"` });
+  if (raw.tags !== undefined && !(Array.isArray(raw.tags) && raw.tags.every(tag => typeof tag === 'string'))) {
+    errors.push({ path: `${path}.tags`, message: 'must be a list of strings' });
+  }
+  if (errors.length > before) return null;
+
+  return {
+    id: raw.id as string,
+    label: raw.label as string,
+    x: raw.x as number,
+    z: raw.z as number,
+    series: raw.series as SeriesType,
+    ...(Array.isArray(raw.tags) && raw.tags.length > 0 ? { tags: raw.tags as string[] } : {})
+  };
+}
+
+const CONFIG_FIELD_TYPES: Record<string, 'number' | 'string' | 'boolean'> = {
+  backgroundImageOpacity: 'number',
+  backgroundImageScale: 'number',
+  showDataLabels: 'boolean',
+  dataLabelFontSize: 'number',
+  labelTimeBudgetMs: 'number',
+  labelCallouts: 'boolean',
+  labelRotation: 'boolean',
+  forceShowLabels: 'boolean',
+  imageWidth: 'number',
+  imageHeight: 'number',
+  pointSize: 'number',
+  xAxisLabel: 'string',
+  zAxisLabel: 'string',
+  axisTickFontSize: 'number',
+  title: 'string',
+  mirrorX: 'boolean',
+  mirrorZ: 'boolean',
+  gridBlocks: 'boolean',
+  gridChunks: 'boolean',
+  gridRegions: 'boolean',
+  showRulers: 'boolean',
+  showOrigin: 'boolean',
+  gridColor: 'string',
+  gridOpacity: 'number'
+};
+
+const ORIENTATIONS = ['north-up', 'south-up'];
+const LABEL_PLACEMENTS = ['greedy', 'anneal'];
+
+function validateChartConfig(raw: unknown, errors: ProjectFieldError[]): ChartConfig {
+  if (!isRecord(raw)) {
+    errors.push({ path: 'chartConfig', message: 'must be an object' });
+    return {};
+  }
+  const config: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const expected = CONFIG_FIELD_TYPES[key];
+    if (!expected || value === undefined) continue; // ignore unknown keys
+    if (typeof value !== expected || (expected === 'number' && !Number.isFinite(value))) {
+      errors.push({ path: `chartConfig.${key}`, message: `must be a ${expected}` });
+      continue;
+    }
+    config[key] = value;
+  }
+  if (raw.orientation !== undefined) {
+    if (typeof raw.orientation === 'string' && ORIENTATIONS.includes(raw.orientation)) {
+      config.orientation = raw.orientation;
+    } else {
+      errors.push({ path: 'chartConfig.orientation', message: `must be one of ${ORIENTATIONS.join(', ')}` });
+    }
+  }
+  if (raw.labelPlacement !== undefined) {
+    if (typeof raw.labelPlacement === 'string' && LABEL_PLACEMENTS.includes(raw.labelPlacement)) {
+      config.labelPlacement = raw.labelPlacement;
+    } else {
+      errors.push({ path: 'chartConfig.labelPlacement', message: `must be one of ${LABEL_PLACEMENTS.join(', ')}` });
+    }
+  }
+  if (raw.calibration !== undefined) {
+    const calibration = validateCalibration(raw.calibration, errors);
+    if (calibration) config.calibration = calibration;
+  }
+  for (const key of ['xAxisDomain', 'zAxisDomain'] as const) {
+    const domain = raw[key];
+    if (domain === undefined) continue;
+    if (!Array.isArray(domain) || domain.length !== 2 || !domain.every(isFiniteNumber)) {
+      errors.push({ path: `chartConfig.${key}`, message: 'must be a [min, max] pair of numbers' });
+      continue;
+    }
+    config[key] = domain;
+  }
+  return config as ChartConfig;
+}
+
+// Only the landmarks are trusted; the matrix and errors are refitted from them
+function validateCalibration(raw: unknown, errors: ProjectFieldError[]): MapCalibration | undefined {
+  const path = 'chartConfig.calibration';
+  if (!isRecord(raw) || !Array.isArray(raw.points)) {
+    errors.push({ path, message: 'must be an object with a points array' });
+    return undefined;
+  }
+  const points: CalibrationPoint[] = [];
+  raw.points.forEach((point: unknown, index: number) => {
+    if (!isRecord(point) || !['imageX', 'imageY', 'worldX', 'worldZ'].every(key => isFiniteNumber(point[key]))) {
+      errors.push({ path: `${path}.points[${index}]`, message: 'must have numeric imageX, imageY, worldX and worldZ' });
+      return;
+    }
+    points.push({
+      imageX: point.imageX as number,
+      imageY: point.imageY as number,
+      worldX: point.worldX as number,
+      worldZ: point.worldZ as number
+    });
+  });
+  if (points.length !== raw.points.length) return undefined;
+  const result = fitCalibration(points);
+  if (!result.ok) {
+    errors.push({ path, message: result.error });
+    return undefined;
+  }
+  return result.calibration;
+}
+
+function validateWorldProfile(raw: unknown, errors: ProjectFieldError[]): WorldProfile | null {
+  const before = errors.length;
+  if (!isRecord(raw)) {
+    errors.push({ path: 'worldProfile', message: 'must be an object' });
+    return null;
+  }
+
+  const origin = raw.origin;
+  if (!isRecord(origin) || !isFiniteNumber(origin.x) || !isFiniteNumber(origin.z)) {
+    errors.push({ path: 'worldProfile.origin', message: 'must have numeric x and z' });
+  }
+
+  let border: WorldBorder | null = null;
+  const rawBorder = raw.border;
+  if (isRecord(rawBorder) && rawBorder.shape === 'square' && isFiniteNumber(rawBorder.halfWidth) && isFiniteNumber(rawBorder.halfDepth)) {
+    border = { shape: 'square', halfWidth: rawBorder.halfWidth, halfDepth: rawBorder.halfDepth };
+  } else if (isRecord(rawBorder) && rawBorder.shape === 'circle' && isFiniteNumber(rawBorder.radius)) {
+    border = { shape: 'circle', radius: rawBorder.radius };
+  } else {
+    errors.push({
+      path: 'worldProfile.border',
+      message: 'must be a square with halfWidth and halfDepth or a circle with radius'
+    });
+  }
+
+  const exclusions: WorldProfile['exclusions'] = [];
+  if (!Array.isArray(raw.exclusions)) {
+    errors.push({ path: 'worldProfile.exclusions', message: 'must be an array' });
+  } else {
+    raw.exclusions.forEach((zone: unknown, index: number) => {
+      if (!isRecord(zone) || typeof zone.name !== 'string' ||
+          !['xMin', 'xMax', 'zMin', 'zMax'].every(key => isFiniteNumber(zone[key]))) {
+        errors.push({
+          path: `worldProfile.exclusions[${index}]`,
+          message: 'must have a name and numeric xMin, xMax, zMin and zMax'
+        });
+        return;
+      }
+      exclusions.push({
+        name: zone.name,
+        xMin: zone.xMin as number,
+        xMax: zone.xMax as number,
+        zMin: zone.zMin as number,
+        zMax: zone.zMax as number
+      });
+    });
+  }
+
+  if (errors.length > before || !border || !isRecord(origin)) return null;
+  const profile: WorldProfile = { origin: { x: origin.x as number, z: origin.z as number }, border, exclusions };
+  const problem = findProfileProblem(profile);
+  if (problem) {
+    errors.push({ path: 'worldProfile', message: problem });
+    return null;
+  }
+  return profile;
+}
+
+function validateMap(raw: unknown, errors: ProjectFieldError[]): string | undefined {
+  if (raw === null || raw === undefined) return undefined;
+  if (!isRecord(raw)) {
+    errors.push({ path: 'map', message: 'must be an object or null' });
+    return undefined;
+  }
+  if (raw.kind === 'embedded') {
+    if (typeof raw.dataUrl !== 'string' || !raw.dataUrl.startsWith('data:image/')) {
+      errors.push({ path: 'map.dataUrl', message: 'must be an image data URL' });
+      return undefined;
+    }
+    return raw.dataUrl;
+  }
+  if (raw.kind === 'reference') {
+    if (typeof raw.src !== 'string' || raw.src === '') {
+      errors.push({ path: 'map.src', message: 'must be a non-empty string' });
+      return undefined;
+    }
+    return raw.src;
+  }
+  errors.push({ path: 'map.kind', message: 'must be "embedded" or "reference"' });
+  return undefined;
+}
+
+// Parse and validate the text of a `.pearlhunt` file, migrating it if needed
+export function parseProjectFile(text: string): ProjectParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return { ok: false, errors: [{ path: '', message: `not valid JSON: ${(error as Error).message}` }] };
+  }
+
+  if (!isRecord(parsed) || parsed.app !== 'pearlhunt') {
+    return { ok: false, errors: [{ path: 'app', message: 'not a Pearl Hunt project file' }] };
+  }
+
+  const errors: ProjectFieldError[] = [];
+  const raw = migrate(parsed, errors);
+  if (!raw) return { ok: false, errors };
+
+  const data: DataPoint[] = [];
+  const dataPaths: string[] = []; // path of each entry in `data`, for errors found later
+  if (!Array.isArray(raw.data)) {
+    errors.push({ path: 'data', message: 'must be an array' });
+  } else {
+    // Table rows, the selection and undo history all key on the id
+    const firstWithId = new Map<string, number>();
+    raw.data.forEach((item, index) => {
+      const point = validateDataPoint(item, `data[${index}]`, errors);
+      if (!point) return;
+      const first = firstWithId.get(point.id);
+      if (first !== undefined) {
+        errors.push({ path: `data[${index}].id`, message: `"${point.id}" is already used by data[${first}]` });
+        return;
+      }
+      firstWithId.set(point.id, index);
+      data.push(point);
+      dataPaths.push(`data[${index}]`);
+    });
+  }
+
+  const chartConfig = validateChartConfig(raw.chartConfig, errors);
+  const backgroundImage = validateMap(raw.map, errors);
+
+  const visibleSeries: SeriesType[] = [];
+  if (!Array.isArray(raw.visibleSeries)) {
+    errors.push({ path: 'visibleSeries', message: 'must be an array' });
+  } else {
+    raw.visibleSeries.forEach((series, index) => {
+      if (isSeries(series)) visibleSeries.push(series);
+      else errors.push({ path: `visibleSeries[${index}]`, message: `unknown series "${String(series)}"` });
+    });
+  }
+
+  if (!isFiniteNumber(raw.rotation)) {
+    errors.push({ path: 'rotation', message: 'must be a number' });
+  }
+
+  const worldProfile = validateWorldProfile(raw.worldProfile, errors);
+  // Points get the same border and exclusion checks as every other way in
+  if (worldProfile) {
+    data.forEach((point, index) => {
+      const problem = validateCoordinates(point.x, point.z, worldProfile);
+      if (problem) errors.push({ path: dataPaths[index], message: problem });
+    });
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  return {
+    ok: true,
+    project: {
+      data,
+      chartConfig: { ...chartConfig, backgroundImage },
+      visibleSeries,
+      rotation: raw.rotation as number,
+      worldProfile: worldProfile ?? DEFAULT_WORLD_PROFILE
+    }
+  };
+}
@@ -0,0 +1,49 @@
+// src/utils/selection.ts
+// Helpers for the point selection shared by the map (box and lasso) and the
+// data table (click, shift-click, ctrl-click). A selection is a set of point
+// ids so it survives reordering, undo and redo.
+
+export type SelectionMode = 'replace' | 'add' | 'toggle';
+
+type ScreenPoint = { x: number; y: number };
+
+// Even-odd ray casting; works for self-intersecting lasso paths too
+export function pointInPolygon(point: ScreenPoint, polygon: ScreenPoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Axis-aligned rectangle spanned by two corners, in any order
+export function rectPolygon(from: ScreenPoint, to: ScreenPoint): ScreenPoint[] {
+  return [
+    { x: from.x, y: from.y },
+    { x: to.x, y: from.y },
+    { x: to.x, y: to.y },
+    { x: from.x, y: to.y }
+  ];
+}
+
+export function applySelection(current: Set<string>, ids: string[], mode: SelectionMode): Set<string> {
+  if (mode === 'replace') return new Set(ids);
+  const next = new Set(current);
+  for (const id of ids) {
+    if (mode === 'toggle' && next.has(id)) next.delete(id);
+    else next.add(id);
+  }
+  return next;
+}
+
+// Ids from the anchor row to the clicked row inclusive, in table order
+export function rangeBetween(orderedIds: string[], anchorId: string, targetId: string): string[] {
+  const from = orderedIds.indexOf(anchorId);
+  const to = orderedIds.indexOf(targetId);
+  if (from === -1 || to === -1) return [targetId];
+  return orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+}
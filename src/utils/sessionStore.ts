@@ -0,0 +1,167 @@
+// src/utils/sessionStore.ts
+// Local persistence for the hunt session. Uses IndexedDB when available and
+// falls back to localStorage (private browsing, old browsers, blocked storage).
+import { ChartConfig, HuntSession, SavedSession } from '../types';
+
+const DB_NAME = 'pearlhunt';
+const STORE_NAME = 'session';
+const SESSION_KEY = 'current';
+const IMAGE_KEY = 'backgroundImage';
+const LOCAL_STORAGE_PREFIX = 'pearlhunt:';
+
+// Placeholder written into the session record when the background image is
+// stored under its own key. Uploaded maps are multi-megabyte data URLs, so we
+// only rewrite them when they actually change instead of on every autosave.
+const STORED_IMAGE_REF = 'pearlhunt:stored-image';
+
+interface SessionBackend {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+// Wrap an IDBRequest in a promise
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB open request was blocked'));
+  });
+}
+
+async function createIndexedDBBackend(): Promise<SessionBackend> {
+  const db = await openDatabase();
+  const store = (mode: IDBTransactionMode) =>
+    db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+  return {
+    get: <T>(key: string) => promisify(store('readonly').get(key)) as Promise<T | undefined>,
+    set: async (key, value) => {
+      await promisify(store('readwrite').put(value, key));
+    },
+    remove: async (key) => {
+      await promisify(store('readwrite').delete(key));
+    }
+  };
+}
+
+function createLocalStorageBackend(): SessionBackend {
+  return {
+    get: async <T>(key: string) => {
+      const raw = window.localStorage.getItem(LOCAL_STORAGE_PREFIX + key);
+      return raw === null ? undefined : (JSON.parse(raw) as T);
+    },
+    set: async (key, value) => {
+      window.localStorage.setItem(LOCAL_STORAGE_PREFIX + key, JSON.stringify(value));
+    },
+    remove: async (key) => {
+      window.localStorage.removeItem(LOCAL_STORAGE_PREFIX + key);
+    }
+  };
+}
+
+let backendPromise: Promise<SessionBackend> | null = null;
+
+function getBackend(): Promise<SessionBackend> {
+  if (!backendPromise) {
+    backendPromise = (typeof indexedDB === 'undefined'
+      ? Promise.reject(new Error('IndexedDB is not available'))
+      : createIndexedDBBackend()
+    ).catch((error) => {
+      console.warn('Falling back to localStorage for session storage:', error);
+      return createLocalStorageBackend();
+    });
+  }
+  return backendPromise;
+}
+
+// Last background image written to storage, so unchanged images are skipped
+let lastSavedImage: string | undefined;
+// Background image that did not fit in storage; not retried on every autosave
+let unstorableImage: string | undefined;
+
+export interface SaveSessionResult {
+  imageFailed: boolean; // the background image could not be stored, the rest of the session was
+}
+
+const isDataUrl = (value?: string): value is string => !!value && value.startsWith('data:');
+
+// Functions cannot be structured-cloned into IndexedDB; drop the callback prop
+function toStorableConfig(chartConfig: ChartConfig): ChartConfig {
+  const config = { ...chartConfig };
+  delete config.onImageUpdate;
+  return config;
+}
+
+export async function saveSession(session: HuntSession): Promise<SaveSessionResult> {
+  const backend = await getBackend();
+  const config = toStorableConfig(session.chartConfig);
+  const image = config.backgroundImage;
+  let imageFailed = false;
+
+  if (isDataUrl(image)) {
+    if (image !== lastSavedImage && image !== unstorableImage) {
+      try {
+        await backend.set(IMAGE_KEY, image);
+        lastSavedImage = image;
+      } catch (error) {
+        // Usually the localStorage quota; points and settings must still be saved
+        console.warn('Background image could not be stored, saving the session without it:', error);
+        imageFailed = true;
+        unstorableImage = image;
+        lastSavedImage = undefined;
+        await backend.remove(IMAGE_KEY);
+      }
+    }
+    if (image === unstorableImage) {
+      delete config.backgroundImage;
+    } else {
+      config.backgroundImage = STORED_IMAGE_REF;
+    }
+  } else if (lastSavedImage !== undefined) {
+    await backend.remove(IMAGE_KEY);
+    lastSavedImage = undefined;
+  }
+
+  const record: SavedSession = {
+    ...session,
+    chartConfig: config,
+    savedAt: Date.now()
+  };
+  await backend.set(SESSION_KEY, record);
+  return { imageFailed };
+}
+
+export async function loadSession(): Promise<SavedSession | null> {
+  const backend = await getBackend();
+  const record = await backend.get<SavedSession>(SESSION_KEY);
+  if (!record || !Array.isArray(record.data)) {
+    return null;
+  }
+
+  if (record.chartConfig?.backgroundImage === STORED_IMAGE_REF) {
+    const image = await backend.get<string>(IMAGE_KEY);
+    record.chartConfig = { ...record.chartConfig, backgroundImage: image };
+    lastSavedImage = image;
+  }
+  return record;
+}
+
+export async function clearSession(): Promise<void> {
+  const backend = await getBackend();
+  await backend.remove(SESSION_KEY);
+  await backend.remove(IMAGE_KEY);
+  lastSavedImage = undefined;
+  unstorableImage = undefined;
+}
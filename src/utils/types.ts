@@ -1,5 +1,6 @@
 // src/utils/types.ts
 export interface Point {
+  id?: string;          // stable identity of the labelled point(s) across layouts
   x: number;            // data point center X
   y: number;            // data point center Y
   text: string;         // label text
@@ -15,6 +16,8 @@ export interface LabelBox {
   rotation: number;     // rotation angle (in radians) around box center
   text: string;         // label text (for rendering)
   forPoint: Point;      // original point that this label describes
+  leader?: { x: number; y: number }; // end of the leader line on the label edge; it starts at forPoint
+  callout?: boolean;    // placed in the callout column along the chart edge
 }
 
 export interface ChartSize {
@@ -42,12 +45,21 @@ export interface DebugInfo {
       pointPenalty?: number;
       outOfBoundsPenalty?: number;
       idealAngleBonus?: number;
+      leaderCrossingPenalty?: number;
+      rotationPenalty?: number;
+      borderPenalty?: number;
+      centerBonus?: number;
+      distancePenalty?: number;
+      boundaryPenalty?: number;
     };
   }>;
-  selectedCandidateIndex: number;
+  selectedCandidateIndex: number; // greedy choice, -1 when the label was dropped
   placedLabels: Array<{x: number, y: number, text: string}>;
 }
 
+// Greedy places labels one by one; anneal then optimises the whole layout
+export type PlacementMode = 'greedy' | 'anneal';
+
 export interface LabelPlacerOptions {
   radius?: number;         // base radius (in px) from point to label center
   rings?: number;          // how many rings of candidates (radial expansion)
@@ -57,6 +69,14 @@ export interface LabelPlacerOptions {
   pointPenalty?: number;   // penalty for covering a point
   outOfBoundsPenalty?: number; 
   idealAngleBonus?: number; // bonus for matching "preferred" angles
+  mode?: PlacementMode;     // 'greedy' (fast) or 'anneal' (greedy, then globally optimised)
+  timeBudgetMs?: number;    // longest the optimiser may run
+  seed?: number;            // optimiser random seed; the same seed gives the same layout
+  iterationsPerLabel?: number; // optimiser moves per label, unless the time budget runs out first
+  dropPenalty?: number;     // optimiser cost of leaving a label out
+  leaderCrossingPenalty?: number; // penalty for each label a leader line passes through
+  callouts?: boolean;       // labels that fit nowhere go to a column along the nearest side edge
+  rotations?: number[];     // label angles (radians) to try; [0] keeps every label level
   debug?: boolean;         // enable debug logging and visualization
 }
 
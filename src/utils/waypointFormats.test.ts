@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { DataPoint } from '../types';
+import {
+  DEFAULT_COLOR_SERIES_TABLE,
+  detectWaypointFormat,
+  importWaypointFiles,
+  parseJourneyMap,
+  parseVoxelMap,
+  parseXaero,
+  toJourneyMap,
+  toVoxelMap,
+  toXaero
+} from './waypointFormats';
+import { DEFAULT_WORLD_PROFILE } from './worldProfile';
+
+const points: DataPoint[] = [
+  { id: 'a', label: 'Tower: north', x: 100, z: -50, series: 'Red' },
+  { id: 'b', label: 'Cave, deep', x: -20, z: 140, series: 'Cyan' }
+];
+const exportOptions = { dimension: 'overworld' as const, y: 64 };
+
+const accepted = (files: { path: string; content: string }[]) =>
+  importWaypointFiles(files, DEFAULT_COLOR_SERIES_TABLE, DEFAULT_WORLD_PROFILE).accepted
+    .map(({ label, x, z, series }) => ({ label, x, z, series }));
+
+const expected = points.map(({ label, x, z, series }) => ({ label, x, z, series }));
+
+describe('waypoint round trips', () => {
+  it('reads back Xaero files, colons included', () => {
+    const file = toXaero(points, exportOptions);
+    expect(file.path).toBe('xaero/dim%0/mw$default_1.txt');
+    expect(accepted([file])).toEqual(expected);
+  });
+
+  it('reads back JourneyMap files', () => {
+    expect(accepted(toJourneyMap(points, exportOptions))).toEqual(expected);
+  });
+
+  it('reads back VoxelMap files, commas included', () => {
+    expect(accepted([toVoxelMap(points, exportOptions)])).toEqual(expected);
+  });
+});
+
+describe('parsers', () => {
+  it('skips Xaero comment and set lines', () => {
+    const text = '#\nsets:gui.xaero_default\nwaypoint:Home:H:1:64:2:12:false:0:gui.xaero_default:false:0:0:false\n';
+    expect(parseXaero(text)).toEqual([{ line: 3, name: 'Home', x: '1', z: '2', color: { r: 255, g: 85, b: 85 } }]);
+  });
+
+  it('reads JourneyMap packed colours and waypoint collections', () => {
+    const text = JSON.stringify({ waypoints: { home: { name: 'Home', x: 1, z: 2, color: 0x00ff00 } } });
+    expect(parseJourneyMap(text)).toEqual([{ line: 1, name: 'Home', x: '1', z: '2', color: { r: 0, g: 255, b: 0 } }]);
+  });
+
+  it('skips VoxelMap header lines', () => {
+    const text = 'subworlds:\nseeds:\nname:Home,x:1,z:2,y:64,enabled:true,red:1.0,green:0.0,blue:0.0,suffix:,world:,dimensions:overworld#\n';
+    expect(parseVoxelMap(text)).toEqual([{ line: 3, name: 'Home', x: '1', z: '2', color: { r: 255, g: 0, b: 0 } }]);
+  });
+});
+
+describe('detectWaypointFormat', () => {
+  it('recognises each format', () => {
+    expect(detectWaypointFormat(toXaero(points, exportOptions).content)).toBe('xaero');
+    expect(detectWaypointFormat(toJourneyMap(points, exportOptions)[0].content)).toBe('journeymap');
+    expect(detectWaypointFormat(toVoxelMap(points, exportOptions).content)).toBe('voxelmap');
+  });
+
+  it('does not take other JSON or CSV for waypoints', () => {
+    expect(detectWaypointFormat(JSON.stringify({ app: 'pearlhunt', schemaVersion: 2, data: [{ x: 1, z: 2 }] }))).toBeNull();
+    expect(detectWaypointFormat('[1, 2, 3]')).toBeNull();
+    expect(detectWaypointFormat('{ "name": "cut off')).toBeNull();
+    expect(detectWaypointFormat('x,z,series\n1,2,Red\n')).toBeNull();
+  });
+});
+
+describe('importWaypointFiles', () => {
+  it('validates waypoints and names the file on each row of a multi-file import', () => {
+    const report = importWaypointFiles([
+      { path: 'xaero/a.txt', content: 'waypoint:Spawn:S:0:64:0:12:false:0:gui.xaero_default:false:0:0:false\n' },
+      { path: 'README.md', content: 'Exported waypoints' },
+      toVoxelMap([points[1]], exportOptions)
+    ], DEFAULT_COLOR_SERIES_TABLE, DEFAULT_WORLD_PROFILE);
+    expect(report.rows.map(row => [row.source, row.line, row.status])).toEqual([
+      ['xaero/a.txt', 1, 'rejected'],
+      ['voxelmap/pearlhunt.points', 1, 'accepted']
+    ]);
+  });
+
+  it('leaves the file name off for a single file', () => {
+    const report = importWaypointFiles([toXaero(points, exportOptions)], DEFAULT_COLOR_SERIES_TABLE, DEFAULT_WORLD_PROFILE);
+    expect(report.rows.every(row => row.source === undefined)).toBe(true);
+  });
+});
@@ -0,0 +1,396 @@
+// src/utils/waypointFormats.ts
+// Waypoint files for Minecraft minimap mods: Xaero's Minimap, JourneyMap and
+// VoxelMap. On export each series maps to the mod's closest colour and the
+// point label becomes the waypoint name; on import waypoint colours map back
+// to series through a user-editable table and every waypoint goes through the
+// same validation as CSV rows.
+import { DataPoint, SeriesType, SERIES_COLORS, WorldProfile } from '../types';
+import { ExportFile } from './dataUtils';
+import { ImportReport, createRowProcessor } from './importPipeline';
+
+export type WaypointFormat = 'xaero' | 'journeymap' | 'voxelmap';
+
+export const WAYPOINT_FORMAT_LABELS: Record<WaypointFormat, string> = {
+  xaero: "Xaero's Minimap",
+  journeymap: 'JourneyMap',
+  voxelmap: 'VoxelMap'
+};
+
+export type Dimension = 'overworld' | 'the_nether' | 'the_end';
+
+export const DIMENSION_LABELS: Record<Dimension, string> = {
+  overworld: 'Overworld',
+  the_nether: 'Nether',
+  the_end: 'The End'
+};
+
+// Legacy numeric dimension ids, used by Xaero's folder names
+const DIMENSION_IDS: Record<Dimension, number> = {
+  overworld: 0,
+  the_nether: -1,
+  the_end: 1
+};
+
+export interface WaypointExportOptions {
+  dimension: Dimension;
+  y: number;
+}
+
+/**
+ * Xaero colours index the 16 Minecraft chat colours:
+ * 0 black, 1 dark_blue, 2 dark_green, 3 dark_aqua, 4 dark_red, 5 dark_purple,
+ * 6 gold, 7 gray, 8 dark_gray, 9 blue, 10 green, 11 aqua, 12 red,
+ * 13 light_purple, 14 yellow, 15 white
+ */
+export const XAERO_SERIES_COLORS: Record<SeriesType, number> = {
+  Cyan: 11,
+  Blue: 9,
+  White: 15,
+  Red: 12,
+  Magenta: 13,
+  Green: 10,
+  Yellow: 14,
+  Black: 0
+};
+
+// RGB of the chat colours above, by index
+const XAERO_CHAT_COLORS = [
+  '#000000', '#0000AA', '#00AA00', '#00AAAA', '#AA0000', '#AA00AA', '#FFAA00', '#AAAAAA',
+  '#555555', '#5555FF', '#55FF55', '#55FFFF', '#FF5555', '#FF55FF', '#FFFF55', '#FFFFFF'
+];
+
+export interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export function hexToRgb(hex: string): Rgb {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return { r: (value >> 16) & 0xff, g: (value >> 8) & 0xff, b: value & 0xff };
+}
+
+const blockCoord = (value: number) => Math.round(value);
+
+// Initials shown inside Xaero's waypoint marker (first letters of up to two words)
+const initials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(word => word[0].toUpperCase()).join('') || 'P';
+
+// Xaero uses ':' as its field separator and escapes it as '§§'
+const escapeXaero = (value: string) => value.replace(/:/g, '§§');
+
+export function toXaero(points: DataPoint[], options: WaypointExportOptions): ExportFile {
+  const lines = [
+    '#',
+    '#waypoint:name:initials:x:y:z:color:disabled:type:set:rotate_on_tp:tp_yaw:visibility_type:destination',
+    '#',
+    ...points.map(point => [
+      'waypoint',
+      escapeXaero(point.label),
+      escapeXaero(initials(point.label)),
+      blockCoord(point.x),
+      options.y,
+      blockCoord(point.z),
+      XAERO_SERIES_COLORS[point.series],
+      'false',
+      0,
+      'gui.xaero_default',
+      'false',
+      0,
+      0,
+      'false'
+    ].join(':'))
+  ];
+  return {
+    path: `xaero/dim%${DIMENSION_IDS[options.dimension]}/mw$default_1.txt`,
+    content: lines.join('\n') + '\n'
+  };
+}
+
+// File names must survive every OS the mods run on
+const safeFileName = (value: string) => value.replace(/[^a-zA-Z0-9 _().,-]/g, '_');
+
+// JourneyMap stores one JSON file per waypoint
+export function toJourneyMap(points: DataPoint[], options: WaypointExportOptions): ExportFile[] {
+  return points.map(point => {
+    const x = blockCoord(point.x);
+    const z = blockCoord(point.z);
+    const id = `${point.label}_${x},${options.y},${z}`;
+    const { r, g, b } = hexToRgb(SERIES_COLORS[point.series]);
+    const waypoint = {
+      id,
+      name: point.label,
+      icon: 'waypoint-normal.png',
+      x,
+      y: options.y,
+      z,
+      r,
+      g,
+      b,
+      enable: true,
+      type: 'Normal',
+      origin: 'journeymap',
+      dimensions: [`minecraft:${options.dimension}`],
+      persistent: true
+    };
+    return {
+      path: `journeymap/${safeFileName(id)}.json`,
+      content: JSON.stringify(waypoint, null, 2)
+    };
+  });
+}
+
+// VoxelMap separates fields with ',' and key/value with ':'
+const escapeVoxelMap = (value: string) => value.replace(/,/g, '~comma~').replace(/:/g, '~colon~');
+
+export function toVoxelMap(points: DataPoint[], options: WaypointExportOptions): ExportFile {
+  const lines = points.map(point => {
+    const { r, g, b } = hexToRgb(SERIES_COLORS[point.series]);
+    return [
+      `name:${escapeVoxelMap(point.label)}`,
+      `x:${blockCoord(point.x)}`,
+      `z:${blockCoord(point.z)}`,
+      `y:${options.y}`,
+      'enabled:true',
+      `red:${(r / 255).toFixed(3)}`,
+      `green:${(g / 255).toFixed(3)}`,
+      `blue:${(b / 255).toFixed(3)}`,
+      'suffix:',
+      'world:',
+      `dimensions:${options.dimension}#`
+    ].join(',');
+  });
+  return {
+    path: 'voxelmap/pearlhunt.points',
+    content: lines.join('\n') + '\n'
+  };
+}
+
+export function exportWaypoints(format: WaypointFormat, points: DataPoint[], options: WaypointExportOptions): ExportFile[] {
+  switch (format) {
+    case 'xaero':
+      return [toXaero(points, options)];
+    case 'journeymap':
+      return toJourneyMap(points, options);
+    case 'voxelmap':
+      return [toVoxelMap(points, options)];
+  }
+}
+
+// --- Import ---
+
+// A waypoint as read from a file, before validation. Coordinates stay
+// strings so malformed values are reported by the import pipeline.
+export interface RawWaypoint {
+  line: number;        // 1-based line in the source file (JourneyMap: waypoint index)
+  name: string;
+  x: string;
+  z: string;
+  color: Rgb | null;
+}
+
+export interface ColorSeriesEntry {
+  color: string;       // #RRGGBB
+  series: SeriesType;
+}
+
+/**
+ * Every series matches its own colour and the chat colour Xaero exports it
+ * as, so files written by this app round-trip exactly.
+ */
+export const DEFAULT_COLOR_SERIES_TABLE: ColorSeriesEntry[] = (Object.keys(SERIES_COLORS) as SeriesType[]).flatMap(series => [
+  { color: SERIES_COLORS[series], series },
+  { color: XAERO_CHAT_COLORS[XAERO_SERIES_COLORS[series]], series }
+]);
+
+const COLOR_TABLE_STORAGE_KEY = 'pearlhunt:waypoint-color-table';
+
+const isColorSeriesEntry = (value: unknown): value is ColorSeriesEntry => {
+  const entry = value as ColorSeriesEntry;
+  return typeof entry?.color === 'string' && /^#[0-9a-f]{6}$/i.test(entry.color) &&
+    Object.prototype.hasOwnProperty.call(SERIES_COLORS, entry.series);
+};
+
+export function loadColorSeriesTable(): ColorSeriesEntry[] {
+  try {
+    const raw = window.localStorage.getItem(COLOR_TABLE_STORAGE_KEY);
+    const parsed: unknown = raw === null ? null : JSON.parse(raw);
+    if (Array.isArray(parsed) && parsed.length > 0 && parsed.every(isColorSeriesEntry)) {
+      return parsed;
+    }
+  } catch (error) {
+    console.warn('Could not read the waypoint colour table:', error);
+  }
+  return DEFAULT_COLOR_SERIES_TABLE;
+}
+
+export function saveColorSeriesTable(table: ColorSeriesEntry[]) {
+  try {
+    window.localStorage.setItem(COLOR_TABLE_STORAGE_KEY, JSON.stringify(table));
+  } catch (error) {
+    console.warn('Could not save the waypoint colour table:', error);
+  }
+}
+
+// Series of the table entry closest in RGB space
+export function nearestSeries(color: Rgb, table: ColorSeriesEntry[]): SeriesType | null {
+  let best: SeriesType | null = null;
+  let bestDistance = Infinity;
+  for (const entry of table) {
+    const { r, g, b } = hexToRgb(entry.color);
+    const distance = (r - color.r) ** 2 + (g - color.g) ** 2 + (b - color.b) ** 2;
+    if (distance < bestDistance) {
+      best = entry.series;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+const toLines = (text: string) => text.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+export function parseXaero(text: string): RawWaypoint[] {
+  const waypoints: RawWaypoint[] = [];
+  toLines(text).forEach((line, index) => {
+    if (!line.startsWith('waypoint:')) return;
+    const fields = line.split(':');
+    const hex = XAERO_CHAT_COLORS[Number(fields[6])];
+    waypoints.push({
+      line: index + 1,
+      name: (fields[1] ?? '').replace(/§§/g, ':'),
+      x: fields[3] ?? '',
+      z: fields[5] ?? '',
+      color: hex ? hexToRgb(hex) : null
+    });
+  });
+  return waypoints;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A JourneyMap file holds one waypoint object; arrays of them and
+// { "waypoints": ... } collections are accepted too
+const journeyMapEntries = (parsed: unknown): unknown[] => {
+  if (Array.isArray(parsed)) return parsed;
+  if (isRecord(parsed) && 'waypoints' in parsed) {
+    const { waypoints } = parsed;
+    return Array.isArray(waypoints) ? waypoints : isRecord(waypoints) ? Object.values(waypoints) : [];
+  }
+  return [parsed];
+};
+
+const isJourneyMapWaypoint = (value: unknown): boolean =>
+  isRecord(value) && 'x' in value && 'z' in value && 'name' in value;
+
+export function parseJourneyMap(text: string): RawWaypoint[] {
+  const list = journeyMapEntries(JSON.parse(text.replace(/^\uFEFF/, '')));
+  return list.map((value, index) => {
+    const waypoint = (value ?? {}) as Record<string, unknown>;
+    const { r, g, b, color } = waypoint;
+    let rgb: Rgb | null = null;
+    if (typeof r === 'number' && typeof g === 'number' && typeof b === 'number') {
+      rgb = { r, g, b };
+    } else if (typeof color === 'number') {
+      rgb = { r: (color >> 16) & 0xff, g: (color >> 8) & 0xff, b: color & 0xff };
+    }
+    return {
+      line: index + 1,
+      name: String(waypoint.name ?? ''),
+      x: String(waypoint.x ?? ''),
+      z: String(waypoint.z ?? ''),
+      color: rgb
+    };
+  });
+}
+
+const unescapeVoxelMap = (value: string) => value.replace(/~comma~/g, ',').replace(/~colon~/g, ':');
+
+// Waypoint lines start with "name:"; the "subworlds:", "seeds:" etc. lines are skipped
+export function parseVoxelMap(text: string): RawWaypoint[] {
+  const waypoints: RawWaypoint[] = [];
+  toLines(text).forEach((line, index) => {
+    if (!line.startsWith('name:')) return;
+    const fields = new Map<string, string>();
+    line.replace(/#$/, '').split(',').forEach(pair => {
+      const separator = pair.indexOf(':');
+      if (separator > 0) fields.set(pair.slice(0, separator), unescapeVoxelMap(pair.slice(separator + 1)));
+    });
+    const channel = (key: string) => Math.round(Number(fields.get(key)) * 255);
+    const rgb = { r: channel('red'), g: channel('green'), b: channel('blue') };
+    waypoints.push({
+      line: index + 1,
+      name: fields.get('name') ?? '',
+      x: fields.get('x') ?? '',
+      z: fields.get('z') ?? '',
+      color: [rgb.r, rgb.g, rgb.b].every(Number.isFinite) ? rgb : null
+    });
+  });
+  return waypoints;
+}
+
+// JSON is only ever JourneyMap here, but other JSON (a project file, say)
+// must not be mistaken for it, so JSON needs the whole text to be recognised
+export const looksLikeJson = (text: string): boolean => /^[{[]/.test(text.replace(/^\uFEFF/, '').trimStart());
+
+const isJourneyMap = (text: string): boolean => {
+  try {
+    const list = journeyMapEntries(JSON.parse(text.replace(/^\uFEFF/, '')));
+    return list.length > 0 && list.every(isJourneyMapWaypoint);
+  } catch {
+    return false;
+  }
+};
+
+// Recognise a waypoint file by its content; null means "not a waypoint file"
+export function detectWaypointFormat(text: string): WaypointFormat | null {
+  const head = text.replace(/^\uFEFF/, '').trimStart();
+  if (looksLikeJson(head)) return isJourneyMap(head) ? 'journeymap' : null;
+  if (/^waypoint:/m.test(head)) return 'xaero';
+  if (/^name:[^\n]*,x:/m.test(head)) return 'voxelmap';
+  return null;
+}
+
+export function parseWaypoints(format: WaypointFormat, text: string): RawWaypoint[] {
+  switch (format) {
+    case 'xaero':
+      return parseXaero(text);
+    case 'journeymap':
+      return parseJourneyMap(text);
+    case 'voxelmap':
+      return parseVoxelMap(text);
+  }
+}
+
+/**
+ * Run waypoint files through the CSV row processor, so they get the same
+ * world border and exclusion checks and the same report. Files that are not
+ * waypoint files (e.g. a README inside a zip) are ignored. When there are
+ * several files, each report row names the file it came from.
+ */
+export function importWaypointFiles(
+  files: ExportFile[],
+  table: ColorSeriesEntry[],
+  profile: WorldProfile
+): ImportReport {
+  const processor = createRowProcessor({ x: 0, z: 1, series: 2, label: 3 }, false, profile);
+  for (const file of files) {
+    const format = detectWaypointFormat(file.content);
+    if (!format) continue;
+    let waypoints: RawWaypoint[];
+    try {
+      waypoints = parseWaypoints(format, file.content);
+    } catch (error) {
+      throw new Error(`${file.path} is not a valid ${WAYPOINT_FORMAT_LABELS[format]} file (${(error as Error).message})`);
+    }
+    waypoints.forEach(waypoint => {
+      const series = waypoint.color ? nearestSeries(waypoint.color, table) : null;
+      processor.process(
+        [waypoint.x, waypoint.z, series ?? '', waypoint.name],
+        waypoint.line,
+        files.length > 1 ? file.path : undefined
+      );
+    });
+  }
+  return processor.report();
+}
@@ -0,0 +1,92 @@
+// src/utils/worldProfile.ts
+// World border and exclusion zones shared by every way a point can enter the
+// hunt: typed, pasted, imported, clicked or dragged on the map.
+
+import { WorldProfile } from '../types';
+import { WorldBounds } from './coordinateTransform';
+
+// The original hunt world: X -159..159, Z -160..160, no pearls around spawn
+export const DEFAULT_WORLD_PROFILE: WorldProfile = {
+  origin: { x: 0, z: 0 },
+  border: { shape: 'square', halfWidth: 159, halfDepth: 160 },
+  exclusions: [{ name: 'Spawn', xMin: -3, xMax: 3, zMin: -3, zMax: 3 }]
+};
+
+const CIRCLE_SEGMENTS = 64;
+
+// Blocks per chunk side
+export const CHUNK_SIZE = 16;
+
+// Returns the reason a coordinate cannot be used, or null when it is valid
+export function validateCoordinates(
+  x: number,
+  z: number,
+  profile: WorldProfile = DEFAULT_WORLD_PROFILE
+): string | null {
+  const { origin, border } = profile;
+  if (border.shape === 'square') {
+    const xMin = origin.x - border.halfWidth;
+    const xMax = origin.x + border.halfWidth;
+    const zMin = origin.z - border.halfDepth;
+    const zMax = origin.z + border.halfDepth;
+    if (x < xMin || x > xMax) return `X ${x} is outside ${xMin}..${xMax}`;
+    if (z < zMin || z > zMax) return `Z ${z} is outside ${zMin}..${zMax}`;
+  } else if (Math.hypot(x - origin.x, z - origin.z) > border.radius) {
+    return `(${x}, ${z}) is more than ${border.radius} blocks from (${origin.x}, ${origin.z})`;
+  }
+
+  const zone = profile.exclusions.find(e => x >= e.xMin && x <= e.xMax && z >= e.zMin && z <= e.zMax);
+  if (zone) {
+    return `(${x}, ${z}) is inside the ${zone.name} exclusion (${zone.xMin}..${zone.xMax}, ${zone.zMin}..${zone.zMax})`;
+  }
+  return null;
+}
+
+// Problems that make a profile unusable, e.g. while it is being edited
+export function findProfileProblem(profile: WorldProfile): string | null {
+  const { border } = profile;
+  if (border.shape === 'square' && (border.halfWidth <= 0 || border.halfDepth <= 0)) {
+    return 'The border must be larger than zero';
+  }
+  if (border.shape === 'circle' && border.radius <= 0) {
+    return 'The border radius must be larger than zero';
+  }
+  const inverted = profile.exclusions.find(e => e.xMin > e.xMax || e.zMin > e.zMax);
+  if (inverted) return `The ${inverted.name || 'unnamed'} exclusion has a minimum above its maximum`;
+  return null;
+}
+
+// Chunk containing a block; negative coordinates round down like the game
+export const chunkOf = (x: number, z: number): { x: number; z: number } => ({
+  x: Math.floor(x / CHUNK_SIZE),
+  z: Math.floor(z / CHUNK_SIZE)
+});
+
+// Straight-line distance in blocks from the profile origin (spawn)
+export const distanceFromOrigin = (x: number, z: number, profile: WorldProfile): number =>
+  Math.hypot(x - profile.origin.x, z - profile.origin.z);
+
+// Square around the origin that contains the whole border; an uncalibrated
+// map image is stretched over it
+export function profileMapBounds(profile: WorldProfile): WorldBounds {
+  const { origin, border } = profile;
+  const half = border.shape === 'square' ? Math.max(border.halfWidth, border.halfDepth) : border.radius;
+  return { xMin: origin.x - half, xMax: origin.x + half, zMin: origin.z - half, zMax: origin.z + half };
+}
+
+// Outline of the border in world coordinates
+export function borderOutline(profile: WorldProfile): Array<{ x: number; z: number }> {
+  const { origin, border } = profile;
+  if (border.shape === 'square') {
+    return [
+      { x: origin.x - border.halfWidth, z: origin.z - border.halfDepth },
+      { x: origin.x + border.halfWidth, z: origin.z - border.halfDepth },
+      { x: origin.x + border.halfWidth, z: origin.z + border.halfDepth },
+      { x: origin.x - border.halfWidth, z: origin.z + border.halfDepth }
+    ];
+  }
+  return Array.from({ length: CIRCLE_SEGMENTS }, (_, i) => {
+    const angle = (i / CIRCLE_SEGMENTS) * Math.PI * 2;
+    return { x: origin.x + Math.cos(angle) * border.radius, z: origin.z + Math.sin(angle) * border.radius };
+  });
+}
@@ -0,0 +1,28 @@
+// src/workers/importWorker.ts
+// Streams a CSV file through the import pipeline off the main thread.
+import Papa from 'papaparse';
+import { createRowProcessor, ImportWorkerRequest, ImportWorkerResponse } from '../utils/importPipeline';
+
+const CHUNK_SIZE = 256 * 1024;
+
+const post = (message: ImportWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (e: MessageEvent<ImportWorkerRequest>) => {
+  const { file, mapping, hasHeader, profile } = e.data;
+  const processor = createRowProcessor(mapping, hasHeader, profile);
+
+  Papa.parse<string[]>(file, {
+    header: false,
+    chunkSize: CHUNK_SIZE,
+    chunk: (results) => {
+      results.data.forEach(row => processor.process(row));
+      post({
+        type: 'progress',
+        processedLines: processor.processedLines,
+        fraction: file.size > 0 ? Math.min(1, results.meta.cursor / file.size) : 1
+      });
+    },
+    complete: () => post({ type: 'done', report: processor.report() }),
+    error: (error) => post({ type: 'error', message: error.message })
+  });
+};
@@ -0,0 +1,22 @@
+// src/workers/labelWorker.ts
+// Places chart labels off the main thread, keeping one incremental layout per chart.
+import { IncrementalLabelLayout, LabelWorkerRequest, LabelWorkerResponse } from '../utils/labelLayoutCache';
+
+const layouts = new Map<number, IncrementalLabelLayout>();
+
+const post = (message: LabelWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (e: MessageEvent<LabelWorkerRequest>) => {
+  const message = e.data;
+  if (message.type === 'dispose') {
+    layouts.delete(message.channel);
+    return;
+  }
+
+  let layout = layouts.get(message.channel);
+  if (!layout) {
+    layout = new IncrementalLabelLayout();
+    layouts.set(message.channel, layout);
+  }
+  post({ channel: message.channel, requestId: message.requestId, result: layout.update(message.request) });
+};